@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readBrandKitLogo } from '@/lib/brandKits/store';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const result = await readBrandKitLogo(id);
+    if (!result) {
+      return NextResponse.json({ error: 'Brand kit logo not found.' }, { status: 404 });
+    }
+
+    // Logos can be replaced in place, so clients revalidate instead of caching forever.
+    return new NextResponse(new Uint8Array(result.bytes), {
+      headers: {
+        'Content-Type': result.logo.mimeType,
+        'Cache-Control': 'private, no-cache',
+      },
+    });
+  } catch (error) {
+    console.error('Error reading brand kit logo:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read brand kit logo.' },
+      { status: 500 }
+    );
+  }
+}
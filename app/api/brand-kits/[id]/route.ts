@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteBrandKit, getBrandKit, parseBrandKitInput, updateBrandKit } from '@/lib/brandKits/store';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const kit = await getBrandKit(id);
+  if (!kit) {
+    return NextResponse.json({ error: 'Brand kit not found.' }, { status: 404 });
+  }
+  return NextResponse.json({ kit });
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const parsed = parseBrandKitInput(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const kit = await updateBrandKit(id, parsed.input);
+    if (!kit) {
+      return NextResponse.json({ error: 'Brand kit not found.' }, { status: 404 });
+    }
+    return NextResponse.json({ kit });
+  } catch (error) {
+    console.error('Error updating brand kit:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update brand kit.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await deleteBrandKit(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Brand kit not found.' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting brand kit:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete brand kit.' },
+      { status: 500 }
+    );
+  }
+}
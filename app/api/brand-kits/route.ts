@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createBrandKit, listBrandKits, parseBrandKitInput } from '@/lib/brandKits/store';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const kits = await listBrandKits();
+    return NextResponse.json({ kits });
+  } catch (error) {
+    console.error('Error listing brand kits:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list brand kits.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = parseBrandKitInput(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const kit = await createBrandKit(parsed.input);
+    return NextResponse.json({ kit });
+  } catch (error) {
+    console.error('Error creating brand kit:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create brand kit.' },
+      { status: 500 }
+    );
+  }
+}
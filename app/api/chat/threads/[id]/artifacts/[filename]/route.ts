@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readChatArtifact } from '@/lib/chat/store';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string; filename: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id, filename } = await params;
+    const artifact = await readChatArtifact(id, filename);
+    if (!artifact) {
+      return NextResponse.json({ error: 'Chat artifact not found.' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(artifact.bytes), {
+      headers: {
+        'Content-Type': artifact.mimeType,
+        'Cache-Control': 'private, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('Error reading chat artifact:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read chat artifact.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteChatThread, getChatThread, updateChatThread } from '@/lib/chat/store';
+import { MAX_CHAT_TITLE_LENGTH } from '@/lib/chat/titles';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const thread = await getChatThread(id);
+  if (!thread) {
+    return NextResponse.json({ error: 'Chat thread not found.' }, { status: 404 });
+  }
+  return NextResponse.json({ thread });
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { title } = await request.json();
+    const nextTitle = typeof title === 'string' ? title.trim().replace(/\s+/g, ' ') : '';
+    if (!nextTitle) {
+      return NextResponse.json({ error: 'Thread title is required.' }, { status: 400 });
+    }
+    if (nextTitle.length > MAX_CHAT_TITLE_LENGTH) {
+      return NextResponse.json({ error: `Thread titles must be ${MAX_CHAT_TITLE_LENGTH} characters or fewer.` }, { status: 400 });
+    }
+
+    const thread = await updateChatThread(id, (current) => ({ ...current, title: nextTitle }));
+    if (!thread) {
+      return NextResponse.json({ error: 'Chat thread not found.' }, { status: 404 });
+    }
+    return NextResponse.json({ thread });
+  } catch (error) {
+    console.error('Error renaming chat thread:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to rename chat thread.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await deleteChatThread(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Chat thread not found.' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting chat thread:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete chat thread.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { listChatThreads } from '@/lib/chat/store';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const threads = await listChatThreads();
+    return NextResponse.json({ threads });
+  } catch (error) {
+    console.error('Error listing chat threads:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list chat threads.' },
+      { status: 500 }
+    );
+  }
+}
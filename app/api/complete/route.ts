@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { buildMockCompletion, isMockMode } from '@/lib/mock';
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,6 +14,13 @@ export async function POST(request: NextRequest) {
 
     const isCorrection = mode === 'correct';
 
+    if (isMockMode()) {
+      return NextResponse.json({
+        completion: buildMockCompletion(prompt, isCorrection ? 'correct' : 'complete'),
+        mode: isCorrection ? 'correct' : 'complete'
+      });
+    }
+
     const apiKey = process.env.OPENROUTER_API_KEY;
     
     if (!apiKey) {
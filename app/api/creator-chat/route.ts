@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { MOCK_MODEL_ID, buildMockCreatorDirection, isMockMode } from '@/lib/mock';
 
 const SYSTEM_PROMPT = `You are ImageGenStudio's LinkedIn creator strategist for agencies and creator studios.
 
@@ -29,6 +30,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Message is required' }, { status: 400 });
     }
 
+    if (isMockMode()) {
+      return NextResponse.json({ result: buildMockCreatorDirection(message), model: MOCK_MODEL_ID });
+    }
+
     const apiKey = process.env.OPENROUTER_API_KEY;
     if (!apiKey) {
       return NextResponse.json(
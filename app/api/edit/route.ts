@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveSourceImage } from '@/lib/history/store';
+import { DEFAULT_MODEL, MODEL_CAPABILITIES, isEnabledModel } from '@/lib/modelConfig';
+import { editWithProvider } from '@/lib/serverImageEditing';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { imageData, maskData, prompt, model = DEFAULT_MODEL } = await request.json();
+
+    if (!prompt || typeof prompt !== 'string' || !prompt.trim()) {
+      return NextResponse.json({ error: 'Edit instruction is required' }, { status: 400 });
+    }
+
+    if (!imageData || typeof imageData !== 'string') {
+      return NextResponse.json({ error: 'imageData is required (data URI or history output URL)' }, { status: 400 });
+    }
+
+    if (!maskData || typeof maskData !== 'string' || !maskData.startsWith('data:image')) {
+      return NextResponse.json({ error: 'maskData must be a PNG data URI' }, { status: 400 });
+    }
+
+    if (!isEnabledModel(model)) {
+      return NextResponse.json(
+        { error: `Unsupported model "${model}". Select a configured image model.` },
+        { status: 400 }
+      );
+    }
+
+    if (!MODEL_CAPABILITIES[model].supportsMaskedEdits) {
+      return NextResponse.json({ error: `${model} does not support masked edits. Pick another model.` }, { status: 400 });
+    }
+
+    const sourceImage = await resolveSourceImage(imageData, request.nextUrl.origin);
+    if (!sourceImage) {
+      return NextResponse.json({ error: 'imageData must be an image data URI or a history output URL from this studio' }, { status: 400 });
+    }
+
+    const imageUrl = await editWithProvider(sourceImage, maskData, prompt.trim(), model);
+    return NextResponse.json({ imageUrl });
+  } catch (error) {
+    console.error('Error editing image:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to edit image' },
+      { status: 500 }
+    );
+  }
+}
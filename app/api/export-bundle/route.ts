@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import sharp from 'sharp';
+import { buildOgPackageBundle, OgBundleAsset } from '@/lib/og/bundle';
+import { validateOgPackageMeta } from '@/lib/og/meta';
+import { getOgPreset } from '@/lib/og/presets';
+import { OgPackageMeta } from '@/lib/og/types';
+import { createZipArchive } from '@/lib/serverZip';
+
+export const runtime = 'nodejs';
+
+const MAX_ASSETS = 20;
+const FILE_EXTENSIONS: Record<string, string> = { png: 'png', jpeg: 'jpg', webp: 'webp' };
+
+function parseImageData(dataUri: string): Buffer {
+  const match = dataUri.match(/^data:image\/[^;]+;base64,(.+)$/);
+  if (!match?.[1]) {
+    throw new Error('Image data must be a base64 data URI.');
+  }
+  return Buffer.from(match[1], 'base64');
+}
+
+function parseMeta(value: unknown): OgPackageMeta | string {
+  if (!value || typeof value !== 'object') return 'Package metadata is required.';
+  const candidate = value as Record<string, unknown>;
+
+  for (const field of ['url', 'assetBaseUrl', 'title', 'description', 'siteName', 'themeColor'] as const) {
+    if (typeof candidate[field] !== 'string') return `meta.${field} must be text.`;
+  }
+
+  const imageAlts = candidate.imageAlts ?? {};
+  if (typeof imageAlts !== 'object' || Object.values(imageAlts).some((alt) => typeof alt !== 'string')) {
+    return 'meta.imageAlts must map preset ids to text.';
+  }
+
+  return {
+    url: candidate.url as string,
+    assetBaseUrl: candidate.assetBaseUrl as string,
+    title: candidate.title as string,
+    description: candidate.description as string,
+    siteName: candidate.siteName as string,
+    themeColor: candidate.themeColor as string,
+    imageAlts: imageAlts as Record<string, string>,
+  };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!Array.isArray(body?.assets) || body.assets.length === 0) {
+      return NextResponse.json({ error: 'At least one package asset is required.' }, { status: 400 });
+    }
+
+    if (body.assets.length > MAX_ASSETS) {
+      return NextResponse.json({ error: `Bundles support up to ${MAX_ASSETS} assets.` }, { status: 400 });
+    }
+
+    const meta = parseMeta(body.meta);
+    if (typeof meta === 'string') {
+      return NextResponse.json({ error: meta }, { status: 400 });
+    }
+
+    const assets: OgBundleAsset[] = [];
+    for (const assetInput of body.assets as { presetId?: unknown; imageData?: unknown }[]) {
+      const preset = typeof assetInput?.presetId === 'string' ? getOgPreset(assetInput.presetId) : undefined;
+      if (!preset) {
+        return NextResponse.json({ error: 'Every asset needs a known OG preset id.' }, { status: 400 });
+      }
+      if (assets.some((asset) => asset.presetId === preset.id)) {
+        return NextResponse.json({ error: `Duplicate asset for ${preset.id}.` }, { status: 400 });
+      }
+      if (typeof assetInput.imageData !== 'string') {
+        return NextResponse.json({ error: `Image data is required for ${preset.id}.` }, { status: 400 });
+      }
+
+      const bytes = parseImageData(assetInput.imageData);
+      const { format, width, height } = await sharp(bytes).metadata();
+      const extension = format ? FILE_EXTENSIONS[format] : undefined;
+      if (!format || !extension || !width || !height) {
+        return NextResponse.json({ error: `${preset.id} must be a PNG, JPEG, or WebP image.` }, { status: 400 });
+      }
+
+      assets.push({
+        presetId: preset.id,
+        platform: preset.platform,
+        width,
+        height,
+        filename: `${preset.id}.${extension}`,
+        bytes,
+        format,
+      });
+    }
+
+    // The bundle is meant to be deployed as-is, so it is held to the same bar as copying the tags.
+    const metaError = validateOgPackageMeta(meta, assets).find((issue) => issue.severity === 'error');
+    if (metaError) {
+      return NextResponse.json({ error: metaError.message }, { status: 400 });
+    }
+
+    return new NextResponse(new Uint8Array(createZipArchive(buildOgPackageBundle(meta, assets))), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': 'attachment; filename="og-package.zip"',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting OG bundle:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export bundle.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PDFDocument } from 'pdf-lib';
+import { createImagePdf, getPdfFilename, PdfPageImage } from '@/lib/serverPdf';
 
 export const runtime = 'nodejs';
 
@@ -11,7 +11,7 @@ interface PdfPageInput {
   title?: string;
 }
 
-function parseImageData(dataUri: string): { mimeType: string; bytes: Uint8Array } {
+function parseImageData(dataUri: string): PdfPageImage {
   const match = dataUri.match(/^data:(image\/png|image\/jpe?g);base64,(.+)$/);
   if (!match?.[1] || !match[2]) {
     throw new Error('Each PDF page image must be a PNG or JPEG base64 data URI.');
@@ -23,11 +23,6 @@ function parseImageData(dataUri: string): { mimeType: string; bytes: Uint8Array
   };
 }
 
-function sanitizeFilename(value: unknown): string {
-  if (typeof value !== 'string') return 'linkedin-storybook';
-  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '') || 'linkedin-storybook';
-}
-
 export async function POST(request: NextRequest) {
   try {
     const { pages, width, height, title } = await request.json();
@@ -48,30 +43,16 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Requested PDF dimensions are too large.' }, { status: 400 });
     }
 
-    const pdf = await PDFDocument.create();
-    pdf.setTitle(typeof title === 'string' ? title : 'LinkedIn storybook');
-
+    const pageImages: PdfPageImage[] = [];
     for (const pageInput of pages as PdfPageInput[]) {
       if (!pageInput?.image || typeof pageInput.image !== 'string') {
         return NextResponse.json({ error: 'Every PDF page must include an image.' }, { status: 400 });
       }
-
-      const { mimeType, bytes } = parseImageData(pageInput.image);
-      const embeddedImage = mimeType === 'image/png'
-        ? await pdf.embedPng(bytes)
-        : await pdf.embedJpg(bytes);
-      const page = pdf.addPage([width, height]);
-
-      page.drawImage(embeddedImage, {
-        x: 0,
-        y: 0,
-        width,
-        height,
-      });
+      pageImages.push(parseImageData(pageInput.image));
     }
 
-    const pdfBytes = await pdf.save();
-    const filename = `${sanitizeFilename(title)}.pdf`;
+    const pdfBytes = await createImagePdf(pageImages, width, height, typeof title === 'string' ? title : 'LinkedIn storybook');
+    const filename = getPdfFilename(title);
 
     return new NextResponse(Buffer.from(pdfBytes), {
       headers: {
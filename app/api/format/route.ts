@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import sharp from 'sharp';
+import { HEX_COLOR_PATTERN } from '@/lib/brandKits/prompt';
+import { getCreatorPreset } from '@/lib/creatorContent';
+import { CropBox, CropOptions, isCropStrategy } from '@/lib/crop';
+import { formatImage, MAX_OUTPUT_DIMENSION, MAX_OUTPUT_PIXELS } from '@/lib/serverImageFormat';
+import { MAX_OVERLAY_HEADLINE_LENGTH, MAX_OVERLAY_LINE_LENGTH, TextOverlay } from '@/lib/textOverlay';
 
-const MAX_OUTPUT_DIMENSION = 7680;
-const MAX_OUTPUT_PIXELS = 60_000_000;
+export const runtime = 'nodejs';
 
 function parseImageData(dataUri: string): Buffer {
   const match = dataUri.match(/^data:image\/[^;]+;base64,(.+)$/);
@@ -12,47 +15,72 @@ function parseImageData(dataUri: string): Buffer {
   return Buffer.from(match[1], 'base64');
 }
 
-async function compressToMaxSize(
-  pipeline: sharp.Sharp,
-  format: 'jpeg' | 'png',
-  quality: number,
-  maxFileSizeKb?: number,
-): Promise<Buffer> {
-  if (!maxFileSizeKb) {
-    return format === 'jpeg'
-      ? pipeline.jpeg({ quality, mozjpeg: true }).toBuffer()
-      : pipeline.png({ compressionLevel: 9 }).toBuffer();
+function parseTextOverlay(value: unknown): TextOverlay | string {
+  const candidate = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const headline = typeof candidate.headline === 'string' ? candidate.headline.trim() : '';
+  if (!headline) return 'Overlay headline is required.';
+  if (headline.length > MAX_OVERLAY_HEADLINE_LENGTH) {
+    return `Overlay headline must be ${MAX_OVERLAY_HEADLINE_LENGTH} characters or fewer.`;
   }
 
-  const maxBytes = maxFileSizeKb * 1024;
-  let workingPipeline = pipeline;
-  let currentQuality = quality;
-
-  for (let attempt = 0; attempt < 8; attempt += 1) {
-    const buffer = format === 'jpeg'
-      ? await workingPipeline.jpeg({ quality: currentQuality, mozjpeg: true }).toBuffer()
-      : await workingPipeline.png({ compressionLevel: 9 }).toBuffer();
-
-    if (buffer.length <= maxBytes) {
-      return buffer;
+  for (const field of ['subline', 'cta'] as const) {
+    const line = candidate[field];
+    if (line !== undefined && (typeof line !== 'string' || line.length > MAX_OVERLAY_LINE_LENGTH)) {
+      return `Overlay ${field} must be text of ${MAX_OVERLAY_LINE_LENGTH} characters or fewer.`;
     }
+  }
 
-    if (format === 'jpeg' && currentQuality > 45) {
-      currentQuality -= 5;
-      workingPipeline = sharp(buffer);
-      continue;
+  for (const field of ['textColor', 'accentColor'] as const) {
+    const color = candidate[field];
+    if (color !== undefined && (typeof color !== 'string' || !HEX_COLOR_PATTERN.test(color))) {
+      return `Overlay ${field} must be a hex color like #1a2b3c.`;
     }
+  }
 
-    const metadata = await sharp(buffer).metadata();
-    const nextWidth = Math.max(320, Math.floor((metadata.width || 1) * 0.85));
-    const nextHeight = Math.max(320, Math.floor((metadata.height || 1) * 0.85));
-    workingPipeline = sharp(buffer).resize(nextWidth, nextHeight, {
-      fit: 'inside',
-      withoutEnlargement: true,
-    });
+  return {
+    headline,
+    subline: candidate.subline as string | undefined,
+    cta: candidate.cta as string | undefined,
+    align: candidate.align === 'center' ? 'center' : 'left',
+    textColor: candidate.textColor as string | undefined,
+    accentColor: candidate.accentColor as string | undefined,
+    scrim: candidate.scrim !== false,
+  };
+}
+
+function isFraction(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+}
+
+function parseCropOptions(value: unknown): CropOptions | string {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object') return 'crop must be an object.';
+  const candidate = value as Record<string, unknown>;
+
+  if (candidate.strategy !== undefined && !isCropStrategy(candidate.strategy)) {
+    return 'crop.strategy must be centre, attention, or entropy.';
+  }
+
+  const focalPoint = candidate.focalPoint as Record<string, unknown> | undefined;
+  if (focalPoint !== undefined && (!focalPoint || !isFraction(focalPoint.x) || !isFraction(focalPoint.y))) {
+    return 'crop.focalPoint must have x and y between 0 and 1.';
   }
 
-  throw new Error(`Unable to compress image below ${maxFileSizeKb} KB. Try simplifying the visual or lowering detail.`);
+  const box = candidate.box as Record<string, unknown> | undefined;
+  if (box !== undefined) {
+    const valid = box
+      && isFraction(box.left) && isFraction(box.top) && isFraction(box.width) && isFraction(box.height)
+      && box.width > 0 && box.height > 0
+      // Tolerate rounding from the client's frame maths.
+      && box.left + box.width <= 1.001 && box.top + box.height <= 1.001;
+    if (!valid) return 'crop.box must be left, top, width, and height fractions inside the image.';
+  }
+
+  return {
+    strategy: candidate.strategy as CropOptions['strategy'],
+    focalPoint: focalPoint ? { x: focalPoint.x as number, y: focalPoint.y as number } : undefined,
+    box: box as CropBox | undefined,
+  };
 }
 
 export async function POST(request: NextRequest) {
@@ -65,6 +93,9 @@ export async function POST(request: NextRequest) {
       quality = 92,
       maxFileSizeKb,
       fit = 'cover',
+      presetId,
+      overlay,
+      crop,
     } = await request.json();
 
     if (!image || typeof image !== 'string') {
@@ -79,18 +110,28 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Requested output size is too large.' }, { status: 400 });
     }
 
+    const textOverlay = overlay ? parseTextOverlay(overlay) : null;
+    if (typeof textOverlay === 'string') {
+      return NextResponse.json({ error: textOverlay }, { status: 400 });
+    }
+
+    const cropOptions = parseCropOptions(crop);
+    if (typeof cropOptions === 'string') {
+      return NextResponse.json({ error: cropOptions }, { status: 400 });
+    }
+
     const outputFormat = format === 'jpeg' || format === 'jpg' ? 'jpeg' : 'png';
-    const resizeFit = fit === 'contain' ? 'contain' : 'cover';
-    const pipeline = sharp(parseImageData(image))
-      .resize(width, height, {
-        fit: resizeFit,
-        position: 'centre',
-        withoutEnlargement: false,
-        background: resizeFit === 'contain' ? { r: 26, g: 26, b: 26, alpha: 1 } : undefined,
-      })
-      .sharpen({ sigma: 0.6 });
-
-    const buffer = await compressToMaxSize(pipeline, outputFormat, quality, maxFileSizeKb);
+    const buffer = await formatImage(parseImageData(image), {
+      width,
+      height,
+      format: outputFormat,
+      quality,
+      maxFileSizeKb,
+      fit: fit === 'contain' ? 'contain' : 'cover',
+      preset: typeof presetId === 'string' ? getCreatorPreset(presetId) : undefined,
+      overlay: textOverlay,
+      crop: cropOptions,
+    });
 
     return NextResponse.json({
       image: `data:image/${outputFormat};base64,${buffer.toString('base64')}`,
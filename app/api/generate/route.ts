@@ -2,16 +2,24 @@ import { NextRequest, NextResponse } from 'next/server';
 import {
   DEFAULT_MODEL,
   Layout,
+  MAX_IMAGE_VARIANTS,
   MODEL_CAPABILITIES,
-  isModel,
+  isEnabledModel,
 } from '@/lib/modelConfig';
-import { generateWithOpenRouter } from '@/lib/serverImageGeneration';
+import { MAX_REFERENCE_IMAGES, ReferenceImage, isReferenceRole } from '@/lib/referenceImages';
+import { generateVariantsWithProvider } from '@/lib/serverImageGeneration';
 
 const VALID_LAYOUTS: Layout[] = ['landscape', 'mobile', 'portrait', 'square', 'reference'];
 
+function isReferenceImage(value: unknown): value is ReferenceImage {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Partial<ReferenceImage>;
+  return typeof candidate.imageData === 'string' && candidate.imageData.startsWith('data:image') && isReferenceRole(candidate.role);
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const { prompt, layout, model = DEFAULT_MODEL, imageData, referenceDimensions } = await request.json();
+    const { prompt, layout, model = DEFAULT_MODEL, imageData, references: rawReferences, referenceDimensions, variants = 1 } = await request.json();
 
     if (!prompt || typeof prompt !== 'string') {
       return NextResponse.json({ error: 'Prompt is required' }, { status: 400 });
@@ -24,9 +32,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!isModel(model)) {
+    if (!isEnabledModel(model)) {
       return NextResponse.json(
-        { error: `Unsupported model "${model}". Select a configured OpenRouter image model.` },
+        { error: `Unsupported model "${model}". Select a configured image model.` },
         { status: 400 }
       );
     }
@@ -48,6 +56,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (rawReferences !== undefined && (!Array.isArray(rawReferences) || !rawReferences.every(isReferenceImage))) {
+      return NextResponse.json(
+        { error: 'references must be an array of { imageData, role } with a data URI and a role of subject, style, logo, or composition' },
+        { status: 400 }
+      );
+    }
+
+    // A bare imageData is the single-reference form and is treated as the subject.
+    const references: ReferenceImage[] = rawReferences || (imageData ? [{ imageData, role: 'subject' }] : []);
+    if (references.length > MAX_REFERENCE_IMAGES) {
+      return NextResponse.json(
+        { error: `At most ${MAX_REFERENCE_IMAGES} reference images are supported` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(variants) || variants < 1 || variants > MAX_IMAGE_VARIANTS) {
+      return NextResponse.json(
+        { error: `variants must be an integer between 1 and ${MAX_IMAGE_VARIANTS}` },
+        { status: 400 }
+      );
+    }
+
     const capabilities = MODEL_CAPABILITIES[model];
     if (!capabilities.supportedLayouts.includes(layout)) {
       return NextResponse.json(
@@ -56,28 +87,38 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (capabilities.requiresReferenceImage && !imageData) {
+    if (capabilities.requiresReferenceImage && references.length === 0) {
       return NextResponse.json(
         { error: 'Reference image is required for this model. Please upload a reference image.' },
         { status: 400 }
       );
     }
 
-    const imageUrl = await generateWithOpenRouter(
+    if (references.length > capabilities.maxReferenceImages) {
+      return NextResponse.json(
+        { error: capabilities.maxReferenceImages === 0
+          ? `${model} does not accept reference images.`
+          : `${model} accepts at most ${capabilities.maxReferenceImages} reference image${capabilities.maxReferenceImages === 1 ? '' : 's'}.` },
+        { status: 400 }
+      );
+    }
+
+    const imageUrls = await generateVariantsWithProvider(
       prompt,
       layout,
       model,
-      imageData,
+      variants,
+      references,
       layout === 'reference' ? referenceDimensions : undefined
     );
 
-    return NextResponse.json({ imageUrl });
+    return NextResponse.json({ imageUrl: imageUrls[0], imageUrls });
   } catch (error) {
     console.error('Error generating image:', error);
 
     if (error instanceof TypeError && error.message.includes('fetch')) {
       return NextResponse.json(
-        { error: 'Network error: Unable to connect to OpenRouter. Please check the API endpoint URL.' },
+        { error: 'Network error: Unable to connect to the image provider. Please check the API endpoint URL.' },
         { status: 500 }
       );
     }
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readHistoryOutput } from '@/lib/history/store';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string; index: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id, index } = await params;
+  const outputIndex = Number(index);
+  if (!Number.isInteger(outputIndex) || outputIndex < 0) {
+    return NextResponse.json({ error: 'Invalid output index.' }, { status: 400 });
+  }
+
+  try {
+    const result = await readHistoryOutput(id, outputIndex);
+    if (!result) {
+      return NextResponse.json({ error: 'History output not found.' }, { status: 404 });
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': result.output.mimeType,
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'private, max-age=31536000, immutable',
+    };
+    if (request.nextUrl.searchParams.get('download') === '1') {
+      headers['Content-Disposition'] = `attachment; filename="${id.slice(0, 8)}-${result.output.filename}"`;
+    }
+
+    return new NextResponse(new Uint8Array(result.bytes), { headers });
+  } catch (error) {
+    console.error('Error reading history output:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read history output.' },
+      { status: 500 }
+    );
+  }
+}
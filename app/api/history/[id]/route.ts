@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteHistoryEntry, getHistoryEntry, setHistoryOgTemplate } from '@/lib/history/store';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const entry = await getHistoryEntry(id);
+  if (!entry) {
+    return NextResponse.json({ error: 'History entry not found.' }, { status: 404 });
+  }
+  return NextResponse.json({ entry });
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { ogTemplate } = await request.json();
+    if (typeof ogTemplate !== 'boolean') {
+      return NextResponse.json({ error: 'ogTemplate must be true or false.' }, { status: 400 });
+    }
+
+    const entry = await setHistoryOgTemplate(id, ogTemplate);
+    if (!entry) {
+      return NextResponse.json({ error: 'History entry not found.' }, { status: 404 });
+    }
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error('Error updating history entry:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update history entry.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await deleteHistoryEntry(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'History entry not found.' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting history entry:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete history entry.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Layout, isModel } from '@/lib/modelConfig';
+import { createHistoryEntry, listHistoryEntries, parseImageData } from '@/lib/history/store';
+import { HistoryKind, HistoryOutputInput } from '@/lib/history/types';
+
+export const runtime = 'nodejs';
+
+const VALID_LAYOUTS: Layout[] = ['landscape', 'mobile', 'portrait', 'square', 'reference'];
+const VALID_KINDS: HistoryKind[] = ['image', 'edit', 'storybook', 'og-package'];
+const MAX_OUTPUTS = 20;
+const DEFAULT_LIST_LIMIT = 60;
+
+function isHistoryOutputInput(value: unknown): value is HistoryOutputInput {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Partial<HistoryOutputInput>;
+  return typeof candidate.label === 'string' && typeof candidate.image === 'string';
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const query = request.nextUrl.searchParams.get('q') || undefined;
+    const limitParam = Number(request.nextUrl.searchParams.get('limit'));
+    const limit = Number.isInteger(limitParam) && limitParam > 0 ? limitParam : DEFAULT_LIST_LIMIT;
+
+    const entries = await listHistoryEntries({ query, limit });
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Error listing history:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list history.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      kind = 'image',
+      prompt,
+      resolvedPrompt,
+      model,
+      layout,
+      presetId,
+      referenceImageHash,
+      outputs,
+    } = await request.json();
+
+    if (!prompt || typeof prompt !== 'string') {
+      return NextResponse.json({ error: 'Prompt is required' }, { status: 400 });
+    }
+
+    if (!VALID_KINDS.includes(kind)) {
+      return NextResponse.json({ error: `Unsupported history kind "${kind}".` }, { status: 400 });
+    }
+
+    if (!isModel(model)) {
+      return NextResponse.json({ error: `Unsupported model "${model}".` }, { status: 400 });
+    }
+
+    if (!VALID_LAYOUTS.includes(layout)) {
+      return NextResponse.json({ error: 'Valid layout is required' }, { status: 400 });
+    }
+
+    if (!Array.isArray(outputs) || outputs.length === 0 || !outputs.every(isHistoryOutputInput)) {
+      return NextResponse.json({ error: 'At least one output image is required.' }, { status: 400 });
+    }
+
+    if (outputs.length > MAX_OUTPUTS) {
+      return NextResponse.json({ error: `History entries support up to ${MAX_OUTPUTS} outputs.` }, { status: 400 });
+    }
+
+    const images = await Promise.all(outputs.map((output) => parseImageData(output.image)));
+    if (images.some((image) => !image)) {
+      return NextResponse.json({ error: 'History outputs must be PNG, JPEG, or WebP data URIs.' }, { status: 400 });
+    }
+
+    const entry = await createHistoryEntry({
+      kind,
+      prompt,
+      resolvedPrompt: typeof resolvedPrompt === 'string' ? resolvedPrompt : prompt,
+      model,
+      layout,
+      presetId: typeof presetId === 'string' ? presetId : null,
+      referenceImageHash: typeof referenceImageHash === 'string' ? referenceImageHash : null,
+      outputs,
+    });
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error('Error saving history entry:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save history entry.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auditOgHtml, fetchPageHtml, MAX_AUDIT_HTML_BYTES } from '@/lib/og/audit';
+
+export const runtime = 'nodejs';
+
+function parsePageUrl(value: unknown): string | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { url, html } = await request.json();
+
+    const pageUrl = parsePageUrl(url);
+    if (pageUrl === null) {
+      return NextResponse.json({ error: 'URL must be an absolute http(s) URL.' }, { status: 400 });
+    }
+
+    if (html !== undefined && typeof html !== 'string') {
+      return NextResponse.json({ error: 'HTML must be text.' }, { status: 400 });
+    }
+
+    if (!html?.trim() && !pageUrl) {
+      return NextResponse.json({ error: 'Provide a page URL or paste its HTML.' }, { status: 400 });
+    }
+
+    if (html && Buffer.byteLength(html) > MAX_AUDIT_HTML_BYTES) {
+      return NextResponse.json({ error: 'Pasted HTML must be 2 MB or smaller.' }, { status: 400 });
+    }
+
+    // Pasted HTML wins; the URL is then only used to resolve relative image paths.
+    const page = html?.trim() ? { html, finalUrl: pageUrl } : await fetchPageHtml(pageUrl!);
+    const report = await auditOgHtml(page.html, page.finalUrl);
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('Error auditing Open Graph tags:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to audit the page.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHistoryEntry, isHistoryId, readHistoryOutput } from '@/lib/history/store';
+import { MAX_OG_BULK_ENTRIES } from '@/lib/og/bulk';
+import { buildOgPackageMetaInput, OgPackageImage, renderOgMetaHtml, resolveOgAssetUrl, validateOgPackageMeta } from '@/lib/og/meta';
+import { getOgPreset } from '@/lib/og/presets';
+import { OgBulkBundlePage, OgBulkSiteMeta, OgPackageMeta } from '@/lib/og/types';
+import { createZipStream, ZipEntry } from '@/lib/serverZip';
+
+export const runtime = 'nodejs';
+
+// Slugs become folder names inside the archive, so only plain path segments are accepted.
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*(?:\/[a-z0-9]+(?:-[a-z0-9]+)*)*$/;
+const FILE_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+
+interface BundlePage {
+  page: OgBulkBundlePage;
+  meta: OgPackageMeta;
+  images: (OgPackageImage & { outputIndex: number })[];
+}
+
+function parseSiteMeta(value: unknown): OgBulkSiteMeta | string {
+  const candidate = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  for (const field of ['assetBaseUrl', 'siteName', 'themeColor'] as const) {
+    if (candidate[field] !== undefined && typeof candidate[field] !== 'string') return `site.${field} must be text.`;
+  }
+  return {
+    assetBaseUrl: (candidate.assetBaseUrl as string | undefined) || '',
+    siteName: (candidate.siteName as string | undefined) || '',
+    themeColor: (candidate.themeColor as string | undefined) || '',
+  };
+}
+
+function parsePages(value: unknown): OgBulkBundlePage[] | string {
+  if (!Array.isArray(value) || value.length === 0) return 'At least one finished page is required.';
+  if (value.length > MAX_OG_BULK_ENTRIES) return `Bundles support up to ${MAX_OG_BULK_ENTRIES} pages.`;
+
+  const pages: OgBulkBundlePage[] = [];
+  for (const candidate of value as Record<string, unknown>[]) {
+    if (typeof candidate?.slug !== 'string' || !SLUG_PATTERN.test(candidate.slug)) {
+      return 'Every page needs a lowercase slug made of letters, numbers, dashes, and slashes.';
+    }
+    if (pages.some((page) => page.slug === candidate.slug)) return `Duplicate slug ${candidate.slug}.`;
+    if (!isHistoryId(candidate.historyId)) return `${candidate.slug} has no saved generation.`;
+    for (const field of ['url', 'title', 'description'] as const) {
+      if (typeof candidate[field] !== 'string') return `${candidate.slug}: ${field} must be text.`;
+    }
+
+    pages.push({
+      slug: candidate.slug,
+      historyId: candidate.historyId,
+      url: candidate.url as string,
+      title: candidate.title as string,
+      description: candidate.description as string,
+    });
+  }
+  return pages;
+}
+
+async function resolveBundlePage(page: OgBulkBundlePage, site: OgBulkSiteMeta): Promise<BundlePage | string> {
+  const entry = await getHistoryEntry(page.historyId);
+  if (!entry) return `${page.slug}: the saved generation was deleted. Retry the page.`;
+
+  const images: BundlePage['images'] = [];
+  entry.outputs.forEach((output, outputIndex) => {
+    const preset = output.presetId ? getOgPreset(output.presetId) : undefined;
+    const extension = FILE_EXTENSIONS[output.mimeType];
+    if (!preset || !extension || images.some((image) => image.presetId === preset.id)) return;
+    images.push({
+      presetId: preset.id,
+      platform: preset.platform,
+      width: output.width || preset.width,
+      height: output.height || preset.height,
+      filename: `${preset.id}.${extension}`,
+      outputIndex,
+    });
+  });
+  if (images.length === 0) return `${page.slug}: the saved generation has no OG exports.`;
+
+  const assetBaseUrl = site.assetBaseUrl.trim().replace(/\/+$/, '') || '/og';
+  const meta: OgPackageMeta = {
+    url: page.url,
+    assetBaseUrl: `${assetBaseUrl}/${page.slug}`,
+    title: page.title,
+    description: page.description,
+    siteName: site.siteName,
+    themeColor: site.themeColor,
+    imageAlts: {},
+  };
+
+  const metaError = validateOgPackageMeta(meta, images).find((issue) => issue.severity === 'error');
+  return metaError ? `${page.slug}: ${metaError.message}` : { page, meta, images };
+}
+
+function buildBulkReadme(pages: BundlePage[]): string {
+  const [example] = pages;
+  return [
+    `# Social preview images for ${pages.length} page${pages.length === 1 ? '' : 's'}`,
+    '',
+    'Each page has a folder named after its slug with its images and a `meta.html` snippet.',
+    'Upload every folder so its images are served from the URLs in that folder\'s `meta.html`, for example:',
+    '',
+    ...example.images.map((image) => `- \`${example.page.slug}/${image.filename}\` -> ${resolveOgAssetUrl(example.meta, image.filename)}`),
+    '',
+    'Then paste each `meta.html` into the `<head>` of its page, within the first 32 KB.',
+    '`manifest.json` maps every slug to its page URL, title, and image URLs.',
+    '',
+  ].join('\n');
+}
+
+async function* generateBundleEntries(pages: BundlePage[]): AsyncGenerator<ZipEntry> {
+  for (const { page, meta, images } of pages) {
+    for (const image of images) {
+      const output = await readHistoryOutput(page.historyId, image.outputIndex);
+      if (!output) throw new Error(`${page.slug}: ${image.filename} is missing from history.`);
+      yield { name: `${page.slug}/${image.filename}`, data: output.bytes, store: true };
+    }
+    yield { name: `${page.slug}/meta.html`, data: Buffer.from(`${renderOgMetaHtml(buildOgPackageMetaInput(meta, images))}\n`) };
+  }
+
+  const manifest = {
+    generatedAt: new Date().toISOString(),
+    pages: pages.map(({ page, meta, images }) => ({
+      slug: page.slug,
+      url: meta.url,
+      title: meta.title,
+      description: meta.description,
+      historyId: page.historyId,
+      images: images.map((image) => ({
+        presetId: image.presetId,
+        filename: `${page.slug}/${image.filename}`,
+        url: resolveOgAssetUrl(meta, image.filename),
+        width: image.width,
+        height: image.height,
+      })),
+    })),
+  };
+  yield { name: 'manifest.json', data: Buffer.from(`${JSON.stringify(manifest, null, 2)}\n`) };
+  yield { name: 'README.md', data: Buffer.from(buildBulkReadme(pages)) };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const site = parseSiteMeta(body?.site);
+    if (typeof site === 'string') {
+      return NextResponse.json({ error: site }, { status: 400 });
+    }
+
+    const pages = parsePages(body?.pages);
+    if (typeof pages === 'string') {
+      return NextResponse.json({ error: pages }, { status: 400 });
+    }
+
+    // Everything is checked before streaming starts; once bytes are sent the status can no longer change.
+    const bundlePages: BundlePage[] = [];
+    for (const page of pages) {
+      const resolved = await resolveBundlePage(page, site);
+      if (typeof resolved === 'string') {
+        return NextResponse.json({ error: resolved }, { status: 400 });
+      }
+      bundlePages.push(resolved);
+    }
+
+    return new NextResponse(createZipStream(generateBundleEntries(bundlePages)), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': 'attachment; filename="og-bulk.zip"',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting bulk OG bundle:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export bulk bundle.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractOgBulkEntries, MAX_OG_BULK_ENTRIES, MAX_OG_BULK_SOURCE_BYTES } from '@/lib/og/bulk';
+import { OgBulkExtractInput, OgBulkSourceFile } from '@/lib/og/types';
+
+export const runtime = 'nodejs';
+
+const MAX_SOURCE_FILES = MAX_OG_BULK_ENTRIES * 2;
+
+function parseHttpUrl(value: unknown): string | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseSourceFiles(value: unknown): OgBulkSourceFile[] | string {
+  if (!Array.isArray(value) || value.length === 0) return 'Choose a folder with Markdown files.';
+  if (value.length > MAX_SOURCE_FILES) return `Folders can include up to ${MAX_SOURCE_FILES} Markdown files.`;
+
+  const files: OgBulkSourceFile[] = [];
+  for (const file of value as { path?: unknown; content?: unknown }[]) {
+    if (typeof file?.path !== 'string' || typeof file.content !== 'string') {
+      return 'Every file needs a path and text content.';
+    }
+    files.push({ path: file.path, content: file.content });
+  }
+  return files;
+}
+
+function parseExtractInput(body: Record<string, unknown>): OgBulkExtractInput | string {
+  const url = parseHttpUrl(body.url);
+  if (url === null) return 'URL must be an absolute http(s) URL.';
+
+  if (body.text !== undefined && typeof body.text !== 'string') return 'Source text must be text.';
+  const text = (body.text as string | undefined)?.trim() ? body.text as string : undefined;
+
+  switch (body.source) {
+    case 'sitemap':
+      if (!url && !text) return 'Provide a sitemap URL or paste the sitemap XML.';
+      return { source: 'sitemap', url, text };
+    case 'csv':
+      if (!text) return 'Paste or upload the CSV.';
+      return { source: 'csv', url, text };
+    case 'markdown': {
+      const files = parseSourceFiles(body.files);
+      return typeof files === 'string' ? files : { source: 'markdown', url, files };
+    }
+    default:
+      return 'source must be sitemap, csv, or markdown.';
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const input = parseExtractInput(body && typeof body === 'object' ? body : {});
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 });
+    }
+
+    const sourceBytes = Buffer.byteLength(input.text || '')
+      + (input.files || []).reduce((total, file) => total + Buffer.byteLength(file.content), 0);
+    if (sourceBytes > MAX_OG_BULK_SOURCE_BYTES) {
+      return NextResponse.json({ error: 'Sources must be 2 MB or smaller in total.' }, { status: 400 });
+    }
+
+    const result = await extractOgBulkEntries(input);
+    if (result.entries.length === 0) {
+      return NextResponse.json({ error: result.skipped[0] || 'No pages were found in the source.' }, { status: 400 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error reading bulk OG source:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read the source.' },
+      { status: 500 }
+    );
+  }
+}
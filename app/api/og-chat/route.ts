@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { buildMockOgDirection, isMockMode } from '@/lib/mock';
 
 const SYSTEM_PROMPT = `You are ImageGenStudio's website Open Graph strategist.
 
@@ -26,6 +27,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Message is required' }, { status: 400 });
     }
 
+    if (isMockMode()) {
+      return NextResponse.json({ result: buildMockOgDirection(message) });
+    }
+
     const apiKey = process.env.OPENROUTER_API_KEY;
     if (!apiKey) {
       return NextResponse.json({ error: 'OPENROUTER_API_KEY is not configured.' }, { status: 500 });
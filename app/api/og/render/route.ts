@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import sharp from 'sharp';
+import { HEX_COLOR_PATTERN } from '@/lib/brandKits/prompt';
+import { getCreatorPreset } from '@/lib/creatorContent';
+import { getHistoryEntry, isHistoryId, readHistoryOutput } from '@/lib/history/store';
+import { getOgPreset, OG_MASTER_PRESET_ID } from '@/lib/og/presets';
+import { OgPreset } from '@/lib/og/types';
+import { compressToMaxSize } from '@/lib/serverImageCompress';
+import { compositeTextOverlay } from '@/lib/serverTextOverlay';
+import { getTextSafeBox, MAX_OVERLAY_HEADLINE_LENGTH, MAX_OVERLAY_LINE_LENGTH, TextOverlay } from '@/lib/textOverlay';
+
+export const runtime = 'nodejs';
+
+// The same query always renders the same bytes, but a template can be unpublished or deleted, so shared
+// caches keep a render no longer than browsers do and it stops being served within a day.
+const CACHE_CONTROL = 'public, max-age=86400, s-maxage=86400';
+
+interface RenderQuery {
+  templateId: string;
+  preset: OgPreset;
+  outputIndex?: number;
+  overlay: TextOverlay;
+}
+
+// Colours arrive without the "#" more often than not, since it has to be escaped in a URL.
+function parseHexParam(value: string | null): string | undefined | false {
+  if (!value) return undefined;
+  const color = value.startsWith('#') ? value : `#${value}`;
+  return HEX_COLOR_PATTERN.test(color) ? color : false;
+}
+
+function parseRenderQuery(params: URLSearchParams): RenderQuery | string {
+  const templateId = params.get('template') || '';
+  if (!isHistoryId(templateId)) return 'template must be a saved history entry id.';
+
+  const headline = (params.get('title') || '').trim();
+  if (!headline) return 'title is required.';
+  if (headline.length > MAX_OVERLAY_HEADLINE_LENGTH) {
+    return `title must be ${MAX_OVERLAY_HEADLINE_LENGTH} characters or fewer.`;
+  }
+
+  const subline = (params.get('subtitle') || '').trim();
+  if (subline.length > MAX_OVERLAY_LINE_LENGTH) {
+    return `subtitle must be ${MAX_OVERLAY_LINE_LENGTH} characters or fewer.`;
+  }
+
+  const presetId = params.get('preset') || OG_MASTER_PRESET_ID;
+  const preset = getOgPreset(presetId);
+  if (!preset) return `Unknown OG preset: ${presetId}.`;
+
+  const indexParam = params.get('index');
+  const outputIndex = indexParam === null ? undefined : Number(indexParam);
+  if (outputIndex !== undefined && (!Number.isInteger(outputIndex) || outputIndex < 0)) {
+    return 'index must be a non-negative integer.';
+  }
+
+  const align = params.get('align') || 'left';
+  if (align !== 'left' && align !== 'center') return 'align must be left or center.';
+
+  const textColor = parseHexParam(params.get('color'));
+  if (textColor === false) return 'color must be a hex colour.';
+
+  return {
+    templateId,
+    preset,
+    outputIndex,
+    overlay: { headline, subline: subline || undefined, align, textColor, scrim: params.get('scrim') !== '0' },
+  };
+}
+
+// An OG package saves one output per preset, so the matching export is used before falling back to the master.
+// The route is public, so only entries published as OG templates are served.
+async function findTemplateOutputIndex(templateId: string, presetId: string, outputIndex?: number): Promise<number | null> {
+  const entry = await getHistoryEntry(templateId);
+  if (!entry?.ogTemplate || entry.outputs.length === 0) return null;
+  if (outputIndex !== undefined) return outputIndex;
+  const matchIndex = entry.outputs.findIndex((output) => output.presetId === presetId);
+  return matchIndex >= 0 ? matchIndex : 0;
+}
+
+export async function GET(request: NextRequest) {
+  const query = parseRenderQuery(request.nextUrl.searchParams);
+  if (typeof query === 'string') {
+    return NextResponse.json({ error: query }, { status: 400 });
+  }
+
+  try {
+    const outputIndex = await findTemplateOutputIndex(query.templateId, query.preset.id, query.outputIndex);
+    const template = outputIndex === null ? null : await readHistoryOutput(query.templateId, outputIndex);
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found.' }, { status: 404 });
+    }
+
+    const { preset } = query;
+    const background = await sharp(template.bytes)
+      .resize(preset.width, preset.height, { fit: 'cover', position: sharp.strategy.attention })
+      .png()
+      .toBuffer();
+    const composited = await compositeTextOverlay(
+      background,
+      query.overlay,
+      getTextSafeBox(preset.width, preset.height, getCreatorPreset(preset.id)),
+    );
+
+    // og:image is always served as JPEG; quality steps down until the platform's size cap is met.
+    const image = await compressToMaxSize(sharp(composited), 'jpeg', preset.quality, preset.maxFileSizeKb);
+
+    return new NextResponse(new Uint8Array(image), {
+      headers: {
+        'Content-Type': 'image/jpeg',
+        'Cache-Control': CACHE_CONTROL,
+      },
+    });
+  } catch (error) {
+    console.error('Error rendering OG image:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to render OG image.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveSourceImage } from '@/lib/history/store';
+import { DEFAULT_MODEL, MODEL_CAPABILITIES, isEnabledModel } from '@/lib/modelConfig';
+import { outpaintWithProvider } from '@/lib/serverImageEditing';
+
+export const runtime = 'nodejs';
+
+const MAX_OUTPAINT_DIMENSION = 4096;
+
+function isDimension(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0 && (value as number) <= MAX_OUTPAINT_DIMENSION;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { imageData, width, height, prompt = '', model = DEFAULT_MODEL } = await request.json();
+
+    if (!imageData || typeof imageData !== 'string') {
+      return NextResponse.json({ error: 'imageData is required (data URI or history output URL)' }, { status: 400 });
+    }
+
+    if (!isDimension(width) || !isDimension(height)) {
+      return NextResponse.json(
+        { error: `width and height must be whole numbers between 1 and ${MAX_OUTPAINT_DIMENSION}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof prompt !== 'string') {
+      return NextResponse.json({ error: 'prompt must be a string' }, { status: 400 });
+    }
+
+    if (!isEnabledModel(model)) {
+      return NextResponse.json(
+        { error: `Unsupported model "${model}". Select a configured image model.` },
+        { status: 400 }
+      );
+    }
+
+    if (!MODEL_CAPABILITIES[model].supportsMaskedEdits) {
+      return NextResponse.json({ error: `${model} cannot extend canvases. Pick another model.` }, { status: 400 });
+    }
+
+    const sourceImage = await resolveSourceImage(imageData, request.nextUrl.origin);
+    if (!sourceImage) {
+      return NextResponse.json({ error: 'imageData must be an image data URI or a history output URL from this studio' }, { status: 400 });
+    }
+
+    const imageUrl = await outpaintWithProvider(sourceImage, width, height, prompt, model);
+    return NextResponse.json({ imageUrl });
+  } catch (error) {
+    console.error('Error extending image:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to extend image' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCreatorPreset } from '@/lib/creatorContent';
+import { analyzeImage } from '@/lib/qa/analysis';
+import { QaReport } from '@/lib/qa/types';
+import { reviewImageWithVision } from '@/lib/qa/vision';
+
+export const runtime = 'nodejs';
+
+function parseImageData(dataUri: string): Buffer {
+  const match = dataUri.match(/^data:image\/[^;]+;base64,(.+)$/);
+  if (!match?.[1]) {
+    throw new Error('Image data must be a base64 data URI.');
+  }
+  return Buffer.from(match[1], 'base64');
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { image, presetId, vision = false } = await request.json();
+
+    if (!image || typeof image !== 'string' || !image.startsWith('data:image/')) {
+      return NextResponse.json({ error: 'Image must be a base64 data URI.' }, { status: 400 });
+    }
+
+    const preset = typeof presetId === 'string' ? getCreatorPreset(presetId) : undefined;
+    if (presetId !== undefined && !preset) {
+      return NextResponse.json({ error: `Unknown preset "${presetId}".` }, { status: 400 });
+    }
+
+    const bytes = parseImageData(image);
+    const checks = await analyzeImage(bytes, preset);
+    if (vision === true) {
+      checks.push(...await reviewImageWithVision(bytes, preset));
+    }
+
+    const report: QaReport = {
+      status: checks.some((check) => check.status === 'warn') ? 'warn' : 'pass',
+      checks,
+      visionChecked: vision === true,
+    };
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('Error checking image quality:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to check image quality.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { MOCK_MODEL_ID, buildMockTranscription, isMockMode } from '@/lib/mock';
 
 const TRANSCRIPTION_MODEL = process.env.OPENAI_TRANSCRIBE_MODEL || 'gpt-4o-mini-transcribe';
 const MAX_AUDIO_SIZE = 25 * 1024 * 1024;
@@ -6,7 +7,7 @@ const MAX_AUDIO_SIZE = 25 * 1024 * 1024;
 export async function POST(request: NextRequest) {
   try {
     const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
+    if (!apiKey && !isMockMode()) {
       return NextResponse.json(
         { error: 'OPENAI_API_KEY is not configured. Add it to .env.local to enable speech to text.' },
         { status: 500 }
@@ -23,6 +24,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Audio file must be smaller than 25 MB.' }, { status: 400 });
     }
 
+    if (isMockMode()) {
+      return NextResponse.json({ text: buildMockTranscription(), model: MOCK_MODEL_ID });
+    }
+
     const upstreamFormData = new FormData();
     upstreamFormData.append('file', file, file.name || 'voice.webm');
     upstreamFormData.append('model', TRANSCRIPTION_MODEL);
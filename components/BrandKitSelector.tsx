@@ -0,0 +1,377 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { fetchBrandKits, getBrandKitLogoUrl, removeBrandKit, saveBrandKit } from '@/lib/brandKits/client';
+import { HEX_COLOR_PATTERN, MAX_PALETTE_COLORS } from '@/lib/brandKits/prompt';
+import { BrandKit, BrandKitInput } from '@/lib/brandKits/types';
+
+interface BrandKitSelectorProps {
+  selectedKit: BrandKit | null;
+  onSelect: (kit: BrandKit | null) => void;
+}
+
+interface BrandKitDraft {
+  name: string;
+  palette: string[];
+  fonts: string;
+  tone: string;
+  dos: string;
+  donts: string;
+  logoImage?: string | null;
+  logoPreview: string | null;
+}
+
+const MAX_LOGO_SIZE_BYTES = 2 * 1024 * 1024;
+const LOGO_TYPES = ['image/png', 'image/jpeg', 'image/jpg', 'image/webp'];
+
+const inputClassName = 'w-full rounded-md border border-studio-border bg-studio-bg px-3 py-2 text-sm text-studio-text placeholder:text-studio-muted focus:border-studio-accent focus:outline-none';
+
+function splitLines(value: string): string[] {
+  return value.split('\n').map((line) => line.trim()).filter(Boolean);
+}
+
+function splitWords(value: string): string[] {
+  return value.split(',').map((word) => word.trim()).filter(Boolean);
+}
+
+function toDraft(kit: BrandKit | null): BrandKitDraft {
+  return {
+    name: kit?.name || '',
+    palette: kit?.palette.length ? kit.palette : ['#111827'],
+    fonts: kit?.fonts.join('\n') || '',
+    tone: kit?.tone.join(', ') || '',
+    dos: kit?.dos.join('\n') || '',
+    donts: kit?.donts.join('\n') || '',
+    logoPreview: kit?.logo ? getBrandKitLogoUrl(kit) : null,
+  };
+}
+
+function toInput(draft: BrandKitDraft): BrandKitInput {
+  return {
+    name: draft.name.trim(),
+    palette: draft.palette.map((color) => color.trim()).filter(Boolean),
+    fonts: splitLines(draft.fonts),
+    tone: splitWords(draft.tone),
+    dos: splitLines(draft.dos),
+    donts: splitLines(draft.donts),
+    logoImage: draft.logoImage,
+  };
+}
+
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error('Failed to read logo file.'));
+    reader.readAsDataURL(file);
+  });
+}
+
+function BrandKitForm({
+  kit,
+  onSaved,
+  onCancel,
+}: {
+  kit: BrandKit | null;
+  onSaved: (kit: BrandKit) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState<BrandKitDraft>(() => toDraft(kit));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateDraft = (changes: Partial<BrandKitDraft>) => setDraft((current) => ({ ...current, ...changes }));
+
+  const updateColor = (index: number, color: string) => {
+    updateDraft({ palette: draft.palette.map((value, i) => (i === index ? color : value)) });
+  };
+
+  const handleLogoChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!LOGO_TYPES.includes(file.type)) {
+      setError('Logo must be a PNG, JPEG, or WebP image.');
+      return;
+    }
+    if (file.size > MAX_LOGO_SIZE_BYTES) {
+      setError('Logo must be 2MB or smaller.');
+      return;
+    }
+
+    try {
+      const logoImage = await readFileAsDataUrl(file);
+      updateDraft({ logoImage, logoPreview: logoImage });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read logo file.');
+    }
+  };
+
+  const handleSave = async () => {
+    const input = toInput(draft);
+    if (!input.name) {
+      setError('Give the brand kit a name.');
+      return;
+    }
+    const invalidColor = input.palette.find((color) => !HEX_COLOR_PATTERN.test(color));
+    if (invalidColor) {
+      setError(`"${invalidColor}" is not a hex color like #1a2b3c.`);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      onSaved(await saveBrandKit(input, kit?.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save brand kit.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-studio-border bg-studio-elevated p-3">
+      <input
+        type="text"
+        value={draft.name}
+        onChange={(event) => updateDraft({ name: event.target.value })}
+        placeholder="Brand name"
+        aria-label="Brand kit name"
+        className={inputClassName}
+      />
+
+      <div className="space-y-1.5">
+        <span className="block text-xs font-medium text-studio-text">Palette</span>
+        <div className="flex flex-wrap items-center gap-2">
+          {draft.palette.map((color, index) => (
+            <div key={index} className="flex items-center gap-1 rounded-md border border-studio-border bg-studio-bg p-1">
+              <input
+                type="color"
+                value={HEX_COLOR_PATTERN.test(color) ? color : '#000000'}
+                onChange={(event) => updateColor(index, event.target.value)}
+                aria-label={`Palette color ${index + 1}`}
+                className="h-6 w-6 cursor-pointer border-0 bg-transparent p-0"
+              />
+              <input
+                type="text"
+                value={color}
+                onChange={(event) => updateColor(index, event.target.value)}
+                aria-label={`Palette hex ${index + 1}`}
+                className="w-[4.5rem] bg-transparent font-mono text-xs text-studio-text focus:outline-none"
+              />
+              <button
+                type="button"
+                onClick={() => updateDraft({ palette: draft.palette.filter((_, i) => i !== index) })}
+                aria-label={`Remove color ${index + 1}`}
+                className="px-1 text-xs text-studio-muted hover:text-studio-text"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          {draft.palette.length < MAX_PALETTE_COLORS && (
+            <button
+              type="button"
+              onClick={() => updateDraft({ palette: [...draft.palette, '#ffffff'] })}
+              className="rounded-md border border-dashed border-studio-border px-2 py-1 text-xs text-studio-muted hover:text-studio-text"
+            >
+              + Color
+            </button>
+          )}
+        </div>
+      </div>
+
+      <textarea
+        value={draft.fonts}
+        onChange={(event) => updateDraft({ fonts: event.target.value })}
+        placeholder={'Fonts, one per line\nGeometric sans-serif headlines, bold\nHumanist sans body copy'}
+        aria-label="Font descriptions"
+        rows={2}
+        className={inputClassName}
+      />
+      <input
+        type="text"
+        value={draft.tone}
+        onChange={(event) => updateDraft({ tone: event.target.value })}
+        placeholder="Tone words, comma separated: confident, warm, precise"
+        aria-label="Tone words"
+        className={inputClassName}
+      />
+      <textarea
+        value={draft.dos}
+        onChange={(event) => updateDraft({ dos: event.target.value })}
+        placeholder="Do rules, one per line"
+        aria-label="Do rules"
+        rows={2}
+        className={inputClassName}
+      />
+      <textarea
+        value={draft.donts}
+        onChange={(event) => updateDraft({ donts: event.target.value })}
+        placeholder="Don't rules, one per line"
+        aria-label="Don't rules"
+        rows={2}
+        className={inputClassName}
+      />
+
+      <div className="flex items-center gap-3">
+        {draft.logoPreview ? (
+          <img src={draft.logoPreview} alt="Brand logo" className="h-12 w-12 rounded-md border border-studio-border bg-white object-contain p-1" />
+        ) : (
+          <div className="flex h-12 w-12 items-center justify-center rounded-md border border-dashed border-studio-border text-[10px] text-studio-muted">
+            No logo
+          </div>
+        )}
+        <label className="cursor-pointer rounded-md border border-studio-border px-3 py-1.5 text-xs font-medium text-studio-muted transition-colors hover:text-studio-text">
+          {draft.logoPreview ? 'Replace logo' : 'Upload logo'}
+          <input type="file" accept={LOGO_TYPES.join(',')} onChange={handleLogoChange} className="hidden" />
+        </label>
+        {draft.logoPreview && (
+          <button
+            type="button"
+            onClick={() => updateDraft({ logoImage: null, logoPreview: null })}
+            className="text-xs text-studio-muted hover:text-studio-text"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-300">{error}</div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSaving}
+          className="rounded-md border border-studio-border px-3 py-1.5 text-xs font-semibold text-studio-muted transition-colors hover:text-studio-text disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving}
+          className="rounded-md bg-studio-accent px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-studio-accent-hover disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save brand kit'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function BrandKitSelector({ selectedKit, onSelect }: BrandKitSelectorProps) {
+  const [kits, setKits] = useState<BrandKit[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<'new' | 'selected' | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchBrandKits()
+      .then((nextKits) => {
+        if (!cancelled) setKits(nextKits);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load brand kits.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleSaved = (kit: BrandKit) => {
+    setKits((current) => [...current.filter((item) => item.id !== kit.id), kit].sort((a, b) => a.name.localeCompare(b.name)));
+    onSelect(kit);
+    setEditing(null);
+  };
+
+  const handleDelete = async () => {
+    if (!selectedKit || !window.confirm(`Delete the "${selectedKit.name}" brand kit?`)) return;
+    try {
+      await removeBrandKit(selectedKit.id);
+      setKits((current) => current.filter((item) => item.id !== selectedKit.id));
+      onSelect(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete brand kit.');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <select
+          value={selectedKit?.id || ''}
+          onChange={(event) => {
+            onSelect(kits.find((kit) => kit.id === event.target.value) || null);
+            setEditing(null);
+          }}
+          disabled={isLoading}
+          aria-label="Active brand kit"
+          className="min-w-0 flex-1 rounded-md border border-studio-border bg-studio-elevated px-3 py-2 text-sm text-studio-text focus:border-studio-accent focus:outline-none"
+        >
+          <option value="">{isLoading ? 'Loading brand kits...' : 'No brand kit'}</option>
+          {kits.map((kit) => (
+            <option key={kit.id} value={kit.id}>{kit.name}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => setEditing(editing === 'new' ? null : 'new')}
+          className="shrink-0 rounded-md border border-studio-border px-3 py-2 text-xs font-semibold text-studio-muted transition-colors hover:text-studio-text"
+        >
+          New
+        </button>
+      </div>
+
+      {selectedKit && editing !== 'selected' && (
+        <div className="flex items-center gap-3 rounded-lg border border-studio-border bg-studio-elevated p-3">
+          {selectedKit.logo && (
+            <img src={getBrandKitLogoUrl(selectedKit)} alt={`${selectedKit.name} logo`} className="h-10 w-10 shrink-0 rounded-md bg-white object-contain p-1" />
+          )}
+          <div className="min-w-0 flex-1">
+            <div className="flex gap-1">
+              {selectedKit.palette.map((color) => (
+                <span key={color} title={color} className="h-4 w-4 rounded-sm border border-white/10" style={{ backgroundColor: color }} />
+              ))}
+            </div>
+            {selectedKit.tone.length > 0 && (
+              <p className="mt-1 truncate text-xs text-studio-muted">{selectedKit.tone.join(', ')}</p>
+            )}
+          </div>
+          <div className="flex shrink-0 gap-2 text-xs">
+            <button type="button" onClick={() => setEditing('selected')} className="text-studio-muted hover:text-studio-text">
+              Edit
+            </button>
+            <button type="button" onClick={handleDelete} className="text-studio-muted hover:text-red-300">
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+
+      {editing && (
+        <BrandKitForm
+          key={editing === 'selected' ? selectedKit?.id : 'new'}
+          kit={editing === 'selected' ? selectedKit : null}
+          onSaved={handleSaved}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-300">{error}</div>
+      )}
+    </div>
+  );
+}
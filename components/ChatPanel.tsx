@@ -1,36 +1,34 @@
 'use client';
 
-import { FormEvent, KeyboardEvent, useEffect, useRef, useState } from 'react';
+import { ChangeEvent, ClipboardEvent, FormEvent, KeyboardEvent, useEffect, useRef, useState } from 'react';
+import { CHAT_ATTACHMENT_TYPES, MAX_CHAT_ATTACHMENT_BYTES, MAX_CHAT_ATTACHMENTS, parseChatArtifactUrl } from '@/lib/chat/attachments';
+import { fetchChatThread, fetchChatThreads, removeChatThread, renameChatThread } from '@/lib/chat/client';
+import { readChatEventStream } from '@/lib/chat/stream';
+import { ChatArtifact, ChatAttachment, ChatFileArtifact, ChatImageArtifact, ChatSource, ChatThreadListItem } from '@/lib/chat/types';
+import ChatThreadList from './ChatThreadList';
 import MarkdownMessage from './MarkdownMessage';
 
-type ChatArtifact = {
-  type: 'image';
-  url: string;
-  prompt: string;
-  layout: string;
-  model: string;
-};
-
-type ChatSource = {
-  title: string;
-  url: string;
-  publishedDate?: string;
-  snippet?: string;
-};
-
 type ChatMessage = {
   id: string;
   role: 'user' | 'assistant';
   content: string;
+  attachments?: ChatAttachment[];
   artifacts?: ChatArtifact[];
   sources?: ChatSource[];
+  // Set while the reply is streaming and the agent is between tokens, e.g. "Searching the web".
+  status?: string;
+  stopped?: boolean;
+  error?: string;
 };
 
+// Remembers the open thread so a reload resumes it.
+const ACTIVE_THREAD_STORAGE_KEY = 'imagegen:chat-thread';
+
 const initialMessages: ChatMessage[] = [
   {
     id: 'welcome',
     role: 'assistant',
-    content: 'Bring me a rough LinkedIn idea, a topic, or a visual direction. I can research the angle, pressure-test the hook, draft post options, and generate images when you want a direction made tangible.',
+    content: 'Bring me a rough LinkedIn idea, a topic, or a visual direction. I can research the angle, pressure-test the hook, draft post options, and produce images, carousel PDFs, or social preview packages when you want a direction made tangible.',
   },
 ];
 
@@ -51,6 +49,14 @@ function StopIcon() {
   );
 }
 
+function PaperclipIcon() {
+  return (
+    <svg aria-hidden="true" className="h-[18px] w-[18px]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.2 7.5l-6.4 6.4a1.8 1.8 0 002.5 2.5l6.8-6.8a3.6 3.6 0 00-5.1-5.1l-6.8 6.8a5.4 5.4 0 007.6 7.6l6.1-6.1" />
+    </svg>
+  );
+}
+
 function SendIcon() {
   return (
     <svg aria-hidden="true" className="h-[18px] w-[18px]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -122,13 +128,22 @@ function createId() {
   return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
 }
 
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error('Failed to read the image. Please try again.'));
+    reader.readAsDataURL(file);
+  });
+}
+
 function formatDuration(totalSeconds: number) {
   const minutes = Math.floor(totalSeconds / 60);
   const seconds = totalSeconds % 60;
   return `${minutes}:${seconds.toString().padStart(2, '0')}`;
 }
 
-function artifactFilename(artifact: ChatArtifact) {
+function artifactFilename(artifact: ChatImageArtifact) {
   const slug = artifact.prompt
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, '-')
@@ -140,7 +155,7 @@ function artifactFilename(artifact: ChatArtifact) {
 // `download` on an <a> is ignored for cross-origin http(s) URLs, so it silently
 // behaves like "open". Fetch the image into a same-origin blob URL (which honors
 // download); if CORS blocks the fetch, open the URL so the user can still save it.
-async function downloadArtifact(artifact: ChatArtifact) {
+async function downloadArtifact(artifact: ChatImageArtifact) {
   const filename = artifactFilename(artifact);
   const trigger = (href: string) => {
     const anchor = document.createElement('a');
@@ -192,20 +207,47 @@ function SourceList({ sources }: { sources?: ChatSource[] }) {
   );
 }
 
-function ArtifactList({ artifacts }: { artifacts?: ChatArtifact[] }) {
+// PDFs and packages are stored with the thread, so a plain same-origin download link works.
+function FileArtifactCard({ artifact }: { artifact: ChatFileArtifact }) {
+  return (
+    <div className="flex items-center gap-3 rounded-lg border border-studio-border bg-studio-bg p-3 sm:col-span-2">
+      <span className="rounded bg-studio-elevated px-2 py-1 text-[11px] font-semibold uppercase text-studio-muted">
+        {artifact.filename.split('.').pop()}
+      </span>
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium text-studio-text">{artifact.label}</p>
+        <p className="truncate text-xs text-studio-muted">
+          {artifact.filename} · {Math.max(1, Math.round(artifact.size / 1024))} KB
+        </p>
+      </div>
+      <a
+        href={artifact.url}
+        download={artifact.filename}
+        className="inline-flex shrink-0 rounded-md bg-studio-accent px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-studio-accent-hover"
+      >
+        Download
+      </a>
+    </div>
+  );
+}
+
+function ArtifactList({ artifacts, onAttach }: { artifacts?: ChatArtifact[]; onAttach?: (artifact: ChatImageArtifact) => void }) {
   if (!artifacts?.length) return null;
 
   return (
     <div className="mt-3 grid gap-3 sm:grid-cols-2">
-      {artifacts.map((artifact) => (
+      {artifacts.map((artifact) => (artifact.type === 'file' ? (
+        <FileArtifactCard key={artifact.url} artifact={artifact} />
+      ) : (
         <figure key={`${artifact.url}-${artifact.prompt}`} className="overflow-hidden rounded-lg border border-studio-border bg-studio-bg">
           <a href={artifact.url} target="_blank" rel="noreferrer" className="block aspect-[4/5] bg-black/20" title="Open full size">
             <img src={artifact.url} alt={artifact.prompt} className="h-full w-full object-contain" />
           </a>
           <figcaption className="space-y-2 p-3">
             <div className="flex flex-wrap gap-1.5 text-[11px] text-studio-muted">
-              <span className="rounded bg-studio-elevated px-2 py-0.5">{artifact.layout}</span>
-              <span className="rounded bg-studio-elevated px-2 py-0.5">{artifact.model}</span>
+              {[artifact.label || artifact.layout, artifact.model].filter(Boolean).map((tag) => (
+                <span key={tag} className="rounded bg-studio-elevated px-2 py-0.5">{tag}</span>
+              ))}
             </div>
             <p className="line-clamp-2 text-xs leading-relaxed text-studio-muted">{artifact.prompt}</p>
             <div className="flex gap-2 pt-0.5">
@@ -224,33 +266,63 @@ function ArtifactList({ artifacts }: { artifacts?: ChatArtifact[] }) {
               >
                 Download
               </button>
+              {onAttach && parseChatArtifactUrl(artifact.url) && (
+                <button
+                  type="button"
+                  onClick={() => onAttach(artifact)}
+                  className="inline-flex rounded-md border border-studio-border px-2 py-1 text-xs font-semibold text-studio-text transition-colors hover:border-studio-muted"
+                  title="Attach to your next message to critique or edit it"
+                >
+                  Attach
+                </button>
+              )}
             </div>
           </figcaption>
         </figure>
-      ))}
+      )))}
     </div>
   );
 }
 
-function MessageRow({ message }: { message: ChatMessage }) {
+function MessageRow({ message, onAttach }: { message: ChatMessage; onAttach: (artifact: ChatImageArtifact) => void }) {
   const isUser = message.role === 'user';
 
   if (isUser) {
     return (
-      <div className="flex justify-end">
-        <div className="max-w-[min(640px,85%)] rounded-2xl bg-studio-elevated px-4 py-2.5 text-sm leading-relaxed text-studio-text">
-          <div className="whitespace-pre-wrap">{message.content}</div>
-        </div>
+      <div className="flex flex-col items-end gap-2">
+        {message.attachments?.length ? (
+          <div className="flex max-w-[min(640px,85%)] flex-wrap justify-end gap-2">
+            {message.attachments.map((attachment, index) => (
+              <a key={`${attachment.url}-${index}`} href={attachment.url} target="_blank" rel="noreferrer" title="Open full size">
+                <img src={attachment.url} alt={attachment.name || 'Attached image'} className="h-32 max-w-[12rem] rounded-lg border border-studio-border bg-black/20 object-contain" />
+              </a>
+            ))}
+          </div>
+        ) : null}
+        {message.content && (
+          <div className="max-w-[min(640px,85%)] rounded-2xl bg-studio-elevated px-4 py-2.5 text-sm leading-relaxed text-studio-text">
+            <div className="whitespace-pre-wrap">{message.content}</div>
+          </div>
+        )}
       </div>
     );
   }
 
   return (
     <div className="flex gap-3">
-      <AssistantMark />
+      {message.status && !message.content ? <AssistantLoader /> : <AssistantMark />}
       <div className="min-w-0 flex-1">
-        <MarkdownMessage content={message.content} />
-        <ArtifactList artifacts={message.artifacts} />
+        {message.content && <MarkdownMessage content={message.content} />}
+        <ArtifactList artifacts={message.artifacts} onAttach={onAttach} />
+        {message.status && (
+          <p className="mt-1.5 text-sm text-studio-muted" aria-live="polite">{message.status}…</p>
+        )}
+        {message.stopped && (
+          <p className="mt-1.5 text-xs text-studio-muted">Stopped</p>
+        )}
+        {message.error && (
+          <p className="mt-1.5 text-xs text-red-300">Failed: {message.error}</p>
+        )}
         <SourceList sources={message.sources} />
       </div>
     </div>
@@ -266,10 +338,88 @@ export default function ChatPanel() {
   const [recordingSeconds, setRecordingSeconds] = useState(0);
   const [micSupported, setMicSupported] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [threads, setThreads] = useState<ChatThreadListItem[]>([]);
+  const [threadsLoading, setThreadsLoading] = useState(true);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [threadListOpen, setThreadListOpen] = useState(false);
+  const [pendingAttachments, setPendingAttachments] = useState<ChatAttachment[]>([]);
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const recorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const loadThreads = async () => {
+    try {
+      setThreads(await fetchChatThreads());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load chats.');
+    } finally {
+      setThreadsLoading(false);
+    }
+  };
+
+  const selectThread = (threadId: string | null) => {
+    setActiveThreadId(threadId);
+    if (threadId) {
+      window.localStorage.setItem(ACTIVE_THREAD_STORAGE_KEY, threadId);
+    } else {
+      window.localStorage.removeItem(ACTIVE_THREAD_STORAGE_KEY);
+    }
+  };
+
+  const openThread = async (threadId: string) => {
+    setError(null);
+    setThreadListOpen(false);
+    try {
+      const thread = await fetchChatThread(threadId);
+      selectThread(thread.id);
+      setPendingAttachments([]);
+      setMessages(thread.messages.length ? thread.messages : initialMessages);
+    } catch (err) {
+      selectThread(null);
+      setMessages(initialMessages);
+      setError(err instanceof Error ? err.message : 'Failed to load chat.');
+    }
+  };
+
+  const startNewThread = () => {
+    selectThread(null);
+    setMessages(initialMessages);
+    setPendingAttachments([]);
+    setError(null);
+    setThreadListOpen(false);
+    inputRef.current?.focus();
+  };
+
+  const handleRenameThread = async (threadId: string, title: string) => {
+    try {
+      const thread = await renameChatThread(threadId, title);
+      setThreads((current) => current.map((item) => (item.id === thread.id ? { ...item, title: thread.title } : item)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename chat.');
+    }
+  };
+
+  const handleDeleteThread = async (thread: ChatThreadListItem) => {
+    if (!window.confirm(`Delete the "${thread.title}" chat?`)) return;
+    try {
+      await removeChatThread(thread.id);
+      setThreads((current) => current.filter((item) => item.id !== thread.id));
+      if (thread.id === activeThreadId) startNewThread();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete chat.');
+    }
+  };
+
+  useEffect(() => {
+    void loadThreads();
+    const storedThreadId = window.localStorage.getItem(ACTIVE_THREAD_STORAGE_KEY);
+    if (storedThreadId) void openThread(storedThreadId);
+  }, []);
 
   useEffect(() => {
     setMicSupported(
@@ -301,14 +451,79 @@ export default function ChatPanel() {
     return () => window.clearInterval(timer);
   }, [isRecording]);
 
+  const updateMessage = (id: string, update: (message: ChatMessage) => ChatMessage) => {
+    setMessages((current) => current.map((message) => (message.id === id ? update(message) : message)));
+  };
+
+  const addAttachments = (attachments: ChatAttachment[]) => {
+    const openSlots = MAX_CHAT_ATTACHMENTS - pendingAttachments.length;
+    if (attachments.length > openSlots) {
+      setError(`Attach up to ${MAX_CHAT_ATTACHMENTS} images per message.`);
+    }
+    if (openSlots > 0) {
+      setPendingAttachments((current) => [...current, ...attachments].slice(0, MAX_CHAT_ATTACHMENTS));
+    }
+    inputRef.current?.focus();
+  };
+
+  const addAttachmentFiles = async (files: File[]) => {
+    setError(null);
+    const attachments: ChatAttachment[] = [];
+    for (const file of files) {
+      if (!CHAT_ATTACHMENT_TYPES.includes(file.type)) {
+        setError('Attach JPEG, PNG, or WebP images.');
+        continue;
+      }
+      if (file.size > MAX_CHAT_ATTACHMENT_BYTES) {
+        setError(`Images must be ${MAX_CHAT_ATTACHMENT_BYTES / (1024 * 1024)}MB or smaller.`);
+        continue;
+      }
+      try {
+        attachments.push({ type: 'image', url: await readFileAsDataUrl(file), name: file.name });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to read the image. Please try again.');
+      }
+    }
+    if (attachments.length) addAttachments(attachments);
+  };
+
+  const handleFileInputChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    void addAttachmentFiles(files);
+  };
+
+  // Screenshots pasted into the composer become attachments; pasted text is left to the textarea.
+  const handlePaste = (event: ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(event.clipboardData.files).filter((file) => file.type.startsWith('image/'));
+    if (!files.length) return;
+    event.preventDefault();
+    void addAttachmentFiles(files);
+  };
+
+  const attachArtifact = (artifact: ChatImageArtifact) => {
+    if (pendingAttachments.some((attachment) => attachment.url === artifact.url)) return;
+    addAttachments([{ type: 'image', url: artifact.url, name: artifact.prompt }]);
+  };
+
   const sendMessage = async () => {
     const content = draft.trim();
-    if (!content || isSending) return;
-
-    const userMessage: ChatMessage = { id: createId(), role: 'user', content };
+    const attachments = pendingAttachments;
+    if ((!content && !attachments.length) || isSending) return;
+
+    const userMessage: ChatMessage = {
+      id: createId(),
+      role: 'user',
+      content,
+      ...(attachments.length ? { attachments } : {}),
+    };
     const nextMessages = [...messages, userMessage];
-    setMessages(nextMessages);
+    const replyId = createId();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setMessages([...nextMessages, { id: replyId, role: 'assistant', content: '', artifacts: [], sources: [], status: 'Thinking' }]);
     setDraft('');
+    setPendingAttachments([]);
     setIsSending(true);
     setError(null);
 
@@ -316,35 +531,71 @@ export default function ChatPanel() {
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        // Earlier turns are already stored with the thread, so only the new message is sent.
         body: JSON.stringify({
-          messages: nextMessages
-            .filter((message) => message.id !== 'welcome')
-            .map((message) => ({ role: message.role, content: message.content })),
+          threadId: activeThreadId,
+          message: content,
+          attachments: attachments.map((attachment) => attachment.url),
         }),
+        signal: controller.signal,
       });
-      const data = await response.json();
-      if (!response.ok) {
-        throw new Error(data.error || 'The chat agent failed.');
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'The chat agent failed.');
       }
 
-      setMessages((current) => [
-        ...current,
-        {
-          id: createId(),
-          role: 'assistant',
-          content: data.message?.content || 'I could not produce a response.',
-          artifacts: data.message?.artifacts || [],
-          sources: data.message?.sources || [],
-        },
-      ]);
+      await readChatEventStream(response.body, (event) => {
+        switch (event.type) {
+          case 'thread':
+            selectThread(event.thread.id);
+            setThreads((current) => [event.thread, ...current.filter((thread) => thread.id !== event.thread.id)]);
+            break;
+          case 'status':
+            updateMessage(replyId, (message) => ({ ...message, status: event.label }));
+            break;
+          case 'delta':
+            updateMessage(replyId, (message) => ({ ...message, content: message.content + event.text, status: undefined }));
+            break;
+          case 'source':
+            updateMessage(replyId, (message) => ({ ...message, sources: [...(message.sources || []), event.source] }));
+            break;
+          case 'artifact':
+            updateMessage(replyId, (message) => ({
+              ...message,
+              artifacts: [...(message.artifacts || []), event.artifact],
+              status: undefined,
+            }));
+            break;
+          case 'done':
+            updateMessage(replyId, (message) => ({ ...message, ...event.message, status: undefined }));
+            break;
+          case 'error':
+            throw new Error(event.error);
+        }
+      });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'The chat agent failed.');
+      if (controller.signal.aborted) {
+        updateMessage(replyId, (message) => ({ ...message, status: undefined, stopped: true }));
+      } else {
+        // Keep whatever already streamed in, marked as failed; drop the reply only if nothing arrived.
+        const message = err instanceof Error ? err.message : 'The chat agent failed.';
+        setMessages((current) => current
+          .filter((item) => item.id !== replyId || item.content || item.artifacts?.length)
+          .map((item) => (item.id === replyId ? { ...item, status: undefined, error: message } : item)));
+        setError(message);
+      }
     } finally {
+      abortRef.current = null;
       setIsSending(false);
       inputRef.current?.focus();
+      void loadThreads();
     }
   };
 
+  const stopMessage = () => {
+    abortRef.current?.abort();
+  };
+
   const handleSubmit = (event: FormEvent) => {
     event.preventDefault();
     void sendMessage();
@@ -441,86 +692,157 @@ export default function ChatPanel() {
         : 'Start voice input';
 
   return (
-    <section className="flex h-full flex-col bg-studio-bg">
-      <header className="border-b border-studio-border bg-studio-surface px-4 py-3">
-        <div className="mx-auto flex max-w-3xl items-center justify-between gap-4">
-          <h1 className="text-sm font-semibold text-studio-text">AI Chat</h1>
-          <span className="rounded-md border border-studio-border bg-studio-bg px-2 py-1 text-[11px] text-studio-muted">
-            GPT-5.5 · medium reasoning
-          </span>
-        </div>
-      </header>
-
-      <div ref={scrollRef} className="flex-1 overflow-y-auto studio-scrollbar px-4 py-6">
-        <div className="mx-auto flex max-w-3xl flex-col gap-6">
-          {messages.map((message) => (
-            <MessageRow key={message.id} message={message} />
-          ))}
-          {isSending && (
-            <div className="flex items-center gap-3" aria-live="polite">
-              <AssistantLoader />
-              <span className="text-sm text-studio-muted">Thinking…</span>
-              <span className="sr-only">Generating a response</span>
+    <section className="relative flex h-full bg-studio-bg">
+      <aside
+        className={`${threadListOpen ? 'flex' : 'hidden'} absolute inset-y-0 left-0 z-30 w-64 shrink-0 flex-col border-r border-studio-border bg-studio-surface shadow-2xl md:static md:flex md:shadow-none`}
+      >
+        <ChatThreadList
+          threads={threads}
+          activeThreadId={activeThreadId}
+          isLoading={threadsLoading}
+          disabled={isSending}
+          onSelect={(threadId) => void openThread(threadId)}
+          onNew={startNewThread}
+          onRename={handleRenameThread}
+          onDelete={handleDeleteThread}
+        />
+      </aside>
+
+      <div className="flex min-w-0 flex-1 flex-col">
+        <header className="border-b border-studio-border bg-studio-surface px-4 py-3">
+          <div className="mx-auto flex max-w-3xl items-center justify-between gap-4">
+            <div className="flex min-w-0 items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setThreadListOpen((open) => !open)}
+                className="rounded-md border border-studio-border px-2 py-1 text-[11px] text-studio-muted transition-colors hover:text-studio-text md:hidden"
+                aria-expanded={threadListOpen}
+              >
+                Chats
+              </button>
+              <h1 className="truncate text-sm font-semibold text-studio-text">
+                {threads.find((thread) => thread.id === activeThreadId)?.title || 'AI Chat'}
+              </h1>
             </div>
-          )}
+            <span className="rounded-md border border-studio-border bg-studio-bg px-2 py-1 text-[11px] text-studio-muted">
+              GPT-5.5 · medium reasoning
+            </span>
+          </div>
+        </header>
+
+        <div ref={scrollRef} className="flex-1 overflow-y-auto studio-scrollbar px-4 py-6">
+          <div className="mx-auto flex max-w-3xl flex-col gap-6">
+            {messages.map((message) => (
+              <MessageRow key={message.id} message={message} onAttach={attachArtifact} />
+            ))}
+          </div>
         </div>
-      </div>
 
-      <form onSubmit={handleSubmit} className="border-t border-studio-border bg-studio-surface px-4 py-3">
-        <div className="mx-auto max-w-3xl">
-          {error && (
-            <div className="mb-2 rounded-lg border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-300" role="alert">
-              {error}
-            </div>
-          )}
-          {isRecording && (
-            <div className="mb-2 flex items-center gap-2 rounded-lg border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200" aria-live="polite">
-              <span className="loading-pulse h-2 w-2 rounded-full bg-red-400" aria-hidden="true" />
-              <span className="tabular-nums">Recording · {formatDuration(recordingSeconds)}</span>
-              <span className="text-red-200/70">— tap the stop button to transcribe</span>
+        <form onSubmit={handleSubmit} className="border-t border-studio-border bg-studio-surface px-4 py-3">
+          <div className="mx-auto max-w-3xl">
+            {error && (
+              <div className="mb-2 rounded-lg border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-300" role="alert">
+                {error}
+              </div>
+            )}
+            {isRecording && (
+              <div className="mb-2 flex items-center gap-2 rounded-lg border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200" aria-live="polite">
+                <span className="loading-pulse h-2 w-2 rounded-full bg-red-400" aria-hidden="true" />
+                <span className="tabular-nums">Recording · {formatDuration(recordingSeconds)}</span>
+                <span className="text-red-200/70">— tap the stop button to transcribe</span>
+              </div>
+            )}
+            {pendingAttachments.length > 0 && (
+              <div className="mb-2 flex flex-wrap gap-2">
+                {pendingAttachments.map((attachment, index) => (
+                  <div key={`${attachment.url.slice(-32)}-${index}`} className="relative">
+                    <img src={attachment.url} alt={attachment.name || 'Attached image'} className="h-16 w-16 rounded-lg border border-studio-border bg-black/20 object-cover" />
+                    <button
+                      type="button"
+                      onClick={() => setPendingAttachments((current) => current.filter((_, itemIndex) => itemIndex !== index))}
+                      className="absolute -right-1.5 -top-1.5 flex h-5 w-5 items-center justify-center rounded-full border border-studio-border bg-studio-surface text-xs text-studio-muted hover:text-studio-text"
+                      aria-label="Remove attachment"
+                      title="Remove attachment"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex items-end gap-2 rounded-xl border border-studio-border bg-studio-bg p-2 transition-colors focus-within:border-studio-accent">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={CHAT_ATTACHMENT_TYPES.join(',')}
+                multiple
+                onChange={handleFileInputChange}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isSending || pendingAttachments.length >= MAX_CHAT_ATTACHMENTS}
+                className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg border border-studio-border bg-studio-elevated text-studio-text transition-colors hover:border-studio-muted disabled:cursor-not-allowed disabled:opacity-40"
+                aria-label="Attach images"
+                title="Attach images"
+              >
+                <PaperclipIcon />
+              </button>
+              <textarea
+                ref={inputRef}
+                value={draft}
+                onChange={(event) => setDraft(event.target.value)}
+                onKeyDown={handleKeyDown}
+                onPaste={handlePaste}
+                rows={1}
+                placeholder="Ask for LinkedIn post ideas, research, edits, or an image..."
+                aria-label="Message"
+                className="studio-scrollbar max-h-44 min-h-11 flex-1 resize-none bg-transparent px-2 py-2.5 text-sm text-studio-text placeholder:text-studio-muted focus:outline-none"
+              />
+              <button
+                type="button"
+                onClick={toggleRecording}
+                disabled={micDisabled}
+                className={`flex h-10 w-10 shrink-0 items-center justify-center rounded-lg border transition-colors disabled:cursor-not-allowed disabled:opacity-40 ${
+                  isRecording
+                    ? 'border-red-400 bg-red-500/20 text-red-200'
+                    : 'border-studio-border bg-studio-elevated text-studio-text hover:border-studio-muted'
+                }`}
+                aria-label={micLabel}
+                aria-pressed={isRecording}
+                title={micLabel}
+              >
+                {isTranscribing ? <SpinnerIcon /> : isRecording ? <StopIcon /> : <MicrophoneIcon />}
+              </button>
+              {isSending ? (
+                <button
+                  type="button"
+                  onClick={stopMessage}
+                  className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg border border-studio-border bg-studio-elevated text-studio-text transition-colors hover:border-studio-muted"
+                  aria-label="Stop response"
+                  title="Stop response"
+                >
+                  <StopIcon />
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!draft.trim() && !pendingAttachments.length}
+                  className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-studio-accent text-white transition-colors hover:bg-studio-accent-hover disabled:cursor-not-allowed disabled:opacity-40"
+                  aria-label="Send message"
+                  title="Send message"
+                >
+                  <SendIcon />
+                </button>
+              )}
             </div>
-          )}
-          <div className="flex items-end gap-2 rounded-xl border border-studio-border bg-studio-bg p-2 transition-colors focus-within:border-studio-accent">
-            <textarea
-              ref={inputRef}
-              value={draft}
-              onChange={(event) => setDraft(event.target.value)}
-              onKeyDown={handleKeyDown}
-              rows={1}
-              placeholder="Ask for LinkedIn post ideas, research, edits, or an image..."
-              aria-label="Message"
-              className="studio-scrollbar max-h-44 min-h-11 flex-1 resize-none bg-transparent px-2 py-2.5 text-sm text-studio-text placeholder:text-studio-muted focus:outline-none"
-            />
-            <button
-              type="button"
-              onClick={toggleRecording}
-              disabled={micDisabled}
-              className={`flex h-10 w-10 shrink-0 items-center justify-center rounded-lg border transition-colors disabled:cursor-not-allowed disabled:opacity-40 ${
-                isRecording
-                  ? 'border-red-400 bg-red-500/20 text-red-200'
-                  : 'border-studio-border bg-studio-elevated text-studio-text hover:border-studio-muted'
-              }`}
-              aria-label={micLabel}
-              aria-pressed={isRecording}
-              title={micLabel}
-            >
-              {isTranscribing ? <SpinnerIcon /> : isRecording ? <StopIcon /> : <MicrophoneIcon />}
-            </button>
-            <button
-              type="submit"
-              disabled={isSending || !draft.trim()}
-              className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-studio-accent text-white transition-colors hover:bg-studio-accent-hover disabled:cursor-not-allowed disabled:opacity-40"
-              aria-label="Send message"
-              title="Send message"
-            >
-              {isSending ? <SpinnerIcon /> : <SendIcon />}
-            </button>
+            <p className="mt-1.5 px-1 text-[11px] text-studio-muted">
+              Enter to send · Shift+Enter for a new line · Paste or attach images to critique or edit them
+            </p>
           </div>
-          <p className="mt-1.5 px-1 text-[11px] text-studio-muted">
-            Enter to send · Shift+Enter for a new line
-          </p>
-        </div>
-      </form>
+        </form>
+      </div>
     </section>
   );
 }
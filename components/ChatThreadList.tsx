@@ -0,0 +1,133 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { MAX_CHAT_TITLE_LENGTH } from '@/lib/chat/titles';
+import { ChatThreadListItem } from '@/lib/chat/types';
+
+interface ChatThreadListProps {
+  threads: ChatThreadListItem[];
+  activeThreadId: string | null;
+  isLoading: boolean;
+  // Switching threads mid-reply would lose the stream, so the list is locked while a reply is sending.
+  disabled: boolean;
+  onSelect: (threadId: string) => void;
+  onNew: () => void;
+  onRename: (threadId: string, title: string) => Promise<void>;
+  onDelete: (thread: ChatThreadListItem) => Promise<void>;
+}
+
+function formatUpdatedAt(value: string) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+export default function ChatThreadList({
+  threads,
+  activeThreadId,
+  isLoading,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}: ChatThreadListProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [titleDraft, setTitleDraft] = useState('');
+
+  const startRename = (thread: ChatThreadListItem) => {
+    setRenamingId(thread.id);
+    setTitleDraft(thread.title);
+  };
+
+  const handleRenameSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!renamingId) return;
+    const title = titleDraft.trim();
+    if (title) await onRename(renamingId, title);
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="border-b border-studio-border p-3">
+        <button
+          type="button"
+          onClick={onNew}
+          disabled={disabled}
+          className="w-full rounded-md bg-studio-accent px-3 py-2 text-xs font-semibold text-white transition-colors hover:bg-studio-accent-hover disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          New chat
+        </button>
+      </div>
+
+      <nav aria-label="Chats" className="flex-1 space-y-1 overflow-y-auto studio-scrollbar p-2">
+        {!isLoading && threads.length === 0 && (
+          <p className="px-1 py-6 text-center text-xs text-studio-muted">Conversations will be saved here.</p>
+        )}
+        {threads.map((thread) => {
+          const isActive = thread.id === activeThreadId;
+
+          if (thread.id === renamingId) {
+            return (
+              <form key={thread.id} onSubmit={(event) => void handleRenameSubmit(event)} className="px-1 py-1">
+                <input
+                  value={titleDraft}
+                  onChange={(event) => setTitleDraft(event.target.value)}
+                  onBlur={() => setRenamingId(null)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Escape') setRenamingId(null);
+                  }}
+                  maxLength={MAX_CHAT_TITLE_LENGTH}
+                  autoFocus
+                  aria-label="Chat title"
+                  className="w-full rounded-md border border-studio-accent bg-studio-bg px-2 py-1.5 text-xs text-studio-text focus:outline-none"
+                />
+              </form>
+            );
+          }
+
+          return (
+            <div
+              key={thread.id}
+              className={`group flex items-center gap-1 rounded-md pr-1 transition-colors ${
+                isActive ? 'bg-studio-elevated' : 'hover:bg-studio-elevated/60'
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => onSelect(thread.id)}
+                disabled={disabled}
+                aria-current={isActive ? 'page' : undefined}
+                className="min-w-0 flex-1 px-2 py-1.5 text-left disabled:cursor-not-allowed"
+              >
+                <span className="block truncate text-xs text-studio-text">{thread.title}</span>
+                <span className="block text-[10px] text-studio-muted">{formatUpdatedAt(thread.updatedAt)}</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => startRename(thread)}
+                disabled={disabled}
+                className="rounded px-1.5 py-1 text-[10px] text-studio-muted opacity-0 transition-opacity hover:text-studio-text focus:opacity-100 group-hover:opacity-100 disabled:hidden"
+                title="Rename chat"
+              >
+                Rename
+              </button>
+              <button
+                type="button"
+                onClick={() => void onDelete(thread)}
+                disabled={disabled}
+                className="rounded px-1.5 py-1 text-[10px] text-red-300 opacity-0 transition-opacity hover:text-red-200 focus:opacity-100 group-hover:opacity-100 disabled:hidden"
+                title="Delete chat"
+              >
+                Delete
+              </button>
+            </div>
+          );
+        })}
+      </nav>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { CROP_STRATEGIES, CropOptions, CropStrategy, FocalPoint, getCropFrame } from '@/lib/crop';
+
+interface CropAdjusterProps {
+  sourceUrl: string;
+  outputWidth: number;
+  outputHeight: number;
+  onApply: (crop: CropOptions) => void;
+  onCancel: () => void;
+  isApplying?: boolean;
+  error?: string | null;
+}
+
+const MAX_ZOOM = 3;
+
+export default function CropAdjuster({
+  sourceUrl,
+  outputWidth,
+  outputHeight,
+  onApply,
+  onCancel,
+  isApplying = false,
+  error,
+}: CropAdjusterProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  // null means the server picks the frame with the chosen strategy; dragging switches to a manual frame.
+  const [focalPoint, setFocalPoint] = useState<FocalPoint | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [strategy, setStrategy] = useState<CropStrategy>('attention');
+  const [isDragging, setIsDragging] = useState(false);
+
+  const frame = naturalSize
+    ? getCropFrame(naturalSize.width, naturalSize.height, outputWidth, outputHeight, focalPoint || undefined, zoom)
+    : null;
+
+  const moveFrameTo = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setFocalPoint({
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height)),
+    });
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setIsDragging(true);
+    moveFrameTo(event);
+  };
+
+  const handleApply = () => {
+    if (focalPoint && frame) {
+      onApply({ box: frame });
+      return;
+    }
+    onApply({ strategy });
+  };
+
+  return (
+    <div className="flex w-full max-w-4xl flex-col gap-3">
+      <div
+        ref={containerRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={(event) => {
+          if (isDragging) moveFrameTo(event);
+        }}
+        onPointerUp={() => setIsDragging(false)}
+        onPointerCancel={() => setIsDragging(false)}
+        className="relative mx-auto cursor-move touch-none overflow-hidden rounded-lg"
+      >
+        <img
+          src={sourceUrl}
+          alt="Full generation being cropped"
+          className="max-h-[65vh] max-w-full select-none object-contain"
+          draggable={false}
+          onLoad={(event) => setNaturalSize({
+            width: event.currentTarget.naturalWidth,
+            height: event.currentTarget.naturalHeight,
+          })}
+        />
+        {frame && focalPoint && (
+          <div
+            className="pointer-events-none absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+            style={{
+              left: `${frame.left * 100}%`,
+              top: `${frame.top * 100}%`,
+              width: `${frame.width * 100}%`,
+              height: `${frame.height * 100}%`,
+            }}
+            aria-label="Export frame"
+          />
+        )}
+      </div>
+
+      <div className="space-y-3 rounded-lg border border-studio-border bg-studio-surface p-3">
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          <div className="flex overflow-hidden rounded-md border border-studio-border">
+            {CROP_STRATEGIES.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => {
+                  setStrategy(option.value);
+                  setFocalPoint(null);
+                  setZoom(1);
+                }}
+                aria-pressed={!focalPoint && strategy === option.value}
+                title={option.description}
+                className={`px-3 py-1.5 font-medium transition-colors ${
+                  !focalPoint && strategy === option.value ? 'bg-studio-accent text-white' : 'text-studio-muted hover:text-studio-text'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-studio-muted">
+            Zoom
+            <input
+              type="range"
+              min={1}
+              max={MAX_ZOOM}
+              step={0.05}
+              value={zoom}
+              onChange={(event) => {
+                setZoom(Number(event.target.value));
+                setFocalPoint((current) => current || { x: 0.5, y: 0.5 });
+              }}
+              className="accent-studio-accent"
+            />
+          </label>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-300">{error}</div>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-[11px] text-studio-muted">
+            {focalPoint
+              ? `The bright frame is exactly what exports at ${outputWidth}x${outputHeight}.`
+              : `${CROP_STRATEGIES.find((option) => option.value === strategy)?.description} Drag on the image to place the ${outputWidth}x${outputHeight} frame yourself.`}
+          </p>
+          <div className="flex shrink-0 gap-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isApplying}
+              className="rounded-md border border-studio-border px-3 py-1.5 text-xs font-semibold text-studio-muted transition-colors hover:text-studio-text disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={isApplying}
+              className="rounded-md bg-studio-accent px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-studio-accent-hover disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isApplying ? 'Exporting...' : 'Apply crop'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { fetchHistoryEntries, getHistoryOutputUrl, removeHistoryEntry, updateHistoryOgTemplate } from '@/lib/history/client';
+import { HistoryEntry } from '@/lib/history/types';
+import { getOgRenderUrl } from '@/lib/og/client';
+import { MODEL_BY_VALUE } from '@/lib/modelConfig';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onReuse: (entry: HistoryEntry) => void;
+  refreshKey: number;
+}
+
+const KIND_LABELS: Record<HistoryEntry['kind'], string> = {
+  image: 'Image',
+  edit: 'Edit',
+  storybook: 'PDF Pages',
+  'og-package': 'OG package',
+};
+
+function formatTimestamp(value: string) {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+export default function HistoryPanel({ isOpen, onClose, onReuse, refreshKey }: HistoryPanelProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const nextEntries = await fetchHistoryEntries(query);
+        if (!cancelled) setEntries(nextEntries);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load history.');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [isOpen, query, refreshKey]);
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (!window.confirm('Delete this generation from history?')) return;
+    try {
+      await removeHistoryEntry(entry.id);
+      setEntries((current) => current.filter((item) => item.id !== entry.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete history entry.');
+    }
+  };
+
+  const replaceEntry = (updated: HistoryEntry) => {
+    setEntries((current) => current.map((item) => (item.id === updated.id ? updated : item)));
+  };
+
+  // The render endpoint is public, so the entry is published as a template before its URL is handed out.
+  const handleCopyRenderUrl = async (entry: HistoryEntry) => {
+    try {
+      if (!entry.ogTemplate) {
+        replaceEntry(await updateHistoryOgTemplate(entry.id, true));
+      }
+      await navigator.clipboard.writeText(getOgRenderUrl(entry.id, { title: 'Article title' }));
+      setCopiedId(entry.id);
+      window.setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      setCopiedId(null);
+      setError(err instanceof Error ? err.message : 'Failed to copy the OG URL.');
+    }
+  };
+
+  const handleUnpublish = async (entry: HistoryEntry) => {
+    try {
+      replaceEntry(await updateHistoryOgTemplate(entry.id, false));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the OG template.');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <aside className="absolute inset-y-0 right-0 z-40 flex w-full flex-col border-l border-studio-border bg-studio-surface shadow-2xl sm:w-96">
+      <div className="flex items-center justify-between gap-3 border-b border-studio-border px-4 py-3">
+        <div>
+          <h2 className="text-sm font-semibold text-studio-text">History</h2>
+          <p className="mt-0.5 text-xs text-studio-muted">Saved generations with their prompts and settings.</p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-md border border-studio-border px-2 py-1 text-xs font-medium text-studio-muted transition-colors hover:border-studio-muted hover:text-studio-text"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="border-b border-studio-border p-3">
+        <input
+          type="search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search prompts, presets, or models..."
+          aria-label="Search history"
+          className="w-full rounded-md border border-studio-border bg-studio-bg px-3 py-2 text-sm text-studio-text placeholder:text-studio-muted focus:border-studio-accent focus:outline-none"
+        />
+      </div>
+
+      <div className="flex-1 space-y-3 overflow-y-auto studio-scrollbar p-3">
+        {error && (
+          <div className="rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-300">{error}</div>
+        )}
+        {!isLoading && !error && entries.length === 0 && (
+          <p className="px-1 py-6 text-center text-xs text-studio-muted">
+            {query.trim() ? 'No generations match this search.' : 'Generated assets will be saved here.'}
+          </p>
+        )}
+        {entries.map((entry) => {
+          const isExpanded = expandedId === entry.id;
+
+          return (
+            <article key={entry.id} className="overflow-hidden rounded-lg border border-studio-border bg-studio-bg">
+              <button
+                type="button"
+                onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                className="grid w-full grid-cols-[72px_1fr] gap-3 p-2 text-left"
+              >
+                <img
+                  src={getHistoryOutputUrl(entry.id, 0)}
+                  alt=""
+                  loading="lazy"
+                  className="h-16 w-[72px] rounded-md bg-black/20 object-cover"
+                />
+                <span className="min-w-0">
+                  <span className="line-clamp-2 text-xs leading-relaxed text-studio-text">{entry.prompt}</span>
+                  <span className="mt-1 flex flex-wrap gap-1 text-[10px] text-studio-muted">
+                    <span className="rounded bg-studio-elevated px-1.5 py-0.5">{KIND_LABELS[entry.kind]}</span>
+                    <span className="rounded bg-studio-elevated px-1.5 py-0.5">
+                      {MODEL_BY_VALUE[entry.model]?.shortLabel || entry.model}
+                    </span>
+                    <span className="px-0.5 py-0.5">{formatTimestamp(entry.createdAt)}</span>
+                  </span>
+                </span>
+              </button>
+
+              {isExpanded && (
+                <div className="space-y-3 border-t border-studio-border p-3">
+                  <div className="grid grid-cols-3 gap-2">
+                    {entry.outputs.map((output, index) => (
+                      <a
+                        key={output.filename}
+                        href={getHistoryOutputUrl(entry.id, index, true)}
+                        title={`Download ${output.label}`}
+                        className="block overflow-hidden rounded-md border border-studio-border hover:border-studio-muted"
+                      >
+                        <img src={getHistoryOutputUrl(entry.id, index)} alt={output.label} loading="lazy" className="aspect-square w-full bg-black/20 object-cover" />
+                        <span className="block truncate px-1.5 py-1 text-[10px] text-studio-muted">{output.label}</span>
+                      </a>
+                    ))}
+                  </div>
+                  <dl className="space-y-1 text-[10px] leading-relaxed text-studio-muted">
+                    <div><dt className="inline font-semibold text-studio-text">Layout:</dt> <dd className="inline">{entry.layout}</dd></div>
+                    {entry.presetId && (
+                      <div><dt className="inline font-semibold text-studio-text">Preset:</dt> <dd className="inline">{entry.presetId}</dd></div>
+                    )}
+                    {entry.referenceImageHash && (
+                      <div><dt className="inline font-semibold text-studio-text">Reference:</dt> <dd className="inline font-mono">{entry.referenceImageHash.slice(0, 12)}</dd></div>
+                    )}
+                  </dl>
+                  <details>
+                    <summary className="cursor-pointer text-[11px] font-medium text-studio-text">Resolved prompt</summary>
+                    <p className="mt-1 max-h-40 overflow-y-auto whitespace-pre-wrap text-[10px] leading-relaxed text-studio-muted studio-scrollbar">
+                      {entry.resolvedPrompt}
+                    </p>
+                  </details>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => onReuse(entry)}
+                      className="flex-1 rounded-md bg-studio-accent px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-studio-accent-hover"
+                    >
+                      Reuse
+                    </button>
+                    {entry.kind !== 'storybook' && (
+                      <button
+                        type="button"
+                        onClick={() => void handleCopyRenderUrl(entry)}
+                        title="Publishes this image as a public /api/og/render template and copies a URL that sets an article title over it"
+                        className="rounded-md border border-studio-border px-3 py-1.5 text-xs font-semibold text-studio-muted transition-colors hover:border-studio-muted hover:text-studio-text"
+                      >
+                        {copiedId === entry.id ? 'Copied' : 'Copy OG URL'}
+                      </button>
+                    )}
+                    {entry.ogTemplate && (
+                      <button
+                        type="button"
+                        onClick={() => void handleUnpublish(entry)}
+                        title="Stop serving this image from /api/og/render"
+                        className="rounded-md border border-studio-border px-3 py-1.5 text-xs font-semibold text-studio-muted transition-colors hover:border-studio-muted hover:text-studio-text"
+                      >
+                        Unpublish
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => void handleDelete(entry)}
+                      className="rounded-md border border-red-500/40 px-3 py-1.5 text-xs font-semibold text-red-300 transition-colors hover:bg-red-500/10"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )}
+            </article>
+          );
+        })}
+      </div>
+    </aside>
+  );
+}
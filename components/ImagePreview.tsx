@@ -1,6 +1,11 @@
 'use client';
 
 import { useState, useMemo, useEffect } from 'react';
+import MaskPainter from './MaskPainter';
+import CropAdjuster from './CropAdjuster';
+import SafeZoneOverlay, { SafeZoneLegend } from './SafeZoneOverlay';
+import { CropOptions } from '@/lib/crop';
+import { SafeZoneGuide } from '@/lib/safeZones';
 
 type Layout = 'landscape' | 'mobile' | 'portrait' | 'square' | 'reference';
 
@@ -9,10 +14,41 @@ interface ImagePreviewProps {
   layout: Layout;
   referenceDimensions?: { width: number; height: number } | null;
   outputDimensions?: { width: number; height: number; label?: string } | null;
+  variants?: string[];
+  selectedVariantIndex?: number | null;
+  onSelectVariant?: (index: number | null) => void;
+  isSelectingVariant?: boolean;
+  onEditRegion?: (maskData: string, instruction: string) => Promise<void>;
+  // The uncropped generation behind a preset export, re-exported through /api/format by onRecrop.
+  cropSourceUrl?: string | null;
+  onRecrop?: (crop: CropOptions) => Promise<void>;
+  // Platform chrome and safe areas in outputDimensions pixels.
+  safeZoneGuides?: SafeZoneGuide[];
 }
 
-export default function ImagePreview({ imageUrl, layout, referenceDimensions, outputDimensions }: ImagePreviewProps) {
+export default function ImagePreview({
+  imageUrl,
+  layout,
+  referenceDimensions,
+  outputDimensions,
+  variants = [],
+  selectedVariantIndex = null,
+  onSelectVariant,
+  isSelectingVariant = false,
+  onEditRegion,
+  cropSourceUrl,
+  onRecrop,
+  safeZoneGuides = [],
+}: ImagePreviewProps) {
   const [imageError, setImageError] = useState(false);
+  const [isMasking, setIsMasking] = useState(false);
+  const [isApplyingEdit, setIsApplyingEdit] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [isCropping, setIsCropping] = useState(false);
+  const [isApplyingCrop, setIsApplyingCrop] = useState(false);
+  const [cropError, setCropError] = useState<string | null>(null);
+  const [showSafeZones, setShowSafeZones] = useState(false);
+  const [hiddenGuideIds, setHiddenGuideIds] = useState<string[]>([]);
 
   const { blobUrl, isBlob } = useMemo(() => {
     if (imageUrl.startsWith('http://') || imageUrl.startsWith('https://')) {
@@ -89,6 +125,109 @@ export default function ImagePreview({ imageUrl, layout, referenceDimensions, ou
     window.open(blobUrl, '_blank', 'noopener,noreferrer');
   };
 
+  const handleApplyEdit = async (maskData: string, instruction: string) => {
+    if (!onEditRegion) return;
+    setIsApplyingEdit(true);
+    setEditError(null);
+    try {
+      await onEditRegion(maskData, instruction);
+      setIsMasking(false);
+    } catch (err) {
+      setEditError(err instanceof Error ? err.message : 'Failed to edit image.');
+    } finally {
+      setIsApplyingEdit(false);
+    }
+  };
+
+  const handleApplyCrop = async (crop: CropOptions) => {
+    if (!onRecrop) return;
+    setIsApplyingCrop(true);
+    setCropError(null);
+    try {
+      await onRecrop(crop);
+      setIsCropping(false);
+    } catch (err) {
+      setCropError(err instanceof Error ? err.message : 'Failed to apply the crop.');
+    } finally {
+      setIsApplyingCrop(false);
+    }
+  };
+
+  const hasVariants = variants.length > 1 && !!onSelectVariant;
+  const canAdjustCrop = Boolean(cropSourceUrl && onRecrop && outputDimensions);
+  const canShowSafeZones = safeZoneGuides.length > 0 && Boolean(outputDimensions);
+
+  const handleToggleGuide = (id: string) => {
+    setHiddenGuideIds((current) => (
+      current.includes(id) ? current.filter((guideId) => guideId !== id) : [...current, id]
+    ));
+  };
+
+  if (hasVariants && selectedVariantIndex === null) {
+    return (
+      <div className="flex h-full w-full max-w-6xl flex-col gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-studio-text">Compare variants</h2>
+          <p className="mt-1 text-xs text-studio-muted">
+            {variants.length} takes of the same prompt. Pick a favourite{outputDimensions ? ` to export it at ${outputDimensions.width}x${outputDimensions.height}` : ''}.
+          </p>
+        </div>
+        <div className="grid min-h-0 flex-1 grid-cols-1 gap-3 overflow-y-auto studio-scrollbar sm:grid-cols-2">
+          {variants.map((variant, index) => (
+            <figure key={`${index}-${variant.slice(-24)}`} className="flex flex-col overflow-hidden rounded-lg border border-studio-border bg-studio-surface">
+              <div className="flex min-h-0 flex-1 items-center justify-center bg-black/20 p-2">
+                <img src={variant} alt={`Variant ${index + 1}`} className="max-h-[36vh] max-w-full rounded-md object-contain" />
+              </div>
+              <figcaption className="flex items-center justify-between gap-2 border-t border-studio-border px-3 py-2">
+                <span className="text-xs font-semibold text-studio-text">Variant {index + 1}</span>
+                <button
+                  type="button"
+                  onClick={() => onSelectVariant(index)}
+                  disabled={isSelectingVariant}
+                  className="rounded-md bg-studio-accent px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-studio-accent-hover disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {isSelectingVariant ? 'Exporting...' : 'Pick this one'}
+                </button>
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (isMasking && onEditRegion) {
+    return (
+      <MaskPainter
+        imageUrl={imageUrl}
+        onApply={(maskData, instruction) => void handleApplyEdit(maskData, instruction)}
+        onCancel={() => {
+          setIsMasking(false);
+          setEditError(null);
+        }}
+        isApplying={isApplyingEdit}
+        error={editError}
+      />
+    );
+  }
+
+  if (isCropping && canAdjustCrop && cropSourceUrl && outputDimensions) {
+    return (
+      <CropAdjuster
+        sourceUrl={cropSourceUrl}
+        outputWidth={outputDimensions.width}
+        outputHeight={outputDimensions.height}
+        onApply={(crop) => void handleApplyCrop(crop)}
+        onCancel={() => {
+          setIsCropping(false);
+          setCropError(null);
+        }}
+        isApplying={isApplyingCrop}
+        error={cropError}
+      />
+    );
+  }
+
   if (imageError) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -104,29 +243,82 @@ export default function ImagePreview({ imageUrl, layout, referenceDimensions, ou
           {outputDimensions.label ? `${outputDimensions.label} - ` : ''}{outputDimensions.width}x{outputDimensions.height}
         </div>
       )}
-      <img
-        src={imageUrl}
-        alt="Generated image"
-        className={`${getMaxDimensions()} object-contain mx-auto rounded-lg`}
-        onError={() => setImageError(true)}
-      />
-
-      {/* Floating action bar */}
-      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-        <a
-          href={blobUrl}
-          download={getDownloadFilename()}
-          className="px-4 py-2 bg-studio-surface/90 backdrop-blur-sm text-studio-text text-sm font-medium rounded-lg border border-studio-border hover:bg-studio-elevated transition-colors"
-        >
-          Download
-        </a>
+      {canShowSafeZones && (
         <button
-          onClick={handleOpenInNewTab}
-          className="px-4 py-2 bg-studio-surface/90 backdrop-blur-sm text-studio-text text-sm font-medium rounded-lg border border-studio-border hover:bg-studio-elevated transition-colors"
+          type="button"
+          onClick={() => setShowSafeZones((visible) => !visible)}
+          aria-pressed={showSafeZones}
+          className={`absolute right-3 top-3 z-10 rounded-full border px-3 py-1 text-xs font-medium backdrop-blur-sm transition-colors ${
+            showSafeZones
+              ? 'border-studio-accent bg-studio-accent/20 text-studio-text'
+              : 'border-studio-border bg-studio-surface/90 text-studio-muted hover:text-studio-text'
+          }`}
         >
-          Open in Tab
+          Safe zones
         </button>
+      )}
+      <div className="relative mx-auto w-fit max-w-full">
+        <img
+          src={imageUrl}
+          alt="Generated image"
+          className={`${getMaxDimensions()} object-contain mx-auto rounded-lg`}
+          onError={() => setImageError(true)}
+        />
+        {showSafeZones && canShowSafeZones && outputDimensions && (
+          <SafeZoneOverlay
+            guides={safeZoneGuides}
+            width={outputDimensions.width}
+            height={outputDimensions.height}
+            hiddenGuideIds={hiddenGuideIds}
+          />
+        )}
+
+        {/* Floating action bar */}
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+          <a
+            href={blobUrl}
+            download={getDownloadFilename()}
+            className="px-4 py-2 bg-studio-surface/90 backdrop-blur-sm text-studio-text text-sm font-medium rounded-lg border border-studio-border hover:bg-studio-elevated transition-colors"
+          >
+            Download
+          </a>
+          <button
+            onClick={handleOpenInNewTab}
+            className="px-4 py-2 bg-studio-surface/90 backdrop-blur-sm text-studio-text text-sm font-medium rounded-lg border border-studio-border hover:bg-studio-elevated transition-colors"
+          >
+            Open in Tab
+          </button>
+          {onEditRegion && (
+            <button
+              onClick={() => setIsMasking(true)}
+              className="px-4 py-2 bg-studio-surface/90 backdrop-blur-sm text-studio-text text-sm font-medium rounded-lg border border-studio-border hover:bg-studio-elevated transition-colors"
+            >
+              Edit region
+            </button>
+          )}
+          {canAdjustCrop && (
+            <button
+              onClick={() => setIsCropping(true)}
+              className="px-4 py-2 bg-studio-surface/90 backdrop-blur-sm text-studio-text text-sm font-medium rounded-lg border border-studio-border hover:bg-studio-elevated transition-colors"
+            >
+              Adjust crop
+            </button>
+          )}
+          {hasVariants && (
+            <button
+              onClick={() => onSelectVariant(null)}
+              className="px-4 py-2 bg-studio-surface/90 backdrop-blur-sm text-studio-text text-sm font-medium rounded-lg border border-studio-border hover:bg-studio-elevated transition-colors"
+            >
+              Compare variants
+            </button>
+          )}
+        </div>
       </div>
+      {showSafeZones && canShowSafeZones && (
+        <div className="mt-2 flex justify-center">
+          <SafeZoneLegend guides={safeZoneGuides} hiddenGuideIds={hiddenGuideIds} onToggleGuide={handleToggleGuide} />
+        </div>
+      )}
     </div>
   );
 }
@@ -1,23 +1,48 @@
 'use client';
 
-import { useState, useRef } from 'react';
+import { useEffect, useState, useRef } from 'react';
 import StudioControls from './StudioControls';
 import LoadingOverlay from './LoadingOverlay';
 import ImagePreview from './ImagePreview';
 import StorybookPreview, { StorybookPage } from './StorybookPreview';
 import OgPackagePreview, { OgPackageAsset } from './OgPackagePreview';
 import MobileBottomSheet from './MobileBottomSheet';
-import { generateImage } from '@/lib/imageGeneration';
-import { buildCreatorPrompt, buildStorybookPagePrompts, CreatorPreset, getOgPackageExportPresets } from '@/lib/creatorContent';
+import HistoryPanel from './HistoryPanel';
+import OgAuditPanel from './OgAuditPanel';
+import OgBulkPanel, { OgBulkRunOptions } from './OgBulkPanel';
+import ModelComparisonGrid, { ModelComparisonResult } from './ModelComparisonGrid';
+import QaReportPanel from './QaReportPanel';
+import { UploadedReference } from './ReferenceUpload';
+import { editImage, generateImage, generateImageVariants, outpaintImage } from '@/lib/imageGeneration';
+import { fetchBrandKitLogoAsDataUrl } from '@/lib/brandKits/client';
+import { CropOptions } from '@/lib/crop';
+import { BrandKit } from '@/lib/brandKits/types';
+import { buildCreatorPrompt, buildStorybookPagePrompts, CreatorPreset, getCreatorPreset } from '@/lib/creatorContent';
+import { fetchHistoryOutputAsDataUrl, hashReferenceImages, saveHistoryEntry } from '@/lib/history/client';
+import { HistoryEntry, HistoryEntryInput } from '@/lib/history/types';
+import { HEX_COLOR_PATTERN } from '@/lib/brandKits/prompt';
+import { exportOgPackage } from '@/lib/og/package';
+import { OG_MASTER_PRESET_ID } from '@/lib/og/presets';
+import { OgAuditReport, OgBulkEntry, OgPackageMeta } from '@/lib/og/types';
+import { buildQaFeedbackPrompt, checkImageQa } from '@/lib/qa/client';
+import { QaReport } from '@/lib/qa/types';
 
-import { DEFAULT_MODEL, Layout, Model, MODEL_CAPABILITIES, OPENROUTER_MODEL_BY_VALUE, getLayoutConfig } from '@/lib/modelConfig';
+import { DEFAULT_MODEL, Layout, Model, MODEL_CAPABILITIES, MODEL_BY_VALUE, getLayoutConfig } from '@/lib/modelConfig';
+import { ReferenceImage, ReferenceRole, getDefaultReferenceRole } from '@/lib/referenceImages';
+import { getSafeZoneGuides } from '@/lib/safeZones';
+import { hasTextOverlay, MAX_OVERLAY_HEADLINE_LENGTH, supportsTextOverlay, TextOverlay } from '@/lib/textOverlay';
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 const ALLOWED_FILE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
 const MAX_IMAGE_DIMENSION = 1024;
 const COMPRESSION_QUALITY = 0.8;
 
-async function formatPresetImage(image: string, preset: CreatorPreset): Promise<string> {
+async function formatPresetImage(
+  image: string,
+  preset: CreatorPreset,
+  overlay?: TextOverlay | null,
+  crop?: CropOptions,
+): Promise<string> {
   if (!image.startsWith('data:image')) {
     throw new Error(`Generated ${preset.shortLabel} output must be image data before exact export formatting.`);
   }
@@ -32,7 +57,11 @@ async function formatPresetImage(image: string, preset: CreatorPreset): Promise<
       format: preset.exportFormat || 'png',
       quality: preset.exportQuality,
       maxFileSizeKb: preset.maxFileSizeKb,
-      fit: preset.exportFit || 'cover',
+      // Extended canvases already match the target aspect ratio, so cover only scales them.
+      fit: preset.exportFit === 'contain' ? 'contain' : 'cover',
+      presetId: preset.id,
+      overlay: hasTextOverlay(overlay) ? overlay : undefined,
+      crop,
     }),
   });
 
@@ -49,7 +78,7 @@ async function formatPresetImage(image: string, preset: CreatorPreset): Promise<
   return data.image;
 }
 
-function compressImage(dataUrl: string, maxDim: number, quality: number): Promise<string> {
+function compressImage(dataUrl: string, maxDim: number, quality: number, mimeType = 'image/jpeg'): Promise<string> {
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.onload = () => {
@@ -65,13 +94,37 @@ function compressImage(dataUrl: string, maxDim: number, quality: number): Promis
       const ctx = canvas.getContext('2d');
       if (!ctx) { reject(new Error('Failed to get canvas context')); return; }
       ctx.drawImage(img, 0, 0, width, height);
-      resolve(canvas.toDataURL('image/jpeg', quality));
+      resolve(canvas.toDataURL(mimeType, quality));
     };
     img.onerror = () => reject(new Error('Failed to load image for compression'));
     img.src = dataUrl;
   });
 }
 
+function readReferenceFile(file: File): Promise<Omit<UploadedReference, 'id' | 'role'>> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const result = e.target?.result;
+      if (typeof result !== 'string') {
+        reject(new Error('Failed to read file. Please try again.'));
+        return;
+      }
+      const img = new Image();
+      img.onload = async () => {
+        // PNGs stay PNG so transparent logos do not pick up a black background.
+        const imageData = await compressImage(result, MAX_IMAGE_DIMENSION, COMPRESSION_QUALITY, file.type === 'image/png' ? 'image/png' : 'image/jpeg')
+          .catch(() => result);
+        resolve({ imageData, width: img.width, height: img.height });
+      };
+      img.onerror = () => reject(new Error('Failed to load image dimensions.'));
+      img.src = result;
+    };
+    reader.onerror = () => reject(new Error('Failed to read file. Please try again.'));
+    reader.readAsDataURL(file);
+  });
+}
+
 export default function ImageStudio() {
   const [prompt, setPrompt] = useState('');
   const [selectedLayout, setSelectedLayout] = useState<Layout>('square');
@@ -79,17 +132,58 @@ export default function ImageStudio() {
   const [selectedModel, setSelectedModel] = useState<Model>(DEFAULT_MODEL);
   const [isLoading, setIsLoading] = useState(false);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  // The uncropped generation behind generatedImage when it is a preset export; null when there is nothing to re-crop.
+  const [cropSourceImage, setCropSourceImage] = useState<string | null>(null);
+  const [variantCount, setVariantCount] = useState(1);
+  const [variantImages, setVariantImages] = useState<string[]>([]);
+  const [selectedVariantIndex, setSelectedVariantIndex] = useState<number | null>(null);
+  const [isSelectingVariant, setIsSelectingVariant] = useState(false);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareModels, setCompareModels] = useState<Model[]>([DEFAULT_MODEL, 'nano-banana-2']);
+  const [comparisonResults, setComparisonResults] = useState<ModelComparisonResult[]>([]);
+  const [isApplyingComparison, setIsApplyingComparison] = useState(false);
   const [storybookPages, setStorybookPages] = useState<StorybookPage[]>([]);
   const [storybookProgress, setStorybookProgress] = useState<string | null>(null);
   const [ogPackageAssets, setOgPackageAssets] = useState<OgPackageAsset[]>([]);
   const [ogPackageProgress, setOgPackageProgress] = useState<string | null>(null);
+  const [ogMeta, setOgMeta] = useState<OgPackageMeta>({
+    url: '',
+    assetBaseUrl: '',
+    title: '',
+    description: '',
+    siteName: '',
+    themeColor: '#1a1a1a',
+    imageAlts: {},
+  });
   const [error, setError] = useState<string | null>(null);
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-  const [referenceImageDimensions, setReferenceImageDimensions] = useState<{ width: number; height: number } | null>(null);
+  const [qaReport, setQaReport] = useState<QaReport | null>(null);
+  const [isCheckingQa, setIsCheckingQa] = useState(false);
+  const [qaError, setQaError] = useState<string | null>(null);
+  const [ogPackageQaReports, setOgPackageQaReports] = useState<Record<string, QaReport>>({});
+  const [referenceImages, setReferenceImages] = useState<UploadedReference[]>([]);
+  const [selectedBrandKit, setSelectedBrandKit] = useState<BrandKit | null>(null);
+  const [textOverlay, setTextOverlay] = useState<TextOverlay>({ headline: '', subline: '', cta: '', align: 'left', scrim: true });
   const [isDragging, setIsDragging] = useState(false);
   const [isEnhancing, setIsEnhancing] = useState(false);
   const [bottomSheetOpen, setBottomSheetOpen] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [auditOpen, setAuditOpen] = useState(false);
+  const [bulkOpen, setBulkOpen] = useState(false);
+  const [pendingAuditFix, setPendingAuditFix] = useState(false);
+  const referenceIdRef = useRef(0);
+  const hasReferenceImages = referenceImages.length > 0;
+  // The first reference drives the "match input" layout.
+  const referenceImageDimensions = referenceImages[0]
+    ? { width: referenceImages[0].width, height: referenceImages[0].height }
+    : null;
+  // Brand kits tint the CTA pill with their first palette color.
+  const activeTextOverlay = supportsTextOverlay(selectedCreatorPreset) && hasTextOverlay(textOverlay)
+    ? { ...textOverlay, accentColor: selectedBrandKit?.palette[0] }
+    : null;
+  const isComparing = compareMode
+    && selectedCreatorPreset?.workflow !== 'storybook'
+    && selectedCreatorPreset?.workflow !== 'og-package';
   const loadingMode = selectedCreatorPreset?.workflow === 'storybook'
     ? 'storybook'
     : selectedCreatorPreset?.workflow === 'og-package'
@@ -108,38 +202,44 @@ export default function ImageStudio() {
     return null;
   };
 
-  const handleFileSelect = (file: File) => {
-    const validationError = validateFile(file);
-    if (validationError) {
-      setError(validationError);
+  const handleReferenceFilesSelect = async (files: File[]) => {
+    const capabilities = MODEL_CAPABILITIES[selectedModel];
+    const openSlots = capabilities.maxReferenceImages - referenceImages.length;
+    if (openSlots <= 0) {
+      setError(`${MODEL_BY_VALUE[selectedModel].label} accepts at most ${capabilities.maxReferenceImages} reference image${capabilities.maxReferenceImages === 1 ? '' : 's'}.`);
       return;
     }
 
-    setError(null);
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const result = e.target?.result;
-      if (typeof result === 'string') {
-        const img = new Image();
-        img.onload = async () => {
-          setReferenceImageDimensions({ width: img.width, height: img.height });
-          const capabilities = MODEL_CAPABILITIES[selectedModel];
-          if (capabilities.supportedLayouts.includes('reference')) {
-            setSelectedLayout('reference');
-          }
-          try {
-            const compressed = await compressImage(result, MAX_IMAGE_DIMENSION, COMPRESSION_QUALITY);
-            setUploadedImage(compressed);
-          } catch {
-            setUploadedImage(result);
-          }
-        };
-        img.onerror = () => setError('Failed to load image dimensions.');
-        img.src = result;
+    setError(files.length > openSlots ? `Only the first ${openSlots} image${openSlots === 1 ? '' : 's'} were added; this model accepts ${capabilities.maxReferenceImages}.` : null);
+    const wasEmpty = referenceImages.length === 0;
+
+    for (const file of files.slice(0, openSlots)) {
+      const validationError = validateFile(file);
+      if (validationError) {
+        setError(validationError);
+        continue;
       }
-    };
-    reader.onerror = () => setError('Failed to read file. Please try again.');
-    reader.readAsDataURL(file);
+
+      try {
+        const loaded = await readReferenceFile(file);
+        referenceIdRef.current += 1;
+        const id = `reference-${referenceIdRef.current}`;
+        setReferenceImages((current) => [
+          ...current,
+          { ...loaded, id, role: getDefaultReferenceRole(current.map((reference) => reference.role)) },
+        ]);
+      } catch (readError) {
+        setError(readError instanceof Error ? readError.message : 'Failed to read file. Please try again.');
+      }
+    }
+
+    if (wasEmpty && capabilities.supportedLayouts.includes('reference')) {
+      setSelectedLayout('reference');
+    }
+  };
+
+  const handleReferenceRoleChange = (id: string, role: ReferenceRole) => {
+    setReferenceImages((current) => current.map((reference) => (reference.id === id ? { ...reference, role } : reference)));
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -155,16 +255,15 @@ export default function ImageStudio() {
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    const file = e.dataTransfer.files?.[0];
-    if (file) handleFileSelect(file);
+    const files = Array.from(e.dataTransfer.files || []);
+    if (files.length) void handleReferenceFilesSelect(files);
   };
 
-  const handleClearImage = () => {
-    setUploadedImage(null);
-    setReferenceImageDimensions(null);
-    if (fileInputRef.current) fileInputRef.current.value = '';
+  const handleRemoveReference = (id: string) => {
+    const remaining = referenceImages.filter((reference) => reference.id !== id);
+    setReferenceImages(remaining);
     setError(null);
-    if (selectedLayout === 'reference') setSelectedLayout('square');
+    if (remaining.length === 0 && selectedLayout === 'reference') setSelectedLayout('square');
   };
 
   const handleModelSelect = (model: Model) => {
@@ -176,40 +275,46 @@ export default function ImageStudio() {
 
     if (!newCapabilities.supportsLayoutSelection) {
       setSelectedLayout('reference');
-      if (!uploadedImage) {
-        setError(`${OPENROUTER_MODEL_BY_VALUE[model].label} requires a reference image. Please upload an image.`);
+      if (!hasReferenceImages) {
+        setError(`${MODEL_BY_VALUE[model].label} requires a reference image. Please upload an image.`);
       } else {
         setError(null);
       }
     } else if (!newCapabilities.supportedLayouts.includes(selectedLayout)) {
       setSelectedLayout('square');
       setError(`${selectedLayout} layout is not supported with this model. Switched to square layout.`);
-    } else if (!newCapabilities.supportsReferenceImages && uploadedImage && prevCapabilities.supportsReferenceImages) {
-      setError('Reference images are not supported with this model. Your image will be preserved when you switch to another model.');
+    } else if (!newCapabilities.supportsReferenceImages && hasReferenceImages && prevCapabilities.supportsReferenceImages) {
+      setError('Reference images are not supported with this model. Your images will be preserved when you switch to another model.');
+    } else if (referenceImages.length > newCapabilities.maxReferenceImages) {
+      setError(`${MODEL_BY_VALUE[model].label} accepts at most ${newCapabilities.maxReferenceImages} reference image${newCapabilities.maxReferenceImages === 1 ? '' : 's'}. Remove some before generating.`);
     } else if (prevCapabilities.supportsReferenceImages || newCapabilities.supportsReferenceImages) {
       setError(null);
     }
   };
 
   const handleLayoutSelect = (layout: Layout) => {
-    if (layout === 'reference' && !uploadedImage) {
+    if (layout === 'reference' && !hasReferenceImages) {
       setError('Please upload a reference image first to use the reference dimension option.');
       return;
     }
     setSelectedLayout(layout);
     setSelectedCreatorPreset(null);
     setGeneratedImage(null);
+    setVariantImages([]);
+    setComparisonResults([]);
     setStorybookPages([]);
   };
 
   const handleCreatorPresetSelect = (preset: CreatorPreset | null) => {
     setSelectedCreatorPreset(preset);
     setGeneratedImage(null);
+    setVariantImages([]);
+    setComparisonResults([]);
     setStorybookPages([]);
     setOgPackageAssets([]);
     if (preset) {
       setSelectedLayout(preset.generationLayout);
-      if (preset.workflow === 'enhance' && !uploadedImage) {
+      if (preset.workflow === 'enhance' && !hasReferenceImages) {
         setError('Upload an image first to use enhancement mode.');
       } else {
         setError(null);
@@ -239,88 +344,269 @@ export default function ImageStudio() {
     }
   };
 
-  const handleGenerate = async () => {
+  const recordHistory = async (entry: Omit<HistoryEntryInput, 'model' | 'presetId' | 'referenceImageHash'> & { model?: Model }) => {
+    try {
+      await saveHistoryEntry({
+        ...entry,
+        model: entry.model || selectedModel,
+        presetId: selectedCreatorPreset?.id || null,
+        referenceImageHash: await hashReferenceImages(referenceImages),
+      });
+      setHistoryRefreshKey((key) => key + 1);
+    } catch (historyError) {
+      // History is best-effort; never fail a finished generation over it.
+      console.error('Failed to save generation to history:', historyError);
+    }
+  };
+
+  const handleReuseHistoryEntry = async (entry: HistoryEntry) => {
+    const preset = entry.presetId ? getCreatorPreset(entry.presetId) || null : null;
+    setPrompt(entry.prompt);
+    setSelectedModel(entry.model);
+    setSelectedCreatorPreset(preset);
+    setSelectedLayout(entry.layout === 'reference' && !hasReferenceImages ? 'square' : entry.layout);
+    setGeneratedImage(null);
+    setVariantImages([]);
+    setComparisonResults([]);
+    setStorybookPages([]);
+    setOgPackageAssets([]);
+    setError(null);
+    setHistoryOpen(false);
+
+    try {
+      const images = await Promise.all(entry.outputs.map((_, index) => fetchHistoryOutputAsDataUrl(entry.id, index)));
+
+      if (entry.kind === 'storybook' && preset) {
+        const pagePrompts = buildStorybookPagePrompts('', preset);
+        setStorybookPages(images.map((imageUrl, index) => ({
+          pageNumber: index + 1,
+          title: entry.outputs[index].label,
+          role: pagePrompts[index]?.role || '',
+          imageUrl,
+        })));
+        return;
+      }
+
+      if (entry.kind === 'og-package') {
+        setOgPackageAssets(entry.outputs.flatMap((output, index) => {
+          const exportPreset = output.presetId ? getCreatorPreset(output.presetId) : undefined;
+          if (!exportPreset) return [];
+          const extension = exportPreset.exportFormat === 'jpeg' ? 'jpg' : 'png';
+          return [{
+            presetId: exportPreset.id,
+            label: exportPreset.label,
+            shortLabel: exportPreset.shortLabel,
+            platform: exportPreset.ogPlatform || 'universal',
+            dimensions: exportPreset.dimensions,
+            width: exportPreset.width,
+            height: exportPreset.height,
+            imageUrl: images[index],
+            filename: `${exportPreset.id}.${extension}`,
+          }];
+        }));
+        return;
+      }
+
+      if (images.length > 1) {
+        setVariantImages(images);
+        setSelectedVariantIndex(null);
+        return;
+      }
+      setGeneratedImage(images[0] || null);
+      setCropSourceImage(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history entry.');
+    }
+  };
+
+  // Every finished image gets the heuristic QA pass; the vision review stays opt-in because it costs a model call.
+  useEffect(() => {
+    setQaReport(null);
+    setQaError(null);
+    if (!generatedImage?.startsWith('data:image')) return;
+
+    let cancelled = false;
+    setIsCheckingQa(true);
+    checkImageQa(generatedImage, selectedCreatorPreset?.id)
+      .then((report) => {
+        if (!cancelled) setQaReport(report);
+      })
+      .catch((err) => {
+        if (!cancelled) setQaError(err instanceof Error ? err.message : 'Failed to check image quality.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsCheckingQa(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [generatedImage, selectedCreatorPreset?.id]);
+
+  useEffect(() => {
+    setOgPackageQaReports({});
+    if (ogPackageAssets.length === 0) return;
+
+    let cancelled = false;
+    void (async () => {
+      for (const asset of ogPackageAssets) {
+        try {
+          const report = await checkImageQa(asset.imageUrl, asset.presetId);
+          if (cancelled) return;
+          setOgPackageQaReports((current) => ({ ...current, [asset.presetId]: report }));
+        } catch (err) {
+          console.error(`Failed to check ${asset.presetId}:`, err);
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [ogPackageAssets]);
+
+  const handleRunVisionCheck = async () => {
+    if (!generatedImage) return;
+
+    setIsCheckingQa(true);
+    setQaError(null);
+    try {
+      setQaReport(await checkImageQa(generatedImage, selectedCreatorPreset?.id, true));
+    } catch (err) {
+      setQaError(err instanceof Error ? err.message : 'Failed to run the vision check.');
+    } finally {
+      setIsCheckingQa(false);
+    }
+  };
+
+  // The kit logo is appended as one more reference when the model has room and no logo was uploaded.
+  const prepareReferences = async (): Promise<{ referencesToSend: ReferenceImage[]; brandKit: BrandKit | null }> => {
+    const referencesToSend: ReferenceImage[] = referenceImages.map(({ imageData, role }) => ({ imageData, role }));
+    const attachBrandLogo = Boolean(selectedBrandKit?.logo)
+      && referencesToSend.length < MODEL_CAPABILITIES[selectedModel].maxReferenceImages
+      && !referencesToSend.some((reference) => reference.role === 'logo');
+    if (selectedBrandKit && attachBrandLogo) {
+      referencesToSend.push({ imageData: await fetchBrandKitLogoAsDataUrl(selectedBrandKit), role: 'logo' });
+    }
+    const brandKit = selectedBrandKit && !attachBrandLogo ? { ...selectedBrandKit, logo: null } : selectedBrandKit;
+    return { referencesToSend, brandKit };
+  };
+
+  // Exports every OG package preset from one master; failures are collected so the rest of the package still ships.
+  const renderOgPackageExports = async (
+    masterImage: string,
+    brief: string,
+    overlay: TextOverlay | null,
+    onProgress: (label: string) => void,
+  ) => {
+    const { exports, failedExports, croppedExports } = await exportOgPackage(masterImage, {
+      outpaint: MODEL_CAPABILITIES[selectedModel].supportsMaskedEdits
+        ? (image, exportPreset) => outpaintImage(image, exportPreset.width, exportPreset.height, brief, selectedModel)
+        : null,
+      format: (sourceImage, exportPreset) => formatPresetImage(sourceImage, exportPreset, overlay),
+      onProgress,
+    });
+    const assets: OgPackageAsset[] = exports.map(({ preset: exportPreset, output, ...image }) => ({
+      ...image,
+      label: exportPreset.label,
+      shortLabel: exportPreset.shortLabel,
+      dimensions: exportPreset.dimensions,
+      imageUrl: output,
+    }));
+
+    return { assets, failedExports, croppedExports };
+  };
+
+  const handleGenerate = async (qaFeedback = '') => {
     if (!prompt.trim()) {
       setError('Please enter a prompt');
       return;
     }
 
-    if (selectedCreatorPreset?.workflow === 'enhance' && !uploadedImage) {
+    if (selectedCreatorPreset?.workflow === 'enhance' && !hasReferenceImages) {
       setError('Upload an image first to use enhancement mode.');
       return;
     }
 
+    const maxReferenceImages = MODEL_CAPABILITIES[selectedModel].maxReferenceImages;
+    if (!isComparing && referenceImages.length > maxReferenceImages) {
+      setError(`${MODEL_BY_VALUE[selectedModel].label} accepts at most ${maxReferenceImages} reference image${maxReferenceImages === 1 ? '' : 's'}. Remove some before generating.`);
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
     setGeneratedImage(null);
+    setVariantImages([]);
+    setSelectedVariantIndex(null);
+    setComparisonResults([]);
     setStorybookPages([]);
     setStorybookProgress(null);
     setOgPackageAssets([]);
     setOgPackageProgress(null);
 
     try {
-      const imageDataToSend = uploadedImage || undefined;
+      const { referencesToSend, brandKit } = await prepareReferences();
+      const withQaFeedback = (builtPrompt: string) => (qaFeedback ? `${builtPrompt}\n\n${qaFeedback}` : builtPrompt);
       const generationLayout = selectedCreatorPreset?.generationLayout || selectedLayout;
       const layoutToUse = generationLayout === 'reference' && referenceImageDimensions
         ? { type: 'reference' as const, width: referenceImageDimensions.width, height: referenceImageDimensions.height }
         : generationLayout;
 
       if (selectedCreatorPreset?.workflow === 'og-package') {
-        const exportPresets = getOgPackageExportPresets();
-        const promptToSend = buildCreatorPrompt(prompt, selectedCreatorPreset);
+        const promptToSend = withQaFeedback(buildCreatorPrompt(prompt, selectedCreatorPreset, brandKit, Boolean(activeTextOverlay)));
         setOgPackageProgress('Rendering master preview');
         const masterImage = await generateImage(
           promptToSend,
           selectedCreatorPreset.generationLayout,
           selectedModel,
-          imageDataToSend,
+          referencesToSend,
+        );
+        const { assets, failedExports, croppedExports } = await renderOgPackageExports(
+          masterImage,
+          prompt,
+          activeTextOverlay,
+          setOgPackageProgress,
         );
-        const assets: OgPackageAsset[] = [];
-        const failedExports: string[] = [];
-
-        for (const exportPreset of exportPresets) {
-          setOgPackageProgress(`Exporting ${exportPreset.shortLabel}`);
-          try {
-            const formattedImage = await formatPresetImage(masterImage, exportPreset);
-            const extension = exportPreset.exportFormat === 'jpeg' ? 'jpg' : 'png';
-            assets.push({
-              presetId: exportPreset.id,
-              label: exportPreset.label,
-              shortLabel: exportPreset.shortLabel,
-              platform: exportPreset.ogPlatform || 'universal',
-              dimensions: exportPreset.dimensions,
-              width: exportPreset.width,
-              height: exportPreset.height,
-              imageUrl: formattedImage,
-              filename: `${exportPreset.id}.${extension}`,
-            });
-          } catch (exportError) {
-            failedExports.push(exportPreset.shortLabel);
-            console.error(`Failed to export ${exportPreset.id}:`, exportError);
-          }
-        }
-
-        if (assets.length === 0) {
-          throw new Error('All social preview exports failed. Try simplifying the brief and generating again.');
-        }
 
-        if (failedExports.length > 0) {
-          setError(`Some exports failed (${failedExports.join(', ')}). Successful variants are shown below.`);
+        const exportWarnings = [
+          failedExports.length > 0 ? `Some exports failed (${failedExports.join(', ')}). Successful variants are shown below.` : '',
+          croppedExports.length > 0 ? `Canvas extension failed for ${croppedExports.join(', ')}, so the master was cropped instead.` : '',
+        ].filter(Boolean);
+        if (exportWarnings.length > 0) {
+          setError(exportWarnings.join(' '));
         }
 
         setOgPackageAssets(assets);
+        // Start the metadata from the prompt, but never overwrite what the user already typed.
+        setOgMeta((current) => ({
+          ...current,
+          title: current.title || prompt.trim(),
+          description: current.description || prompt.trim(),
+        }));
         setGeneratedImage(null);
         setBottomSheetOpen(false);
+        void recordHistory({
+          kind: 'og-package',
+          prompt,
+          resolvedPrompt: promptToSend,
+          layout: selectedCreatorPreset.generationLayout,
+          outputs: assets.map((asset) => ({
+            label: asset.shortLabel,
+            presetId: asset.presetId,
+            image: asset.imageUrl,
+            width: asset.width,
+            height: asset.height,
+          })),
+        });
         return;
       }
 
       if (selectedCreatorPreset?.workflow === 'storybook') {
-        const pagePrompts = buildStorybookPagePrompts(prompt, selectedCreatorPreset);
+        const pagePrompts = buildStorybookPagePrompts(prompt, selectedCreatorPreset, brandKit);
         const generatedPages: StorybookPage[] = [];
 
         for (const pagePrompt of pagePrompts) {
           setStorybookProgress(`Page ${pagePrompt.pageNumber} of ${pagePrompts.length}: ${pagePrompt.title}`);
-          const imageUrl = await generateImage(pagePrompt.prompt, layoutToUse, selectedModel, imageDataToSend);
+          const imageUrl = await generateImage(pagePrompt.prompt, layoutToUse, selectedModel, referencesToSend);
           const formattedImage = await formatPresetImage(imageUrl, selectedCreatorPreset);
           generatedPages.push({
             pageNumber: pagePrompt.pageNumber,
@@ -333,20 +619,99 @@ export default function ImageStudio() {
         setStorybookPages(generatedPages);
         setGeneratedImage(null);
         setBottomSheetOpen(false);
+        void recordHistory({
+          kind: 'storybook',
+          prompt,
+          resolvedPrompt: pagePrompts.map((pagePrompt) => pagePrompt.prompt).join('\n\n---\n\n'),
+          layout: generationLayout,
+          outputs: generatedPages.map((page) => ({
+            label: page.title,
+            image: page.imageUrl,
+            width: selectedCreatorPreset.width,
+            height: selectedCreatorPreset.height,
+          })),
+        });
+        return;
+      }
+
+      const promptToSend = withQaFeedback(buildCreatorPrompt(prompt, selectedCreatorPreset, brandKit, Boolean(activeTextOverlay)));
+
+      if (isComparing) {
+        setComparisonResults(compareModels.map((model) => ({ model, status: 'pending' })));
+        setBottomSheetOpen(false);
+
+        await Promise.all(compareModels.map(async (model) => {
+          const startedAt = performance.now();
+          try {
+            const imageUrl = await generateImage(promptToSend, layoutToUse, model, referencesToSend);
+            const latencyMs = performance.now() - startedAt;
+            setComparisonResults((current) => current.map((result) => (
+              result.model === model ? { model, status: 'done', imageUrl, latencyMs } : result
+            )));
+            void recordHistory({
+              kind: 'image',
+              prompt,
+              resolvedPrompt: promptToSend,
+              layout: generationLayout,
+              model,
+              outputs: [{ label: MODEL_BY_VALUE[model].label, image: imageUrl }],
+            });
+          } catch (compareError) {
+            const latencyMs = performance.now() - startedAt;
+            setComparisonResults((current) => current.map((result) => (
+              result.model === model
+                ? { model, status: 'error', error: compareError instanceof Error ? compareError.message : 'Generation failed.', latencyMs }
+                : result
+            )));
+          }
+        }));
+        return;
+      }
+
+      const imageUrls = await generateImageVariants(promptToSend, layoutToUse, selectedModel, referencesToSend, variantCount);
+
+      if (imageUrls.length > 1) {
+        if (imageUrls.length < variantCount) {
+          setError(`${variantCount - imageUrls.length} of ${variantCount} variants failed. The successful takes are shown below.`);
+        }
+        setVariantImages(imageUrls);
+        setBottomSheetOpen(false);
+        void recordHistory({
+          kind: 'image',
+          prompt,
+          resolvedPrompt: promptToSend,
+          layout: generationLayout,
+          outputs: imageUrls.map((variantUrl, index) => ({
+            label: `Variant ${index + 1}`,
+            image: variantUrl,
+          })),
+        });
         return;
       }
 
-      const promptToSend = buildCreatorPrompt(prompt, selectedCreatorPreset);
-      const imageUrl = await generateImage(promptToSend, layoutToUse, selectedModel, imageDataToSend);
+      const imageUrl = imageUrls[0];
       let finalImageUrl = imageUrl;
 
       if (selectedCreatorPreset && imageUrl.startsWith('data:image')) {
-        finalImageUrl = await formatPresetImage(imageUrl, selectedCreatorPreset);
+        finalImageUrl = await formatPresetImage(imageUrl, selectedCreatorPreset, activeTextOverlay);
       }
 
       setGeneratedImage(finalImageUrl);
+      setCropSourceImage(finalImageUrl === imageUrl ? null : imageUrl);
       // Auto-collapse bottom sheet on mobile after successful generation
       setBottomSheetOpen(false);
+      void recordHistory({
+        kind: 'image',
+        prompt,
+        resolvedPrompt: promptToSend,
+        layout: generationLayout,
+        outputs: [{
+          label: selectedCreatorPreset?.shortLabel || 'Generated image',
+          image: finalImageUrl,
+          width: selectedCreatorPreset?.width,
+          height: selectedCreatorPreset?.height,
+        }],
+      });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to generate image');
     } finally {
@@ -356,6 +721,172 @@ export default function ImageStudio() {
     }
   };
 
+  const handleRegenerateWithFixes = (reports: QaReport[]) => {
+    const qaFeedback = buildQaFeedbackPrompt(reports);
+    if (qaFeedback) void handleGenerate(qaFeedback);
+  };
+
+  // Switches to the OG package preset with the audited page's copy, then generates once that state has rendered.
+  const handleGenerateAuditFix = (report: OgAuditReport) => {
+    const ogPackagePreset = getCreatorPreset('website-og-package');
+    if (!ogPackagePreset) return;
+
+    const { url, title, description, siteName, themeColor } = report.meta;
+    handleCreatorPresetSelect(ogPackagePreset);
+    setOgMeta({
+      url,
+      assetBaseUrl: '',
+      title,
+      description,
+      siteName,
+      themeColor: HEX_COLOR_PATTERN.test(themeColor) ? themeColor : '#1a1a1a',
+      imageAlts: {},
+    });
+    setPrompt([siteName && title ? `${siteName}: ${title}` : title || siteName, description].filter(Boolean).join('. '));
+    setAuditOpen(false);
+    setPendingAuditFix(true);
+  };
+
+  useEffect(() => {
+    if (!pendingAuditFix || selectedCreatorPreset?.workflow !== 'og-package') return;
+    setPendingAuditFix(false);
+    void handleGenerate();
+  }, [pendingAuditFix, selectedCreatorPreset]);
+
+  // One bulk page: the same master and exports as the studio, saved to history so the bulk bundle can read it back.
+  const handleGenerateBulkPage = async (
+    entry: OgBulkEntry,
+    options: OgBulkRunOptions,
+    onProgress: (label: string) => void,
+  ): Promise<string> => {
+    const preset = getCreatorPreset(options.mode === 'package' ? 'website-og-package' : OG_MASTER_PRESET_ID);
+    if (!preset) throw new Error('The OG presets are not available.');
+
+    const { referencesToSend, brandKit } = await prepareReferences();
+    const overlay: TextOverlay | null = options.setTitles
+      ? { headline: entry.title.slice(0, MAX_OVERLAY_HEADLINE_LENGTH), align: 'left', scrim: true, accentColor: selectedBrandKit?.palette[0] }
+      : null;
+    const brief = [
+      options.artDirection.trim(),
+      `Page title: ${entry.title}`,
+      entry.description ? `Page summary: ${entry.description}` : '',
+    ].filter(Boolean).join('\n');
+    const promptToSend = buildCreatorPrompt(brief, preset, brandKit, Boolean(overlay));
+    const masterImage = await generateImage(promptToSend, preset.generationLayout, selectedModel, referencesToSend);
+
+    const outputs = preset.workflow === 'og-package'
+      ? (await renderOgPackageExports(masterImage, brief, overlay, onProgress)).assets.map((asset) => ({
+          label: asset.shortLabel,
+          presetId: asset.presetId,
+          image: asset.imageUrl,
+          width: asset.width,
+          height: asset.height,
+        }))
+      : [{
+          label: preset.shortLabel,
+          presetId: preset.id,
+          image: await formatPresetImage(masterImage, preset, overlay),
+          width: preset.width,
+          height: preset.height,
+        }];
+
+    const saved = await saveHistoryEntry({
+      kind: preset.workflow === 'og-package' ? 'og-package' : 'image',
+      prompt: brief,
+      resolvedPrompt: promptToSend,
+      model: selectedModel,
+      layout: preset.generationLayout,
+      presetId: preset.id,
+      referenceImageHash: await hashReferenceImages(referenceImages),
+      outputs,
+    });
+    setHistoryRefreshKey((key) => key + 1);
+    return saved.id;
+  };
+
+  const handleSelectVariant = async (index: number | null) => {
+    if (index === null) {
+      setSelectedVariantIndex(null);
+      setGeneratedImage(null);
+      return;
+    }
+
+    const variantUrl = variantImages[index];
+    if (!variantUrl) return;
+
+    setIsSelectingVariant(true);
+    setError(null);
+    try {
+      const finalImageUrl = selectedCreatorPreset && variantUrl.startsWith('data:image')
+        ? await formatPresetImage(variantUrl, selectedCreatorPreset, activeTextOverlay)
+        : variantUrl;
+      setGeneratedImage(finalImageUrl);
+      setCropSourceImage(finalImageUrl === variantUrl ? null : variantUrl);
+      setSelectedVariantIndex(index);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export the selected variant.');
+    } finally {
+      setIsSelectingVariant(false);
+    }
+  };
+
+  const handleEditRegion = async (maskData: string, instruction: string) => {
+    if (!generatedImage) return;
+
+    const editedImage = await editImage(generatedImage, maskData, instruction, selectedModel);
+    const finalImageUrl = selectedCreatorPreset
+      ? await formatPresetImage(editedImage, selectedCreatorPreset)
+      : editedImage;
+    setGeneratedImage(finalImageUrl);
+    // The edit was painted on the export, so the old uncropped source no longer matches it.
+    setCropSourceImage(null);
+    void recordHistory({
+      kind: 'edit',
+      prompt: instruction,
+      resolvedPrompt: instruction,
+      layout: selectedCreatorPreset?.generationLayout || selectedLayout,
+      outputs: [{
+        label: 'Edited image',
+        image: finalImageUrl,
+        width: selectedCreatorPreset?.width,
+        height: selectedCreatorPreset?.height,
+      }],
+    });
+  };
+
+  const handleRecrop = async (crop: CropOptions) => {
+    if (!cropSourceImage || !selectedCreatorPreset) return;
+
+    const finalImageUrl = await formatPresetImage(cropSourceImage, selectedCreatorPreset, activeTextOverlay, crop);
+    setGeneratedImage(finalImageUrl);
+  };
+
+  const handleCompareModelToggle = (model: Model) => {
+    setCompareModels((current) => (
+      current.includes(model) ? current.filter((item) => item !== model) : [...current, model]
+    ));
+  };
+
+  const handleUseComparisonResult = async (result: ModelComparisonResult) => {
+    if (!result.imageUrl) return;
+
+    setIsApplyingComparison(true);
+    setError(null);
+    try {
+      const finalImageUrl = selectedCreatorPreset && result.imageUrl.startsWith('data:image')
+        ? await formatPresetImage(result.imageUrl, selectedCreatorPreset, activeTextOverlay)
+        : result.imageUrl;
+      setSelectedModel(result.model);
+      setGeneratedImage(finalImageUrl);
+      setCropSourceImage(finalImageUrl === result.imageUrl ? null : result.imageUrl);
+      setComparisonResults([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export the selected model result.');
+    } finally {
+      setIsApplyingComparison(false);
+    }
+  };
+
   const controlsProps = {
     prompt,
     onPromptChange: setPrompt,
@@ -363,13 +894,24 @@ export default function ImageStudio() {
     isEnhancing,
     selectedModel,
     onModelSelect: handleModelSelect,
+    compareMode,
+    onCompareModeChange: setCompareMode,
+    compareModels,
+    onCompareModelToggle: handleCompareModelToggle,
     selectedLayout,
     onLayoutSelect: handleLayoutSelect,
+    variantCount,
+    onVariantCountChange: setVariantCount,
     selectedCreatorPreset,
     onCreatorPresetSelect: handleCreatorPresetSelect,
-    uploadedImage,
-    onFileSelect: handleFileSelect,
-    onClearImage: handleClearImage,
+    selectedBrandKit,
+    onBrandKitSelect: setSelectedBrandKit,
+    textOverlay,
+    onTextOverlayChange: setTextOverlay,
+    referenceImages,
+    onReferenceFilesSelect: (files: File[]) => void handleReferenceFilesSelect(files),
+    onRemoveReference: handleRemoveReference,
+    onReferenceRoleChange: handleReferenceRoleChange,
     isDragging,
     onDragOver: handleDragOver,
     onDragLeave: handleDragLeave,
@@ -377,7 +919,7 @@ export default function ImageStudio() {
     referenceDimensions: referenceImageDimensions,
     isLoading,
     error,
-    onGenerate: handleGenerate,
+    onGenerate: () => void handleGenerate(),
   };
 
   const layoutConfig = getLayoutConfig(selectedLayout, selectedModel);
@@ -385,14 +927,14 @@ export default function ImageStudio() {
     ? {
         title: selectedCreatorPreset.shortLabel,
         detail: selectedCreatorPreset.workflow === 'storybook'
-          ? `5 pages · ${selectedCreatorPreset.dimensions} PDF via ${OPENROUTER_MODEL_BY_VALUE[selectedModel].shortLabel}`
+          ? `5 pages · ${selectedCreatorPreset.dimensions} PDF via ${MODEL_BY_VALUE[selectedModel].shortLabel}`
           : selectedCreatorPreset.workflow === 'og-package'
-            ? `${selectedCreatorPreset.dimensions} via ${OPENROUTER_MODEL_BY_VALUE[selectedModel].shortLabel}`
-            : `${selectedCreatorPreset.dimensions} export via ${OPENROUTER_MODEL_BY_VALUE[selectedModel].shortLabel}`,
+            ? `${selectedCreatorPreset.dimensions} via ${MODEL_BY_VALUE[selectedModel].shortLabel}`
+            : `${selectedCreatorPreset.dimensions} export via ${MODEL_BY_VALUE[selectedModel].shortLabel}`,
       }
     : {
         title: 'Freeform image',
-        detail: `${layoutConfig.label} ${layoutConfig.dimensions} via ${OPENROUTER_MODEL_BY_VALUE[selectedModel].shortLabel}`,
+        detail: `${layoutConfig.label} ${layoutConfig.dimensions} via ${MODEL_BY_VALUE[selectedModel].shortLabel}`,
       };
 
   return (
@@ -410,7 +952,58 @@ export default function ImageStudio() {
 
       {/* Canvas */}
       <div className="flex-1 relative flex items-center justify-center bg-studio-bg p-4 overflow-hidden">
-        {isLoading && (
+        <div className="absolute right-4 top-4 z-30 flex gap-2">
+          <button
+            type="button"
+            onClick={() => {
+              setAuditOpen((open) => !open);
+              setBulkOpen(false);
+              setHistoryOpen(false);
+            }}
+            aria-pressed={auditOpen}
+            className="rounded-lg border border-studio-border bg-studio-surface/90 px-3 py-1.5 text-xs font-medium text-studio-text backdrop-blur-sm transition-colors hover:bg-studio-elevated"
+          >
+            OG audit
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setBulkOpen((open) => !open);
+              setAuditOpen(false);
+              setHistoryOpen(false);
+            }}
+            aria-pressed={bulkOpen}
+            className="rounded-lg border border-studio-border bg-studio-surface/90 px-3 py-1.5 text-xs font-medium text-studio-text backdrop-blur-sm transition-colors hover:bg-studio-elevated"
+          >
+            Bulk OG
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setHistoryOpen((open) => !open);
+              setAuditOpen(false);
+              setBulkOpen(false);
+            }}
+            aria-pressed={historyOpen}
+            className="rounded-lg border border-studio-border bg-studio-surface/90 px-3 py-1.5 text-xs font-medium text-studio-text backdrop-blur-sm transition-colors hover:bg-studio-elevated"
+          >
+            History
+          </button>
+        </div>
+        <OgAuditPanel isOpen={auditOpen} onClose={() => setAuditOpen(false)} onGenerateFix={handleGenerateAuditFix} />
+        <OgBulkPanel
+          isOpen={bulkOpen}
+          onClose={() => setBulkOpen(false)}
+          defaultSite={{ assetBaseUrl: ogMeta.assetBaseUrl, siteName: ogMeta.siteName, themeColor: ogMeta.themeColor }}
+          onGeneratePage={handleGenerateBulkPage}
+        />
+        <HistoryPanel
+          isOpen={historyOpen}
+          onClose={() => setHistoryOpen(false)}
+          onReuse={(entry) => void handleReuseHistoryEntry(entry)}
+          refreshKey={historyRefreshKey}
+        />
+        {isLoading && comparisonResults.length === 0 && (
           <LoadingOverlay
             mode={loadingMode}
             label={selectedCreatorPreset?.shortLabel}
@@ -421,13 +1014,10 @@ export default function ImageStudio() {
         {ogPackageAssets.length > 0 && !isLoading && selectedCreatorPreset?.workflow === 'og-package' && (
           <OgPackagePreview
             assets={ogPackageAssets}
-            metaInput={{
-              url: 'https://your-domain.com',
-              title: prompt || 'Website preview',
-              description: prompt || 'Website preview image',
-              siteName: 'Your Site',
-              themeColor: '#1a1a1a',
-            }}
+            qaReports={ogPackageQaReports}
+            onRegenerateWithFixes={(reports) => handleRegenerateWithFixes(reports)}
+            metaInput={ogMeta}
+            onMetaChange={setOgMeta}
           />
         )}
         {storybookPages.length > 0 && !isLoading && selectedCreatorPreset?.workflow === 'storybook' && (
@@ -441,19 +1031,53 @@ export default function ImageStudio() {
             title={prompt || 'LinkedIn storybook'}
           />
         )}
-        {generatedImage && !isLoading && (
-          <ImagePreview
-            imageUrl={generatedImage}
-            layout={selectedCreatorPreset?.generationLayout || selectedLayout}
-            referenceDimensions={(selectedCreatorPreset?.generationLayout || selectedLayout) === 'reference' ? referenceImageDimensions : null}
-            outputDimensions={selectedCreatorPreset ? {
-              width: selectedCreatorPreset.width,
-              height: selectedCreatorPreset.height,
-              label: selectedCreatorPreset.shortLabel,
-            } : null}
+        {comparisonResults.length > 0 && !generatedImage && (
+          <ModelComparisonGrid
+            results={comparisonResults}
+            layoutLabel={selectedCreatorPreset
+              ? `${selectedCreatorPreset.shortLabel} ${selectedCreatorPreset.dimensions}`
+              : `${layoutConfig.label} ${layoutConfig.dimensions}`}
+            onUseResult={(result) => void handleUseComparisonResult(result)}
+            isApplying={isApplyingComparison}
           />
         )}
-        {!generatedImage && storybookPages.length === 0 && ogPackageAssets.length === 0 && !isLoading && (
+        {(generatedImage || variantImages.length > 1) && !isLoading && (
+          <div className="flex h-full w-full flex-col items-center justify-center gap-3">
+            <ImagePreview
+              imageUrl={generatedImage || variantImages[0]}
+              layout={selectedCreatorPreset?.generationLayout || selectedLayout}
+              referenceDimensions={(selectedCreatorPreset?.generationLayout || selectedLayout) === 'reference' ? referenceImageDimensions : null}
+              outputDimensions={selectedCreatorPreset ? {
+                width: selectedCreatorPreset.width,
+                height: selectedCreatorPreset.height,
+                label: selectedCreatorPreset.shortLabel,
+              } : null}
+              variants={variantImages}
+              selectedVariantIndex={selectedVariantIndex}
+              onSelectVariant={(index) => void handleSelectVariant(index)}
+              isSelectingVariant={isSelectingVariant}
+              onEditRegion={generatedImage && MODEL_CAPABILITIES[selectedModel].supportsMaskedEdits ? handleEditRegion : undefined}
+              cropSourceUrl={generatedImage ? cropSourceImage : null}
+              onRecrop={selectedCreatorPreset?.exportFit !== 'contain' ? handleRecrop : undefined}
+              safeZoneGuides={selectedCreatorPreset
+                ? getSafeZoneGuides(selectedCreatorPreset.id, selectedCreatorPreset.width, selectedCreatorPreset.height)
+                : []}
+            />
+            {generatedImage && (
+              <div className="w-full max-w-2xl">
+                <QaReportPanel
+                  report={qaReport}
+                  isChecking={isCheckingQa}
+                  error={qaError}
+                  onRunVisionCheck={() => void handleRunVisionCheck()}
+                  onRegenerate={qaReport ? () => handleRegenerateWithFixes([qaReport]) : undefined}
+                  isRegenerating={isLoading}
+                />
+              </div>
+            )}
+          </div>
+        )}
+        {!generatedImage && variantImages.length === 0 && comparisonResults.length === 0 && storybookPages.length === 0 && ogPackageAssets.length === 0 && !isLoading && (
           <div className="text-center">
             <div className="w-16 h-16 mx-auto mb-4 rounded-2xl bg-studio-surface border border-studio-border flex items-center justify-center">
               <svg className="w-8 h-8 text-studio-muted" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -0,0 +1,223 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+interface MaskPainterProps {
+  imageUrl: string;
+  onApply: (maskData: string, instruction: string) => void;
+  onCancel: () => void;
+  isApplying?: boolean;
+  error?: string | null;
+}
+
+type BrushMode = 'paint' | 'erase';
+
+const BRUSH_SIZES = [
+  { label: 'S', ratio: 0.02 },
+  { label: 'M', ratio: 0.05 },
+  { label: 'L', ratio: 0.1 },
+];
+
+// Exports the painted strokes as a white-on-black PNG at the image's natural size.
+function exportMask(strokes: HTMLCanvasElement): string {
+  const mask = document.createElement('canvas');
+  mask.width = strokes.width;
+  mask.height = strokes.height;
+  const ctx = mask.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+
+  ctx.drawImage(strokes, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, mask.width, mask.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, mask.width, mask.height);
+  return mask.toDataURL('image/png');
+}
+
+export default function MaskPainter({ imageUrl, onApply, onCancel, isApplying = false, error }: MaskPainterProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [brushRatio, setBrushRatio] = useState(BRUSH_SIZES[1].ratio);
+  const [mode, setMode] = useState<BrushMode>('paint');
+  const [hasMask, setHasMask] = useState(false);
+  const [instruction, setInstruction] = useState('');
+
+  useEffect(() => {
+    setHasMask(false);
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+  }, [imageUrl]);
+
+  const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const drawTo = (point: { x: number; y: number }) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const from = lastPointRef.current || point;
+    ctx.globalCompositeOperation = mode === 'erase' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = '#ef4444';
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = Math.max(4, canvas.width * brushRatio);
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+    if (mode === 'paint') setHasMask(true);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isApplying) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    lastPointRef.current = null;
+    drawTo(toCanvasPoint(event));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    drawTo(toCanvasPoint(event));
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const handleApply = () => {
+    const canvas = canvasRef.current;
+    if (!canvas || !hasMask || !instruction.trim()) return;
+    onApply(exportMask(canvas), instruction.trim());
+  };
+
+  return (
+    <div className="flex w-full max-w-4xl flex-col gap-3">
+      <div className="relative mx-auto">
+        <img
+          src={imageUrl}
+          alt="Image being edited"
+          className="max-h-[65vh] max-w-full select-none rounded-lg object-contain"
+          draggable={false}
+          onLoad={(event) => setNaturalSize({
+            width: event.currentTarget.naturalWidth,
+            height: event.currentTarget.naturalHeight,
+          })}
+        />
+        {naturalSize && (
+          <canvas
+            ref={canvasRef}
+            width={naturalSize.width}
+            height={naturalSize.height}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className={`absolute inset-0 h-full w-full touch-none rounded-lg opacity-50 ${mode === 'erase' ? 'cursor-cell' : 'cursor-crosshair'}`}
+            aria-label="Paint the region to edit"
+          />
+        )}
+      </div>
+
+      <div className="space-y-3 rounded-lg border border-studio-border bg-studio-surface p-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <div className="flex overflow-hidden rounded-md border border-studio-border">
+            {(['paint', 'erase'] as BrushMode[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMode(option)}
+                aria-pressed={mode === option}
+                className={`px-3 py-1.5 font-medium capitalize transition-colors ${
+                  mode === option ? 'bg-studio-accent text-white' : 'text-studio-muted hover:text-studio-text'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="text-studio-muted">Brush</span>
+            {BRUSH_SIZES.map((size) => (
+              <button
+                key={size.label}
+                type="button"
+                onClick={() => setBrushRatio(size.ratio)}
+                aria-pressed={brushRatio === size.ratio}
+                className={`h-7 w-7 rounded-md border font-medium transition-colors ${
+                  brushRatio === size.ratio
+                    ? 'border-studio-accent text-studio-text'
+                    : 'border-studio-border text-studio-muted hover:text-studio-text'
+                }`}
+              >
+                {size.label}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={handleClear}
+            disabled={!hasMask || isApplying}
+            className="rounded-md border border-studio-border px-3 py-1.5 font-medium text-studio-muted transition-colors hover:text-studio-text disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Clear mask
+          </button>
+        </div>
+
+        <input
+          type="text"
+          value={instruction}
+          onChange={(event) => setInstruction(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') handleApply();
+          }}
+          placeholder='Describe the change, e.g. "Fix the headline to read Q3 Results"'
+          aria-label="Edit instruction"
+          className="w-full rounded-md border border-studio-border bg-studio-bg px-3 py-2 text-sm text-studio-text placeholder:text-studio-muted focus:border-studio-accent focus:outline-none"
+        />
+
+        {error && (
+          <div className="rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-300">{error}</div>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-[11px] text-studio-muted">Only the painted region changes; everything else stays pixel-identical.</p>
+          <div className="flex shrink-0 gap-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isApplying}
+              className="rounded-md border border-studio-border px-3 py-1.5 text-xs font-semibold text-studio-muted transition-colors hover:text-studio-text disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={!hasMask || !instruction.trim() || isApplying}
+              className="rounded-md bg-studio-accent px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-studio-accent-hover disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isApplying ? 'Applying...' : 'Apply edit'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
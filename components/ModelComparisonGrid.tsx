@@ -0,0 +1,99 @@
+'use client';
+
+import { Model, MODEL_BY_VALUE } from '@/lib/modelConfig';
+
+export interface ModelComparisonResult {
+  model: Model;
+  status: 'pending' | 'done' | 'error';
+  imageUrl?: string;
+  error?: string;
+  latencyMs?: number;
+}
+
+interface ModelComparisonGridProps {
+  results: ModelComparisonResult[];
+  layoutLabel: string;
+  onUseResult: (result: ModelComparisonResult) => void;
+  isApplying?: boolean;
+}
+
+function formatLatency(latencyMs?: number) {
+  if (latencyMs === undefined) return '';
+  return latencyMs >= 1000 ? `${(latencyMs / 1000).toFixed(1)}s` : `${Math.round(latencyMs)}ms`;
+}
+
+export default function ModelComparisonGrid({ results, layoutLabel, onUseResult, isApplying = false }: ModelComparisonGridProps) {
+  const finished = results.filter((result) => result.status !== 'pending').length;
+  const fastest = results
+    .filter((result) => result.status === 'done' && result.latencyMs !== undefined)
+    .reduce<ModelComparisonResult | null>((best, result) => (!best || result.latencyMs! < best.latencyMs! ? result : best), null);
+
+  return (
+    <div className="flex h-full w-full max-w-7xl flex-col gap-3">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-studio-text">Model comparison</h2>
+          <p className="mt-1 text-xs text-studio-muted">
+            One prompt · {layoutLabel} · {finished} of {results.length} models finished
+          </p>
+        </div>
+      </div>
+
+      <div className="grid min-h-0 flex-1 grid-cols-1 gap-3 overflow-y-auto studio-scrollbar sm:grid-cols-2 xl:grid-cols-3">
+        {results.map((result) => {
+          const modelConfig = MODEL_BY_VALUE[result.model];
+
+          return (
+            <figure key={result.model} className="flex min-h-64 flex-col overflow-hidden rounded-lg border border-studio-border bg-studio-surface">
+              <figcaption className="flex items-center justify-between gap-2 border-b border-studio-border px-3 py-2">
+                <div className="min-w-0">
+                  <div className="truncate text-xs font-semibold text-studio-text">{modelConfig.label}</div>
+                  <div className="truncate text-[10px] text-studio-muted">{modelConfig.providerModel}</div>
+                </div>
+                <div className="flex shrink-0 items-center gap-1.5 text-[10px]">
+                  {fastest?.model === result.model && results.length > 1 && (
+                    <span className="rounded bg-emerald-500/15 px-1.5 py-0.5 font-medium text-emerald-300">Fastest</span>
+                  )}
+                  <span
+                    className={`rounded px-1.5 py-0.5 tabular-nums ${
+                      result.status === 'error'
+                        ? 'bg-red-500/15 text-red-300'
+                        : 'bg-studio-elevated text-studio-muted'
+                    }`}
+                  >
+                    {result.status === 'pending' ? 'Rendering…' : result.status === 'error' ? `Failed · ${formatLatency(result.latencyMs)}` : formatLatency(result.latencyMs)}
+                  </span>
+                </div>
+              </figcaption>
+
+              <div className="flex min-h-0 flex-1 items-center justify-center bg-black/20 p-2">
+                {result.status === 'pending' && (
+                  <span className="loading-pulse h-2 w-2 rounded-full bg-studio-accent" aria-label={`${modelConfig.shortLabel} rendering`} />
+                )}
+                {result.status === 'error' && (
+                  <p className="px-3 text-center text-xs leading-relaxed text-red-300">{result.error}</p>
+                )}
+                {result.status === 'done' && result.imageUrl && (
+                  <img src={result.imageUrl} alt={`${modelConfig.label} result`} className="max-h-[40vh] max-w-full rounded-md object-contain" />
+                )}
+              </div>
+
+              {result.status === 'done' && (
+                <div className="border-t border-studio-border px-3 py-2">
+                  <button
+                    type="button"
+                    onClick={() => onUseResult(result)}
+                    disabled={isApplying}
+                    className="w-full rounded-md bg-studio-accent px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-studio-accent-hover disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    Use {modelConfig.shortLabel}
+                  </button>
+                </div>
+              )}
+            </figure>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
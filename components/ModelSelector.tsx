@@ -1,37 +1,62 @@
 'use client';
 
-import { Model, OPENROUTER_IMAGE_MODELS } from '@/lib/modelConfig';
+import { Model, SELECTABLE_IMAGE_MODELS } from '@/lib/modelConfig';
 
 interface ModelSelectorProps {
   selectedModel: Model;
   onSelect: (model: Model) => void;
   disabledModels?: Partial<Record<Model, string>>;
+  compareModels?: Model[] | null;
+  onCompareToggle?: (model: Model) => void;
 }
 
-export default function ModelSelector({ selectedModel, onSelect, disabledModels = {} }: ModelSelectorProps) {
+export default function ModelSelector({
+  selectedModel,
+  onSelect,
+  disabledModels = {},
+  compareModels = null,
+  onCompareToggle,
+}: ModelSelectorProps) {
+  const isCompareMode = !!compareModels && !!onCompareToggle;
+
   return (
     <div className="space-y-2">
-      <label className="block text-sm font-medium text-studio-text">Model</label>
+      <label className="block text-sm font-medium text-studio-text">
+        {isCompareMode ? `Models to compare (${compareModels.length})` : 'Model'}
+      </label>
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-        {OPENROUTER_IMAGE_MODELS.map((model) => (
-          <button
-            key={model.value}
-            type="button"
-            onClick={() => onSelect(model.value)}
-            disabled={!!disabledModels[model.value]}
-            title={disabledModels[model.value]}
-            className={`min-h-[72px] px-3 py-2.5 rounded-lg border text-left transition-colors ${
-              selectedModel === model.value
-                ? 'bg-studio-accent/10 text-studio-accent border-studio-accent'
-                : disabledModels[model.value]
-                  ? 'cursor-not-allowed border-studio-border bg-studio-elevated text-studio-muted/40'
-                  : 'bg-studio-elevated text-studio-muted border-studio-border hover:border-studio-muted hover:text-studio-text'
-            }`}
-          >
-            <span className="block text-sm font-semibold leading-tight">{model.shortLabel}</span>
-            <span className="mt-1 block text-[10px] leading-snug opacity-75">{model.description}</span>
-          </button>
-        ))}
+        {SELECTABLE_IMAGE_MODELS.map((model) => {
+          const isSelected = isCompareMode ? compareModels.includes(model.value) : selectedModel === model.value;
+
+          return (
+            <button
+              key={model.value}
+              type="button"
+              onClick={() => (isCompareMode ? onCompareToggle(model.value) : onSelect(model.value))}
+              disabled={!!disabledModels[model.value]}
+              title={disabledModels[model.value]}
+              aria-pressed={isSelected}
+              className={`min-h-[72px] px-3 py-2.5 rounded-lg border text-left transition-colors ${
+                isSelected
+                  ? 'bg-studio-accent/10 text-studio-accent border-studio-accent'
+                  : disabledModels[model.value]
+                    ? 'cursor-not-allowed border-studio-border bg-studio-elevated text-studio-muted/40'
+                    : 'bg-studio-elevated text-studio-muted border-studio-border hover:border-studio-muted hover:text-studio-text'
+              }`}
+            >
+              <span className="flex items-center justify-between gap-2">
+                <span className="block text-sm font-semibold leading-tight">{model.shortLabel}</span>
+                {isCompareMode && (
+                  <span
+                    aria-hidden="true"
+                    className={`h-3.5 w-3.5 shrink-0 rounded-sm border ${isSelected ? 'border-studio-accent bg-studio-accent' : 'border-studio-border'}`}
+                  />
+                )}
+              </span>
+              <span className="mt-1 block text-[10px] leading-snug opacity-75">{model.description}</span>
+            </button>
+          );
+        })}
       </div>
     </div>
   );
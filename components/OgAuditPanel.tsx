@@ -0,0 +1,169 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { auditOgPage } from '@/lib/og/client';
+import { OgAuditReport, OgAuditSeverity } from '@/lib/og/types';
+
+interface OgAuditPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onGenerateFix: (report: OgAuditReport) => void;
+}
+
+const STATUS_STYLES: Record<OgAuditSeverity, string> = {
+  pass: 'border-emerald-500/30 bg-emerald-500/10 text-emerald-300',
+  warn: 'border-amber-500/30 bg-amber-500/10 text-amber-300',
+  error: 'border-red-500/30 bg-red-500/10 text-red-300',
+};
+
+const DOT_STYLES: Record<OgAuditSeverity, string> = {
+  pass: 'bg-emerald-400',
+  warn: 'bg-amber-400',
+  error: 'bg-red-400',
+};
+
+const inputClassName = 'w-full rounded-md border border-studio-border bg-studio-bg px-3 py-2 text-sm text-studio-text placeholder:text-studio-muted focus:border-studio-accent focus:outline-none';
+
+export default function OgAuditPanel({ isOpen, onClose, onGenerateFix }: OgAuditPanelProps) {
+  const [url, setUrl] = useState('');
+  const [html, setHtml] = useState('');
+  const [report, setReport] = useState<OgAuditReport | null>(null);
+  const [isAuditing, setIsAuditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleAudit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsAuditing(true);
+    setError(null);
+
+    try {
+      setReport(await auditOgPage({ url: url.trim() || undefined, html: html.trim() ? html : undefined }));
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : 'Failed to audit the page.');
+    } finally {
+      setIsAuditing(false);
+    }
+  };
+
+  const problemCount = report?.findings.filter((finding) => finding.severity !== 'pass').length || 0;
+
+  return (
+    <aside className="absolute inset-y-0 right-0 z-40 flex w-full flex-col border-l border-studio-border bg-studio-surface shadow-2xl sm:w-[28rem]">
+      <div className="flex items-center justify-between gap-3 border-b border-studio-border px-4 py-3">
+        <div>
+          <h2 className="text-sm font-semibold text-studio-text">OG audit</h2>
+          <p className="mt-0.5 text-xs text-studio-muted">Check a live page&apos;s Open Graph and X card setup.</p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-md border border-studio-border px-2 py-1 text-xs font-medium text-studio-muted transition-colors hover:border-studio-muted hover:text-studio-text"
+        >
+          Close
+        </button>
+      </div>
+
+      <form onSubmit={(event) => void handleAudit(event)} className="space-y-2 border-b border-studio-border p-3">
+        <input
+          type="url"
+          value={url}
+          onChange={(event) => setUrl(event.target.value)}
+          placeholder="https://example.com/page"
+          aria-label="Page URL"
+          className={inputClassName}
+        />
+        <textarea
+          value={html}
+          onChange={(event) => setHtml(event.target.value)}
+          rows={3}
+          placeholder="Or paste the page HTML (the URL then only resolves relative image paths)"
+          aria-label="Page HTML"
+          className={`resize-y font-mono text-xs ${inputClassName}`}
+        />
+        <button
+          type="submit"
+          disabled={isAuditing || (!url.trim() && !html.trim())}
+          className="w-full rounded-md bg-studio-accent px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-studio-accent-hover disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isAuditing ? 'Auditing...' : 'Audit tags'}
+        </button>
+      </form>
+
+      <div className="flex-1 space-y-3 overflow-y-auto studio-scrollbar p-3">
+        {error && (
+          <div className="rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-300">{error}</div>
+        )}
+        {!report && !error && (
+          <p className="px-1 py-6 text-center text-xs text-studio-muted">
+            Reports missing and duplicate tags, image sizes against the OG presets, file sizes, SVG images, and tags past Slack&apos;s 32 KB cut-off.
+          </p>
+        )}
+
+        {report && (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className={`rounded-full border px-2 py-0.5 text-[11px] font-semibold uppercase ${STATUS_STYLES[report.status]}`}>
+                  {report.status === 'pass' ? 'Pass' : `${report.status} · ${problemCount}`}
+                </span>
+                <span className="text-[11px] text-studio-muted">
+                  {report.tags.length} tags · {Math.round(report.htmlBytes / 1024)} KB HTML
+                </span>
+              </div>
+              {report.status !== 'pass' && (
+                <button
+                  type="button"
+                  onClick={() => onGenerateFix(report)}
+                  className="rounded-md bg-studio-accent px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-studio-accent-hover"
+                >
+                  Generate fixing package
+                </button>
+              )}
+            </div>
+
+            <ul className="space-y-1.5">
+              {report.findings.map((finding, index) => (
+                <li key={`${finding.id}-${index}`} className="flex items-start gap-2 text-xs">
+                  <span className={`mt-1 h-2 w-2 shrink-0 rounded-full ${DOT_STYLES[finding.severity]}`} aria-label={finding.severity} />
+                  <span className="min-w-0 break-words text-studio-muted">
+                    <span className="font-medium text-studio-text">{finding.label}:</span> {finding.detail}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            {report.images.some((image) => image.width) && (
+              <div className="grid grid-cols-2 gap-2">
+                {report.images.filter((image) => image.width).map((image, index) => (
+                  <figure key={`${image.tag}-${index}`} className="overflow-hidden rounded-lg border border-studio-border bg-studio-bg">
+                    <img src={image.url} alt="" loading="lazy" className="aspect-[1.91/1] w-full bg-black/20 object-contain" />
+                    <figcaption className="px-2 py-1 text-[10px] text-studio-muted">
+                      {image.tag} · {image.width}x{image.height}
+                    </figcaption>
+                  </figure>
+                ))}
+              </div>
+            )}
+
+            {report.tags.length > 0 && (
+              <details className="rounded-md border border-studio-border px-3 py-2">
+                <summary className="cursor-pointer text-xs font-medium text-studio-muted">Tags found</summary>
+                <dl className="mt-2 space-y-1 text-[11px]">
+                  {report.tags.map((tag, index) => (
+                    <div key={`${tag.key}-${index}`} className="grid grid-cols-[9rem_minmax(0,1fr)] gap-2">
+                      <dt className="truncate font-mono text-studio-text">{tag.key}</dt>
+                      <dd className="break-words text-studio-muted">{tag.content || '(empty)'}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </details>
+            )}
+          </>
+        )}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,405 @@
+'use client';
+
+import { ChangeEvent, FormEvent, useEffect, useRef, useState } from 'react';
+import { downloadOgBulkBundle, extractOgBulkEntries } from '@/lib/og/client';
+import { OgBulkEntry, OgBulkMode, OgBulkSiteMeta, OgBulkSource, OgBulkSourceFile } from '@/lib/og/types';
+
+export interface OgBulkRunOptions {
+  mode: OgBulkMode;
+  // Shared art direction prepended to every page's title and description.
+  artDirection: string;
+  // Sets each page title with real fonts instead of asking the model to draw it.
+  setTitles: boolean;
+}
+
+type OgBulkRowStatus = 'pending' | 'running' | 'done' | 'error';
+
+interface OgBulkRow extends OgBulkEntry {
+  status: OgBulkRowStatus;
+  historyId?: string;
+  progress?: string;
+  error?: string;
+}
+
+interface OgBulkPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  defaultSite: OgBulkSiteMeta;
+  // Renders and saves one page, resolving to the history entry id the bundle is built from.
+  onGeneratePage: (entry: OgBulkEntry, options: OgBulkRunOptions, onProgress: (label: string) => void) => Promise<string>;
+}
+
+const SOURCES: { id: OgBulkSource; label: string }[] = [
+  { id: 'sitemap', label: 'Sitemap' },
+  { id: 'csv', label: 'CSV' },
+  { id: 'markdown', label: 'Markdown folder' },
+];
+
+const STATUS_STYLES: Record<OgBulkRowStatus, string> = {
+  pending: 'text-studio-muted',
+  running: 'text-studio-accent',
+  done: 'text-emerald-300',
+  error: 'text-red-300',
+};
+
+const MARKDOWN_FILE_PATTERN = /\.(md|mdx|markdown)$/i;
+
+const inputClassName = 'w-full rounded-md border border-studio-border bg-studio-bg px-3 py-2 text-sm text-studio-text placeholder:text-studio-muted focus:border-studio-accent focus:outline-none';
+const cellInputClassName = 'w-full rounded border border-transparent bg-transparent px-1 py-0.5 text-[11px] text-studio-text hover:border-studio-border focus:border-studio-accent focus:outline-none disabled:hover:border-transparent';
+
+async function readMarkdownFiles(fileList: FileList): Promise<OgBulkSourceFile[]> {
+  const files = Array.from(fileList).filter((file) => MARKDOWN_FILE_PATTERN.test(file.name));
+  return Promise.all(files.map(async (file) => ({
+    // Drop the picked folder's own name so paths are relative to the content root.
+    path: (file.webkitRelativePath || file.name).split('/').slice(file.webkitRelativePath ? 1 : 0).join('/'),
+    content: await file.text(),
+  })));
+}
+
+export default function OgBulkPanel({ isOpen, onClose, defaultSite, onGeneratePage }: OgBulkPanelProps) {
+  const [source, setSource] = useState<OgBulkSource>('sitemap');
+  const [sourceUrl, setSourceUrl] = useState('');
+  const [sourceText, setSourceText] = useState('');
+  const [sourceFiles, setSourceFiles] = useState<OgBulkSourceFile[]>([]);
+  const [site, setSite] = useState<OgBulkSiteMeta>(defaultSite);
+  const [options, setOptions] = useState<OgBulkRunOptions>({ mode: 'master', artDirection: '', setTitles: true });
+  const [rows, setRows] = useState<OgBulkRow[]>([]);
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [isLoadingSource, setIsLoadingSource] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isBundling, setIsBundling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stopRequestedRef = useRef(false);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // React does not type webkitdirectory, so it is set on the element directly.
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [isOpen, source]);
+
+  if (!isOpen) return null;
+
+  const updateRow = (slug: string, patch: Partial<OgBulkRow>) => {
+    setRows((current) => current.map((row) => (row.slug === slug ? { ...row, ...patch } : row)));
+  };
+
+  const handleLoadSource = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsLoadingSource(true);
+    setError(null);
+
+    try {
+      const result = await extractOgBulkEntries({
+        source,
+        url: sourceUrl.trim() || undefined,
+        text: source === 'markdown' ? undefined : sourceText,
+        files: source === 'markdown' ? sourceFiles : undefined,
+      });
+      setRows(result.entries.map((entry) => ({ ...entry, status: 'pending' })));
+      setSkipped(result.skipped);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the source.');
+    } finally {
+      setIsLoadingSource(false);
+    }
+  };
+
+  const handleFolderChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    if (!event.target.files) return;
+    setSourceFiles(await readMarkdownFiles(event.target.files));
+  };
+
+  const handleCsvFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) setSourceText(await file.text());
+  };
+
+  // Pages run one at a time so a 200-page site stays within provider rate limits; a failed page never stops the run.
+  const runPages = async (queue: OgBulkRow[]) => {
+    stopRequestedRef.current = false;
+    setIsRunning(true);
+    setError(null);
+
+    for (const row of queue) {
+      if (stopRequestedRef.current) break;
+      updateRow(row.slug, { status: 'running', error: undefined, progress: 'Rendering master' });
+      try {
+        const historyId = await onGeneratePage(row, options, (progress) => updateRow(row.slug, { progress }));
+        updateRow(row.slug, { status: 'done', historyId, progress: undefined });
+      } catch (err) {
+        updateRow(row.slug, {
+          status: 'error',
+          progress: undefined,
+          error: err instanceof Error ? err.message : 'Generation failed.',
+        });
+      }
+    }
+
+    setIsRunning(false);
+  };
+
+  const handleDownloadBundle = async () => {
+    setIsBundling(true);
+    setError(null);
+
+    try {
+      const pages = rows
+        .filter((row) => row.status === 'done' && row.historyId)
+        .map(({ slug, url, title, description, historyId }) => ({ slug, url, title, description, historyId: historyId as string }));
+      const blob = await downloadOgBulkBundle(site, pages);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'og-bulk.zip';
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export the bulk bundle.');
+    } finally {
+      setIsBundling(false);
+    }
+  };
+
+  const doneCount = rows.filter((row) => row.status === 'done').length;
+  const failedRows = rows.filter((row) => row.status === 'error');
+  const pendingRows = rows.filter((row) => row.status === 'pending');
+  const canLoad = source === 'markdown' ? sourceFiles.length > 0 : Boolean(sourceText.trim() || (source === 'sitemap' && sourceUrl.trim()));
+
+  return (
+    <aside className="absolute inset-y-0 right-0 z-40 flex w-full flex-col border-l border-studio-border bg-studio-surface shadow-2xl sm:w-[40rem]">
+      <div className="flex items-center justify-between gap-3 border-b border-studio-border px-4 py-3">
+        <div>
+          <h2 className="text-sm font-semibold text-studio-text">Bulk OG images</h2>
+          <p className="mt-0.5 text-xs text-studio-muted">Render social previews for every page of a site in one run.</p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-md border border-studio-border px-2 py-1 text-xs font-medium text-studio-muted transition-colors hover:border-studio-muted hover:text-studio-text"
+        >
+          Close
+        </button>
+      </div>
+
+      <form onSubmit={(event) => void handleLoadSource(event)} className="space-y-2 border-b border-studio-border p-3">
+        <div className="flex gap-1" role="tablist" aria-label="Source">
+          {SOURCES.map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              role="tab"
+              aria-selected={source === option.id}
+              onClick={() => setSource(option.id)}
+              disabled={isRunning}
+              className={`rounded-md px-3 py-1 text-xs font-medium transition-colors ${
+                source === option.id ? 'bg-studio-elevated text-studio-text' : 'text-studio-muted hover:text-studio-text'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <input
+          type="url"
+          value={sourceUrl}
+          onChange={(event) => setSourceUrl(event.target.value)}
+          placeholder={source === 'sitemap' ? 'https://example.com/sitemap.xml' : 'Site URL, e.g. https://docs.example.com/'}
+          aria-label={source === 'sitemap' ? 'Sitemap URL' : 'Site URL'}
+          className={inputClassName}
+        />
+        {source === 'markdown' ? (
+          <label className="block rounded-md border border-dashed border-studio-border px-3 py-3 text-center text-xs text-studio-muted hover:border-studio-muted">
+            <input ref={folderInputRef} type="file" multiple onChange={(event) => void handleFolderChange(event)} className="sr-only" />
+            {sourceFiles.length > 0
+              ? `${sourceFiles.length} Markdown file${sourceFiles.length === 1 ? '' : 's'} selected`
+              : 'Choose a content folder (front matter title, description, slug, or permalink)'}
+          </label>
+        ) : (
+          <>
+            <textarea
+              value={sourceText}
+              onChange={(event) => setSourceText(event.target.value)}
+              rows={3}
+              placeholder={source === 'sitemap'
+                ? 'Or paste the sitemap XML'
+                : 'url,title,description\nhttps://example.com/pricing,Pricing,Plans for every team'}
+              aria-label={source === 'sitemap' ? 'Sitemap XML' : 'CSV'}
+              className={`resize-y font-mono text-xs ${inputClassName}`}
+            />
+            {source === 'csv' && (
+              <input type="file" accept=".csv,text/csv" onChange={(event) => void handleCsvFileChange(event)} className="text-xs text-studio-muted" />
+            )}
+          </>
+        )}
+        <button
+          type="submit"
+          disabled={isLoadingSource || isRunning || !canLoad}
+          className="w-full rounded-md border border-studio-border px-3 py-1.5 text-xs font-semibold text-studio-text transition-colors hover:bg-studio-elevated disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isLoadingSource ? (source === 'sitemap' ? 'Reading pages...' : 'Reading...') : 'Load pages'}
+        </button>
+      </form>
+
+      <div className="grid grid-cols-2 gap-2 border-b border-studio-border p-3">
+        <input
+          type="text"
+          value={site.assetBaseUrl}
+          onChange={(event) => setSite({ ...site, assetBaseUrl: event.target.value })}
+          placeholder="Image location, e.g. /og"
+          aria-label="Image location"
+          className={inputClassName}
+        />
+        <input
+          type="text"
+          value={site.siteName}
+          onChange={(event) => setSite({ ...site, siteName: event.target.value })}
+          placeholder="Site name"
+          aria-label="Site name"
+          className={inputClassName}
+        />
+        <select
+          value={options.mode}
+          onChange={(event) => setOptions({ ...options, mode: event.target.value as OgBulkMode })}
+          disabled={isRunning}
+          aria-label="Exports per page"
+          className={inputClassName}
+        >
+          <option value="master">Universal 1200x630 only</option>
+          <option value="package">Full OG package per page</option>
+        </select>
+        <label className="flex items-center gap-2 text-xs text-studio-muted">
+          <input
+            type="checkbox"
+            checked={options.setTitles}
+            onChange={(event) => setOptions({ ...options, setTitles: event.target.checked })}
+            disabled={isRunning}
+          />
+          Set titles with real fonts
+        </label>
+        <textarea
+          value={options.artDirection}
+          onChange={(event) => setOptions({ ...options, artDirection: event.target.value })}
+          rows={2}
+          disabled={isRunning}
+          placeholder="Shared art direction, e.g. calm blue gradients with line-art product diagrams"
+          aria-label="Shared art direction"
+          className={`col-span-2 resize-y ${inputClassName}`}
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto studio-scrollbar p-3">
+        {error && (
+          <div className="mb-3 rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-300">{error}</div>
+        )}
+        {rows.length === 0 && !error && (
+          <p className="px-1 py-6 text-center text-xs text-studio-muted">
+            Load a sitemap, a CSV with url, title, and description columns, or a folder of Markdown files to list the pages.
+          </p>
+        )}
+
+        {rows.length > 0 && (
+          <>
+            <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+              <span className="text-[11px] text-studio-muted">
+                {doneCount} of {rows.length} done{failedRows.length > 0 ? ` · ${failedRows.length} failed` : ''}
+              </span>
+              <div className="flex gap-2">
+                {isRunning ? (
+                  <button
+                    type="button"
+                    onClick={() => { stopRequestedRef.current = true; }}
+                    className="rounded-md border border-studio-border px-3 py-1.5 text-xs font-semibold text-studio-text transition-colors hover:bg-studio-elevated"
+                  >
+                    Stop after this page
+                  </button>
+                ) : (
+                  <>
+                    {failedRows.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => void runPages(failedRows)}
+                        className="rounded-md border border-studio-border px-3 py-1.5 text-xs font-semibold text-studio-text transition-colors hover:bg-studio-elevated"
+                      >
+                        Retry failed
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => void runPages(pendingRows)}
+                      disabled={pendingRows.length === 0}
+                      className="rounded-md bg-studio-accent px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-studio-accent-hover disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {doneCount > 0 ? `Continue (${pendingRows.length})` : `Generate ${pendingRows.length} pages`}
+                    </button>
+                  </>
+                )}
+                <button
+                  type="button"
+                  onClick={() => void handleDownloadBundle()}
+                  disabled={doneCount === 0 || isBundling}
+                  title="One folder per slug with its images and meta.html, plus manifest.json"
+                  className="rounded-md border border-studio-accent px-3 py-1.5 text-xs font-semibold text-studio-text transition-colors hover:bg-studio-accent/10 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {isBundling ? 'Bundling...' : 'Download bundle (.zip)'}
+                </button>
+              </div>
+            </div>
+            <div className="mb-3 h-1 overflow-hidden rounded-full bg-studio-bg">
+              <div className="h-full bg-studio-accent transition-all" style={{ width: `${(doneCount / rows.length) * 100}%` }} />
+            </div>
+
+            <ul className="divide-y divide-studio-border rounded-lg border border-studio-border">
+              {rows.map((row) => (
+                <li key={row.slug} className="grid grid-cols-[minmax(0,1fr)_6.5rem] gap-2 px-2 py-1.5">
+                  <div className="min-w-0">
+                    <p className="truncate font-mono text-[10px] text-studio-muted" title={row.url}>{row.slug}</p>
+                    <input
+                      value={row.title}
+                      onChange={(event) => updateRow(row.slug, { title: event.target.value })}
+                      disabled={row.status === 'running'}
+                      aria-label={`Title for ${row.slug}`}
+                      className={`font-medium ${cellInputClassName}`}
+                    />
+                    <input
+                      value={row.description}
+                      onChange={(event) => updateRow(row.slug, { description: event.target.value })}
+                      disabled={row.status === 'running'}
+                      placeholder="Add a description (required for the meta tags)"
+                      aria-label={`Description for ${row.slug}`}
+                      className={`text-studio-muted ${cellInputClassName}`}
+                    />
+                    {row.error && <p className="px-1 text-[10px] text-red-300">{row.error}</p>}
+                  </div>
+                  <div className="flex flex-col items-end gap-1 text-[10px]">
+                    <span className={`font-semibold uppercase ${STATUS_STYLES[row.status]}`}>{row.status}</span>
+                    {row.progress && <span className="text-right text-studio-muted">{row.progress}</span>}
+                    {row.status === 'error' && !isRunning && (
+                      <button
+                        type="button"
+                        onClick={() => void runPages([row])}
+                        className="rounded border border-studio-border px-2 py-0.5 font-medium text-studio-text hover:bg-studio-elevated"
+                      >
+                        Retry
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {skipped.length > 0 && (
+              <details className="mt-3 rounded-md border border-studio-border px-3 py-2">
+                <summary className="cursor-pointer text-xs font-medium text-studio-muted">{skipped.length} skipped</summary>
+                <ul className="mt-2 space-y-1 text-[11px] text-studio-muted">
+                  {skipped.map((reason, index) => <li key={index} className="break-words">{reason}</li>)}
+                </ul>
+              </details>
+            )}
+          </>
+        )}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { HEX_COLOR_PATTERN } from '@/lib/brandKits/prompt';
+import { OgMetaField, OgMetaIssue, OgPackageMeta } from '@/lib/og/types';
+
+interface OgMetaFormProps {
+  value: OgPackageMeta;
+  onChange: (value: OgPackageMeta) => void;
+  images: { presetId: string; shortLabel: string; filename: string }[];
+  issues: OgMetaIssue[];
+}
+
+const inputClassName = 'w-full rounded-md border border-studio-border bg-studio-bg px-3 py-2 text-sm text-studio-text placeholder:text-studio-muted focus:border-studio-accent focus:outline-none';
+
+function FieldIssues({ issues }: { issues: OgMetaIssue[] }) {
+  if (issues.length === 0) return null;
+
+  return (
+    <ul className="mt-1 space-y-0.5">
+      {issues.map((issue) => (
+        <li key={issue.message} className={`text-[11px] ${issue.severity === 'error' ? 'text-red-300' : 'text-amber-300'}`}>
+          {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function OgMetaForm({ value, onChange, images, issues }: OgMetaFormProps) {
+  const update = (changes: Partial<OgPackageMeta>) => onChange({ ...value, ...changes });
+  const issuesFor = (field: OgMetaField, presetId?: string) => issues.filter((issue) => (
+    issue.field === field && (!presetId || issue.presetId === presetId)
+  ));
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="block text-xs font-medium text-studio-muted">
+          Canonical URL
+          <input
+            type="url"
+            value={value.url}
+            onChange={(event) => update({ url: event.target.value })}
+            placeholder="https://example.com/launch"
+            className={`mt-1 ${inputClassName}`}
+          />
+          <FieldIssues issues={issuesFor('url')} />
+        </label>
+        <label className="block text-xs font-medium text-studio-muted">
+          Image location
+          <input
+            type="text"
+            value={value.assetBaseUrl}
+            onChange={(event) => update({ assetBaseUrl: event.target.value })}
+            placeholder="/og or https://cdn.example.com/og"
+            className={`mt-1 ${inputClassName}`}
+          />
+          <FieldIssues issues={issuesFor('assetBaseUrl')} />
+        </label>
+      </div>
+
+      <label className="block text-xs font-medium text-studio-muted">
+        <span className="flex justify-between"><span>Title</span><span>{value.title.trim().length}</span></span>
+        <input
+          type="text"
+          value={value.title}
+          onChange={(event) => update({ title: event.target.value })}
+          placeholder="What the page is about"
+          className={`mt-1 ${inputClassName}`}
+        />
+        <FieldIssues issues={issuesFor('title')} />
+      </label>
+
+      <label className="block text-xs font-medium text-studio-muted">
+        <span className="flex justify-between"><span>Description</span><span>{value.description.trim().length}</span></span>
+        <textarea
+          value={value.description}
+          onChange={(event) => update({ description: event.target.value })}
+          rows={2}
+          placeholder="One or two sentences shown under the title"
+          className={`mt-1 resize-none ${inputClassName}`}
+        />
+        <FieldIssues issues={issuesFor('description')} />
+      </label>
+
+      <div className="grid gap-3 sm:grid-cols-[minmax(0,1fr)_160px]">
+        <label className="block text-xs font-medium text-studio-muted">
+          Site name
+          <input
+            type="text"
+            value={value.siteName}
+            onChange={(event) => update({ siteName: event.target.value })}
+            placeholder="Example"
+            className={`mt-1 ${inputClassName}`}
+          />
+          <FieldIssues issues={issuesFor('siteName')} />
+        </label>
+        <label className="block text-xs font-medium text-studio-muted">
+          Theme colour
+          <div className="mt-1 flex gap-2">
+            <input
+              type="color"
+              value={HEX_COLOR_PATTERN.test(value.themeColor) ? value.themeColor : '#000000'}
+              onChange={(event) => update({ themeColor: event.target.value })}
+              aria-label="Pick theme colour"
+              className="h-9 w-9 shrink-0 cursor-pointer rounded-md border border-studio-border bg-studio-bg"
+            />
+            <input
+              type="text"
+              value={value.themeColor}
+              onChange={(event) => update({ themeColor: event.target.value })}
+              placeholder="#1a1a1a"
+              className={inputClassName}
+            />
+          </div>
+          <FieldIssues issues={issuesFor('themeColor')} />
+        </label>
+      </div>
+
+      <details className="rounded-md border border-studio-border px-3 py-2">
+        <summary className="cursor-pointer text-xs font-medium text-studio-muted">Alt text per image</summary>
+        <div className="mt-2 space-y-2">
+          {images.map((image) => (
+            <label key={image.presetId} className="block text-[11px] text-studio-muted">
+              {image.shortLabel} · {image.filename}
+              <input
+                type="text"
+                value={value.imageAlts[image.presetId] || ''}
+                onChange={(event) => update({ imageAlts: { ...value.imageAlts, [image.presetId]: event.target.value } })}
+                placeholder="Defaults to the title"
+                className={`mt-1 ${inputClassName}`}
+              />
+              <FieldIssues issues={issuesFor('imageAlts', image.presetId)} />
+            </label>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+}
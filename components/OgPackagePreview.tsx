@@ -1,8 +1,17 @@
 'use client';
 
 import { useMemo, useState } from 'react';
-import { renderOgMetaHtml } from '@/lib/og/meta';
-import { OgPlatform } from '@/lib/og/types';
+import { OG_META_EXPORT_TARGETS, OgMetaExportTarget, renderOgMetaExport } from '@/lib/og/exporters';
+import { buildOgPackageMetaInput, validateOgPackageMeta } from '@/lib/og/meta';
+import { OgPackageMeta, OgPlatform } from '@/lib/og/types';
+import { QaReport } from '@/lib/qa/types';
+import { getSafeZoneGuides } from '@/lib/safeZones';
+import OgMetaForm from './OgMetaForm';
+import QaReportPanel from './QaReportPanel';
+import SafeZoneOverlay, { SafeZoneLegend } from './SafeZoneOverlay';
+import UnfurlMockups from './UnfurlMockups';
+
+type PackageView = 'assets' | 'mockups';
 
 export interface OgPackageAsset {
   presetId: string;
@@ -18,13 +27,10 @@ export interface OgPackageAsset {
 
 interface OgPackagePreviewProps {
   assets: OgPackageAsset[];
-  metaInput: {
-    url: string;
-    title: string;
-    description: string;
-    siteName: string;
-    themeColor?: string;
-  };
+  metaInput: OgPackageMeta;
+  onMetaChange: (metaInput: OgPackageMeta) => void;
+  qaReports?: Record<string, QaReport>;
+  onRegenerateWithFixes?: (reports: QaReport[]) => void;
 }
 
 function dataUriToBlobUrl(dataUri: string): string {
@@ -38,31 +44,46 @@ function dataUriToBlobUrl(dataUri: string): string {
   return URL.createObjectURL(new Blob([bytes], { type: mimeType }));
 }
 
-export default function OgPackagePreview({ assets, metaInput }: OgPackagePreviewProps) {
+export default function OgPackagePreview({
+  assets,
+  metaInput,
+  onMetaChange,
+  qaReports = {},
+  onRegenerateWithFixes,
+}: OgPackagePreviewProps) {
   const [activeIndex, setActiveIndex] = useState(0);
   const [copied, setCopied] = useState(false);
+  const [view, setView] = useState<PackageView>('assets');
+  const [showSafeZones, setShowSafeZones] = useState(false);
+  const [hiddenGuideIds, setHiddenGuideIds] = useState<string[]>([]);
+  const [isBundling, setIsBundling] = useState(false);
+  const [exportTarget, setExportTarget] = useState<OgMetaExportTarget>('html');
+  const [bundleError, setBundleError] = useState<string | null>(null);
   const activeAsset = assets[activeIndex] || assets[0];
 
-  const metaHtml = useMemo(() => renderOgMetaHtml({
-    ...metaInput,
-    images: assets.map((asset) => ({
-      url: `https://your-domain.com/og/${asset.filename}`,
-      width: asset.width,
-      height: asset.height,
-      alt: metaInput.title,
-      platform: asset.platform,
-      presetId: asset.presetId,
-    })),
-    twitterImage: assets.find((asset) => asset.presetId === 'og-twitter-large')
-      ? `https://your-domain.com/og/${assets.find((asset) => asset.presetId === 'og-twitter-large')!.filename}`
-      : undefined,
-  }), [assets, metaInput]);
+  const metaExport = useMemo(
+    () => renderOgMetaExport(exportTarget, buildOgPackageMetaInput(metaInput, assets)),
+    [assets, exportTarget, metaInput]
+  );
+  const exportTargetConfig = OG_META_EXPORT_TARGETS.find((target) => target.id === exportTarget) || OG_META_EXPORT_TARGETS[0];
+  const metaIssues = useMemo(() => validateOgPackageMeta(metaInput, assets), [assets, metaInput]);
+  const metaErrorCount = metaIssues.filter((issue) => issue.severity === 'error').length;
 
   if (!activeAsset) return null;
 
+  const activeQaReport = qaReports[activeAsset.presetId] || null;
+  const warnedReports = Object.values(qaReports).filter((report) => report.status === 'warn');
+  const safeZoneGuides = getSafeZoneGuides(activeAsset.presetId, activeAsset.width, activeAsset.height);
+
+  const handleToggleGuide = (id: string) => {
+    setHiddenGuideIds((current) => (
+      current.includes(id) ? current.filter((guideId) => guideId !== id) : [...current, id]
+    ));
+  };
+
   const handleCopyMeta = async () => {
     try {
-      await navigator.clipboard.writeText(metaHtml);
+      await navigator.clipboard.writeText(metaExport);
       setCopied(true);
       window.setTimeout(() => setCopied(false), 2000);
     } catch {
@@ -70,6 +91,41 @@ export default function OgPackagePreview({ assets, metaInput }: OgPackagePreview
     }
   };
 
+  const handleDownloadBundle = async () => {
+    setIsBundling(true);
+    setBundleError(null);
+
+    try {
+      const response = await fetch('/api/export-bundle', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          meta: metaInput,
+          assets: assets.map((asset) => ({ presetId: asset.presetId, imageData: asset.imageUrl })),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to export bundle.');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'og-package.zip';
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setBundleError(error instanceof Error ? error.message : 'Failed to export bundle.');
+    } finally {
+      setIsBundling(false);
+    }
+  };
+
   const handleDownload = (asset: OgPackageAsset) => {
     const blobUrl = dataUriToBlobUrl(asset.imageUrl);
     const link = document.createElement('a');
@@ -90,66 +146,161 @@ export default function OgPackagePreview({ assets, metaInput }: OgPackagePreview
             {assets.length} platform exports with matching Open Graph and Twitter meta tags.
           </p>
         </div>
-        <button
-          type="button"
-          onClick={handleCopyMeta}
-          className="rounded-lg border border-studio-border bg-studio-surface px-4 py-2 text-sm font-medium text-studio-text transition-colors hover:bg-studio-elevated"
-        >
-          {copied ? 'Meta tags copied' : 'Copy meta tags'}
-        </button>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex overflow-hidden rounded-lg border border-studio-border text-sm">
+            {([['assets', 'Exports'], ['mockups', 'Unfurl mockups']] as [PackageView, string][]).map(([option, label]) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                aria-pressed={view === option}
+                className={`px-3 py-2 font-medium transition-colors ${
+                  view === option ? 'bg-studio-accent text-white' : 'bg-studio-surface text-studio-muted hover:text-studio-text'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={handleCopyMeta}
+            disabled={metaErrorCount > 0}
+            title={metaErrorCount > 0 ? 'Fix the metadata errors first' : undefined}
+            className="rounded-lg border border-studio-border bg-studio-surface px-4 py-2 text-sm font-medium text-studio-text transition-colors hover:bg-studio-elevated disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {copied ? 'Metadata copied' : metaErrorCount > 0 ? `Fix ${metaErrorCount} metadata error${metaErrorCount === 1 ? '' : 's'}` : `Copy ${exportTargetConfig.label}`}
+          </button>
+          <button
+            type="button"
+            onClick={handleDownloadBundle}
+            disabled={metaErrorCount > 0 || isBundling}
+            title={metaErrorCount > 0 ? 'Fix the metadata errors first' : 'Images, meta.html, manifest.json, and upload notes'}
+            className="rounded-lg bg-studio-accent px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-studio-accent-hover disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isBundling ? 'Bundling...' : 'Download bundle (.zip)'}
+          </button>
+        </div>
       </div>
 
-      <div className="grid min-h-0 flex-1 gap-4 lg:grid-cols-[220px_minmax(0,1fr)]">
-        <div className="space-y-2 overflow-y-auto studio-scrollbar pr-1">
-          {assets.map((asset, index) => (
-            <button
-              key={asset.presetId}
-              type="button"
-              onClick={() => setActiveIndex(index)}
-              className={`w-full rounded-lg border px-3 py-2 text-left transition-colors ${
-                activeIndex === index
-                  ? 'border-studio-accent bg-studio-accent/10 text-studio-accent'
-                  : 'border-studio-border bg-studio-surface text-studio-muted hover:border-studio-muted hover:text-studio-text'
-              }`}
-            >
-              <div className="text-xs font-semibold text-current">{asset.shortLabel}</div>
-              <div className="mt-0.5 text-[10px] opacity-75">{asset.dimensions}</div>
-            </button>
-          ))}
+      {bundleError && (
+        <div className="rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-300">
+          {bundleError}
         </div>
+      )}
 
-        <div className="flex min-h-0 flex-col gap-4">
-          <div className="relative flex flex-1 items-center justify-center rounded-xl border border-studio-border bg-studio-surface p-4">
-            <div className="absolute left-4 top-4 rounded-full border border-studio-border bg-studio-bg/90 px-3 py-1 text-xs font-medium text-studio-text">
-              {activeAsset.shortLabel} · {activeAsset.dimensions}
-            </div>
-            <img
-              src={activeAsset.imageUrl}
-              alt={activeAsset.label}
-              className="max-h-[55vh] max-w-full rounded-lg object-contain"
-            />
-            <div className="absolute bottom-4 left-1/2 flex -translate-x-1/2 gap-2">
+      {view === 'mockups' && (
+        <div className="min-h-0 flex-1 overflow-y-auto studio-scrollbar pr-1">
+          <UnfurlMockups assets={assets} metaInput={metaInput} />
+        </div>
+      )}
+
+      {view === 'assets' && (
+        <div className="grid min-h-0 flex-1 gap-4 lg:grid-cols-[220px_minmax(0,1fr)]">
+          <div className="space-y-2 overflow-y-auto studio-scrollbar pr-1">
+            {assets.map((asset, index) => (
               <button
+                key={asset.presetId}
                 type="button"
-                onClick={() => handleDownload(activeAsset)}
-                className="rounded-lg border border-studio-border bg-studio-bg/90 px-4 py-2 text-sm font-medium text-studio-text backdrop-blur-sm transition-colors hover:bg-studio-elevated"
+                onClick={() => setActiveIndex(index)}
+                className={`w-full rounded-lg border px-3 py-2 text-left transition-colors ${
+                  activeIndex === index
+                    ? 'border-studio-accent bg-studio-accent/10 text-studio-accent'
+                    : 'border-studio-border bg-studio-surface text-studio-muted hover:border-studio-muted hover:text-studio-text'
+                }`}
               >
-                Download {activeAsset.filename}
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs font-semibold text-current">{asset.shortLabel}</span>
+                  {qaReports[asset.presetId] && (
+                    <span
+                      className={`h-2 w-2 rounded-full ${qaReports[asset.presetId].status === 'pass' ? 'bg-emerald-400' : 'bg-amber-400'}`}
+                      aria-label={`Quality check ${qaReports[asset.presetId].status}`}
+                    />
+                  )}
+                </div>
+                <div className="mt-0.5 text-[10px] opacity-75">{asset.dimensions}</div>
               </button>
-            </div>
+            ))}
           </div>
 
-          <div className="rounded-xl border border-studio-border bg-studio-surface p-4">
-            <div className="mb-2 text-sm font-semibold text-studio-text">Embed meta tags</div>
-            <p className="mb-3 text-xs leading-relaxed text-studio-muted">
-              Place these tags in the first 32 KB of your page head. Replace `your-domain.com` with your production CDN or site URL.
-            </p>
-            <pre className="max-h-48 overflow-auto rounded-lg border border-studio-border bg-studio-bg p-3 text-[11px] leading-relaxed text-studio-muted">
-              {metaHtml}
-            </pre>
+          <div className="flex min-h-0 flex-col gap-4">
+            <div className="relative flex flex-1 items-center justify-center rounded-xl border border-studio-border bg-studio-surface p-4">
+              <div className="absolute left-4 top-4 rounded-full border border-studio-border bg-studio-bg/90 px-3 py-1 text-xs font-medium text-studio-text">
+                {activeAsset.shortLabel} · {activeAsset.dimensions}
+              </div>
+              {safeZoneGuides.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setShowSafeZones((visible) => !visible)}
+                  aria-pressed={showSafeZones}
+                  className={`absolute right-4 top-4 z-10 rounded-full border px-3 py-1 text-xs font-medium transition-colors ${
+                    showSafeZones
+                      ? 'border-studio-accent bg-studio-accent/20 text-studio-text'
+                      : 'border-studio-border bg-studio-bg/90 text-studio-muted hover:text-studio-text'
+                  }`}
+                >
+                  Safe zones
+                </button>
+              )}
+              <div className="relative w-fit max-w-full">
+                <img
+                  src={activeAsset.imageUrl}
+                  alt={activeAsset.label}
+                  className="max-h-[55vh] max-w-full rounded-lg object-contain"
+                />
+                {showSafeZones && (
+                  <SafeZoneOverlay
+                    guides={safeZoneGuides}
+                    width={activeAsset.width}
+                    height={activeAsset.height}
+                    hiddenGuideIds={hiddenGuideIds}
+                  />
+                )}
+              </div>
+              <div className="absolute bottom-4 left-1/2 flex -translate-x-1/2 gap-2">
+                <button
+                  type="button"
+                  onClick={() => handleDownload(activeAsset)}
+                  className="rounded-lg border border-studio-border bg-studio-bg/90 px-4 py-2 text-sm font-medium text-studio-text backdrop-blur-sm transition-colors hover:bg-studio-elevated"
+                >
+                  Download {activeAsset.filename}
+                </button>
+              </div>
+            </div>
+
+            {showSafeZones && (
+              <SafeZoneLegend guides={safeZoneGuides} hiddenGuideIds={hiddenGuideIds} onToggleGuide={handleToggleGuide} />
+            )}
+
+            <QaReportPanel
+              report={activeQaReport}
+              isChecking={!activeQaReport}
+              onRegenerate={onRegenerateWithFixes && warnedReports.length > 0 ? () => onRegenerateWithFixes(warnedReports) : undefined}
+            />
+
+            <div className="rounded-xl border border-studio-border bg-studio-surface p-4">
+              <div className="mb-2 text-sm font-semibold text-studio-text">Embed meta tags</div>
+              <OgMetaForm value={metaInput} onChange={onMetaChange} images={assets} issues={metaIssues} />
+              <select
+                value={exportTarget}
+                onChange={(event) => setExportTarget(event.target.value as OgMetaExportTarget)}
+                aria-label="Metadata export format"
+                className="mt-4 w-full rounded-md border border-studio-border bg-studio-elevated px-3 py-2 text-sm text-studio-text focus:border-studio-accent focus:outline-none"
+              >
+                {OG_META_EXPORT_TARGETS.map((target) => (
+                  <option key={target.id} value={target.id}>{target.label}</option>
+                ))}
+              </select>
+              <p className="mb-3 mt-2 text-xs leading-relaxed text-studio-muted">
+                Upload the exports to the image location. Where this goes: {exportTargetConfig.destination}.
+              </p>
+              <pre className="max-h-48 overflow-auto rounded-lg border border-studio-border bg-studio-bg p-3 text-[11px] leading-relaxed text-studio-muted">
+                {metaExport}
+              </pre>
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,88 @@
+'use client';
+
+import { QaReport } from '@/lib/qa/types';
+
+interface QaReportPanelProps {
+  report: QaReport | null;
+  isChecking: boolean;
+  error?: string | null;
+  onRunVisionCheck?: () => void;
+  onRegenerate?: () => void;
+  isRegenerating?: boolean;
+}
+
+const STATUS_STYLES = {
+  pass: 'border-emerald-500/30 bg-emerald-500/10 text-emerald-300',
+  warn: 'border-amber-500/30 bg-amber-500/10 text-amber-300',
+};
+
+export default function QaReportPanel({
+  report,
+  isChecking,
+  error,
+  onRunVisionCheck,
+  onRegenerate,
+  isRegenerating = false,
+}: QaReportPanelProps) {
+  const warnings = report?.checks.filter((check) => check.status === 'warn') || [];
+  const canRegenerate = Boolean(onRegenerate) && warnings.some((check) => check.feedback);
+
+  return (
+    <div className="w-full rounded-lg border border-studio-border bg-studio-surface p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-semibold text-studio-text">Quality check</span>
+          {isChecking ? (
+            <span className="text-xs text-studio-muted">Checking...</span>
+          ) : report && (
+            <span className={`rounded-full border px-2 py-0.5 text-[11px] font-semibold uppercase ${STATUS_STYLES[report.status]}`}>
+              {report.status === 'pass' ? 'Pass' : `Warn · ${warnings.length}`}
+            </span>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {onRunVisionCheck && report && !report.visionChecked && (
+            <button
+              type="button"
+              onClick={onRunVisionCheck}
+              disabled={isChecking}
+              className="rounded-md border border-studio-border px-3 py-1.5 text-xs font-semibold text-studio-muted transition-colors hover:text-studio-text disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Run vision check
+            </button>
+          )}
+          {canRegenerate && (
+            <button
+              type="button"
+              onClick={onRegenerate}
+              disabled={isChecking || isRegenerating}
+              className="rounded-md bg-studio-accent px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-studio-accent-hover disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isRegenerating ? 'Regenerating...' : 'Regenerate with fixes'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-2 rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-300">{error}</div>
+      )}
+
+      {report && (
+        <ul className="mt-2 space-y-1">
+          {report.checks.map((check, index) => (
+            <li key={`${check.id}-${index}`} className="flex items-start gap-2 text-xs">
+              <span
+                className={`mt-1 h-2 w-2 shrink-0 rounded-full ${check.status === 'pass' ? 'bg-emerald-400' : 'bg-amber-400'}`}
+                aria-label={check.status}
+              />
+              <span className="text-studio-muted">
+                <span className="font-medium text-studio-text">{check.label}:</span> {check.detail}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
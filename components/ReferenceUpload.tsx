@@ -1,11 +1,20 @@
 'use client';
 
 import { useRef } from 'react';
+import { REFERENCE_ROLES, ReferenceImage, ReferenceRole } from '@/lib/referenceImages';
+
+export interface UploadedReference extends ReferenceImage {
+  id: string;
+  width: number;
+  height: number;
+}
 
 interface ReferenceUploadProps {
-  uploadedImage: string | null;
-  onFileSelect: (file: File) => void;
-  onClear: () => void;
+  references: UploadedReference[];
+  maxReferences: number;
+  onFilesSelect: (files: File[]) => void;
+  onRemove: (id: string) => void;
+  onRoleChange: (id: string, role: ReferenceRole) => void;
   isDragging: boolean;
   onDragOver: (e: React.DragEvent) => void;
   onDragLeave: (e: React.DragEvent) => void;
@@ -14,9 +23,11 @@ interface ReferenceUploadProps {
 }
 
 export default function ReferenceUpload({
-  uploadedImage,
-  onFileSelect,
-  onClear,
+  references,
+  maxReferences,
+  onFilesSelect,
+  onRemove,
+  onRoleChange,
   isDragging,
   onDragOver,
   onDragLeave,
@@ -24,23 +35,70 @@ export default function ReferenceUpload({
   isRequired,
 }: ReferenceUploadProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const canAddMore = references.length < maxReferences;
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) onFileSelect(file);
+    const files = Array.from(e.target.files || []);
+    if (files.length) onFilesSelect(files);
+    e.target.value = '';
   };
 
   return (
     <div className="space-y-2">
-      <label className="block text-sm font-medium text-studio-text">
-        Reference Image {isRequired ? '(Required)' : '(Optional)'}
-      </label>
-      {!uploadedImage ? (
+      <div className="flex items-baseline justify-between gap-2">
+        <label className="block text-sm font-medium text-studio-text">
+          Reference Images {isRequired ? '(Required)' : '(Optional)'}
+        </label>
+        <span className="text-xs text-studio-muted">{references.length}/{maxReferences}</span>
+      </div>
+
+      {references.length > 0 && (
+        <div className="grid grid-cols-2 gap-2">
+          {references.map((reference, index) => (
+            <div key={reference.id} className="overflow-hidden rounded-lg border border-studio-border bg-studio-elevated">
+              <div className="relative">
+                <img
+                  src={reference.imageData}
+                  alt={`Reference ${index + 1}`}
+                  className="h-24 w-full object-contain"
+                />
+                <span className="absolute left-1.5 top-1.5 rounded bg-black/60 px-1.5 py-0.5 text-[10px] font-semibold text-white">
+                  {index + 1}
+                </span>
+                <button
+                  onClick={() => onRemove(reference.id)}
+                  className="absolute top-1.5 right-1.5 bg-red-500/90 text-white rounded-full p-1 hover:bg-red-600 transition-colors"
+                  aria-label={`Remove reference ${index + 1}`}
+                >
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              <select
+                value={reference.role}
+                onChange={(e) => onRoleChange(reference.id, e.target.value as ReferenceRole)}
+                aria-label={`Role for reference ${index + 1}`}
+                title={REFERENCE_ROLES.find((role) => role.value === reference.role)?.description}
+                className="w-full border-t border-studio-border bg-studio-surface px-2 py-1.5 text-xs text-studio-text focus:outline-none"
+              >
+                {REFERENCE_ROLES.map((role) => (
+                  <option key={role.value} value={role.value}>{role.label}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canAddMore && (
         <div
           onDragOver={onDragOver}
           onDragLeave={onDragLeave}
           onDrop={onDrop}
-          className={`border border-dashed rounded-lg p-5 text-center transition-colors cursor-pointer ${
+          className={`border border-dashed rounded-lg text-center transition-colors cursor-pointer ${
+            references.length ? 'p-3' : 'p-5'
+          } ${
             isDragging
               ? 'border-studio-accent bg-studio-accent/10'
               : 'border-studio-border hover:border-studio-muted'
@@ -51,33 +109,29 @@ export default function ReferenceUpload({
             ref={fileInputRef}
             type="file"
             accept="image/jpeg,image/jpg,image/png,image/webp"
+            multiple={maxReferences > 1}
             onChange={handleFileInputChange}
             className="hidden"
           />
-          <svg className="w-8 h-8 text-studio-muted mx-auto mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-          </svg>
-          <p className="text-sm text-studio-muted">Drop image here or click to select</p>
-          <p className="text-xs text-studio-muted/60 mt-1">JPEG, PNG, or WebP (max 10MB)</p>
-        </div>
-      ) : (
-        <div className="relative rounded-lg overflow-hidden border border-studio-border">
-          <img
-            src={uploadedImage}
-            alt="Uploaded reference"
-            className="w-full h-auto max-h-40 object-contain bg-studio-elevated"
-          />
-          <button
-            onClick={onClear}
-            className="absolute top-2 right-2 bg-red-500/90 text-white rounded-full p-1.5 hover:bg-red-600 transition-colors"
-            aria-label="Remove image"
-          >
-            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          {references.length === 0 && (
+            <svg className="w-8 h-8 text-studio-muted mx-auto mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
             </svg>
-          </button>
+          )}
+          <p className="text-sm text-studio-muted">
+            {references.length ? 'Add another reference' : 'Drop images here or click to select'}
+          </p>
+          {references.length === 0 && (
+            <p className="text-xs text-studio-muted/60 mt-1">JPEG, PNG, or WebP (max 10MB each)</p>
+          )}
         </div>
       )}
+
+      {references.length > 1 && (
+        <p className="text-xs leading-relaxed text-studio-muted">
+          Tag each image so the model knows whether to keep its subject, match its style, reproduce its logo, or follow its layout. Reference layout uses image 1&apos;s dimensions.
+        </p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,117 @@
+'use client';
+
+import { SafeZoneGuide, SafeZoneGuideKind } from '@/lib/safeZones';
+
+interface SafeZoneOverlayProps {
+  guides: SafeZoneGuide[];
+  width: number;
+  height: number;
+  hiddenGuideIds?: string[];
+}
+
+interface SafeZoneLegendProps {
+  guides: SafeZoneGuide[];
+  hiddenGuideIds: string[];
+  onToggleGuide: (id: string) => void;
+}
+
+const GUIDE_COLORS: Record<SafeZoneGuideKind, string> = {
+  margin: '#22d3ee',
+  covered: '#f87171',
+  band: '#fbbf24',
+  reserved: '#f87171',
+  avatar: '#ffffff',
+  corners: '#f87171',
+};
+
+// Draws the platform chrome and safe areas over an export. It is sized by its parent, which must wrap
+// exactly the rendered image.
+export default function SafeZoneOverlay({ guides, width, height, hiddenGuideIds = [] }: SafeZoneOverlayProps) {
+  const visibleGuides = guides.filter((guide) => !hiddenGuideIds.includes(guide.id));
+  const strokeWidth = Math.max(2, width / 400);
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      className="pointer-events-none absolute inset-0 h-full w-full overflow-hidden rounded-lg"
+      aria-hidden="true"
+    >
+      {visibleGuides.map((guide) => {
+        const color = GUIDE_COLORS[guide.kind];
+
+        if (guide.kind === 'corners' && guide.cornerRadius) {
+          const r = guide.cornerRadius;
+          // Shade everything outside the rounded rectangle the platform clips to.
+          return (
+            <path
+              key={guide.id}
+              d={`M0 0H${width}V${height}H0Z M${r} 0H${width - r}A${r} ${r} 0 0 1 ${width} ${r}V${height - r}A${r} ${r} 0 0 1 ${width - r} ${height}H${r}A${r} ${r} 0 0 1 0 ${height - r}V${r}A${r} ${r} 0 0 1 ${r} 0Z`}
+              fill={color}
+              fillOpacity={0.6}
+              fillRule="evenodd"
+            />
+          );
+        }
+
+        if (guide.circle) {
+          return (
+            <circle
+              key={guide.id}
+              cx={guide.circle.cx}
+              cy={guide.circle.cy}
+              r={guide.circle.r}
+              fill="#000000"
+              fillOpacity={0.35}
+              stroke={color}
+              strokeWidth={strokeWidth}
+              strokeDasharray={guide.id.endsWith('mobile') ? `${strokeWidth * 4} ${strokeWidth * 3}` : undefined}
+            />
+          );
+        }
+
+        if (!guide.rect) return null;
+        const filled = guide.kind === 'covered';
+        return (
+          <rect
+            key={guide.id}
+            x={guide.rect.x}
+            y={guide.rect.y}
+            width={guide.rect.width}
+            height={guide.rect.height}
+            fill={filled ? color : 'none'}
+            fillOpacity={filled ? 0.25 : undefined}
+            stroke={color}
+            strokeWidth={strokeWidth}
+            strokeDasharray={filled ? undefined : `${strokeWidth * 4} ${strokeWidth * 3}`}
+          />
+        );
+      })}
+    </svg>
+  );
+}
+
+export function SafeZoneLegend({ guides, hiddenGuideIds, onToggleGuide }: SafeZoneLegendProps) {
+  if (guides.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {guides.map((guide) => {
+        const isVisible = !hiddenGuideIds.includes(guide.id);
+        return (
+          <button
+            key={guide.id}
+            type="button"
+            onClick={() => onToggleGuide(guide.id)}
+            aria-pressed={isVisible}
+            className={`flex items-center gap-1.5 rounded-full border px-2.5 py-1 text-[11px] font-medium transition-colors ${
+              isVisible ? 'border-studio-border bg-studio-surface text-studio-text' : 'border-studio-border/50 text-studio-muted/60'
+            }`}
+          >
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: GUIDE_COLORS[guide.kind] }} />
+            {guide.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
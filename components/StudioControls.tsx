@@ -3,10 +3,16 @@
 import PromptInput from './PromptInput';
 import ModelSelector from './ModelSelector';
 import LayoutSelector from './LayoutSelector';
-import ReferenceUpload from './ReferenceUpload';
+import ReferenceUpload, { UploadedReference } from './ReferenceUpload';
 import CreatorWorkflowPanel from './CreatorWorkflowPanel';
+import VariantCountSelector from './VariantCountSelector';
+import BrandKitSelector from './BrandKitSelector';
+import TextOverlayFields from './TextOverlayFields';
+import { BrandKit } from '@/lib/brandKits/types';
 import { CreatorPreset } from '@/lib/creatorContent';
 import { Layout, Model, MODEL_CAPABILITIES } from '@/lib/modelConfig';
+import { ReferenceRole } from '@/lib/referenceImages';
+import { supportsTextOverlay, TextOverlay } from '@/lib/textOverlay';
 
 interface StudioControlsProps {
   prompt: string;
@@ -15,13 +21,24 @@ interface StudioControlsProps {
   isEnhancing: boolean;
   selectedModel: Model;
   onModelSelect: (model: Model) => void;
+  compareMode: boolean;
+  onCompareModeChange: (enabled: boolean) => void;
+  compareModels: Model[];
+  onCompareModelToggle: (model: Model) => void;
   selectedLayout: Layout;
   onLayoutSelect: (layout: Layout) => void;
+  variantCount: number;
+  onVariantCountChange: (count: number) => void;
   selectedCreatorPreset: CreatorPreset | null;
   onCreatorPresetSelect: (preset: CreatorPreset | null) => void;
-  uploadedImage: string | null;
-  onFileSelect: (file: File) => void;
-  onClearImage: () => void;
+  selectedBrandKit: BrandKit | null;
+  onBrandKitSelect: (kit: BrandKit | null) => void;
+  textOverlay: TextOverlay;
+  onTextOverlayChange: (overlay: TextOverlay) => void;
+  referenceImages: UploadedReference[];
+  onReferenceFilesSelect: (files: File[]) => void;
+  onRemoveReference: (id: string) => void;
+  onReferenceRoleChange: (id: string, role: ReferenceRole) => void;
   isDragging: boolean;
   onDragOver: (e: React.DragEvent) => void;
   onDragLeave: (e: React.DragEvent) => void;
@@ -41,6 +58,25 @@ function SectionHeader({ title, description }: { title: string; description?: st
   );
 }
 
+function CompareModeToggle({ enabled, onChange }: { enabled: boolean; onChange: (enabled: boolean) => void }) {
+  return (
+    <label className="flex cursor-pointer items-start gap-2 rounded-lg border border-studio-border bg-studio-elevated p-3">
+      <input
+        type="checkbox"
+        checked={enabled}
+        onChange={(event) => onChange(event.target.checked)}
+        className="mt-0.5 accent-studio-accent"
+      />
+      <span>
+        <span className="block text-sm font-medium text-studio-text">Compare models</span>
+        <span className="mt-0.5 block text-xs leading-relaxed text-studio-muted">
+          Render the same prompt and layout on several models in parallel, with per-model latency.
+        </span>
+      </span>
+    </label>
+  );
+}
+
 function LockedOutput({ preset }: { preset: CreatorPreset }) {
   const outputCopy = preset.workflow === 'storybook'
     ? `This workflow generates 5 pages at ${preset.dimensions} and exports them as one PDF.`
@@ -72,13 +108,24 @@ export default function StudioControls({
   isEnhancing,
   selectedModel,
   onModelSelect,
+  compareMode,
+  onCompareModeChange,
+  compareModels,
+  onCompareModelToggle,
   selectedLayout,
   onLayoutSelect,
+  variantCount,
+  onVariantCountChange,
   selectedCreatorPreset,
   onCreatorPresetSelect,
-  uploadedImage,
-  onFileSelect,
-  onClearImage,
+  selectedBrandKit,
+  onBrandKitSelect,
+  textOverlay,
+  onTextOverlayChange,
+  referenceImages,
+  onReferenceFilesSelect,
+  onRemoveReference,
+  onReferenceRoleChange,
   isDragging,
   onDragOver,
   onDragLeave,
@@ -90,11 +137,18 @@ export default function StudioControls({
 }: StudioControlsProps) {
   const capabilities = MODEL_CAPABILITIES[selectedModel];
   const imageRequired = capabilities.requiresReferenceImage || selectedCreatorPreset?.workflow === 'enhance';
-  const showInlineReferenceUpload = imageRequired || !!uploadedImage;
+  const supportsSingleImageRuns = selectedCreatorPreset?.workflow !== 'storybook' && selectedCreatorPreset?.workflow !== 'og-package';
+  const isComparing = compareMode && supportsSingleImageRuns;
+  const hasReferenceImages = referenceImages.length > 0;
+  const showInlineReferenceUpload = imageRequired || hasReferenceImages;
   const referenceDescription = imageRequired
     ? 'Required for this workflow before generation.'
-    : 'Optional. Use a reference when you want the model to preserve composition or subject details.';
-  const generateLabel = selectedCreatorPreset?.workflow === 'storybook'
+    : capabilities.maxReferenceImages > 1
+      ? `Optional. Add up to ${capabilities.maxReferenceImages} images, such as a headshot, a logo, and a style sample, and tag each one's role.`
+      : 'Optional. Use a reference when you want the model to preserve composition or subject details.';
+  const generateLabel = isComparing
+    ? `Compare ${compareModels.length} model${compareModels.length === 1 ? '' : 's'}`
+    : selectedCreatorPreset?.workflow === 'storybook'
     ? 'Generate PDF Pages'
     : selectedCreatorPreset?.workflow === 'og-package'
       ? 'Generate social package'
@@ -108,7 +162,7 @@ export default function StudioControls({
         selectedPreset={selectedCreatorPreset}
         onPresetSelect={onCreatorPresetSelect}
         onApplyPrompt={onPromptChange}
-        hasUploadedImage={!!uploadedImage}
+        hasUploadedImage={hasReferenceImages}
       />
 
       <section>
@@ -122,6 +176,30 @@ export default function StudioControls({
         />
       </section>
 
+      {supportsTextOverlay(selectedCreatorPreset) && (
+        <section className="space-y-3">
+          <SectionHeader
+            title="Text overlay"
+            description="Optional. Headline, subline, and CTA are composited after generation so they are spelled exactly and never clip."
+          />
+          <TextOverlayFields
+            value={textOverlay}
+            onChange={onTextOverlayChange}
+            safeAreaLabel={selectedCreatorPreset?.safeArea?.label}
+          />
+        </section>
+      )}
+
+      <section className="space-y-3">
+        <SectionHeader
+          title="Brand kit"
+          description={selectedBrandKit
+            ? `Prompts follow ${selectedBrandKit.name}'s palette, type, tone, and rules${selectedBrandKit.logo && capabilities.supportsReferenceImages ? ', and its logo is attached as a reference' : ''}.`
+            : 'Optional. Save a palette, fonts, tone, rules, and logo once, then apply them to every generation.'}
+        />
+        <BrandKitSelector selectedKit={selectedBrandKit} onSelect={onBrandKitSelect} />
+      </section>
+
       <section className="space-y-3">
         <SectionHeader
           title="Output"
@@ -136,9 +214,14 @@ export default function StudioControls({
                 Advanced model settings
               </summary>
               <div className="space-y-3 border-t border-studio-border p-3">
+                {supportsSingleImageRuns && (
+                  <CompareModeToggle enabled={compareMode} onChange={onCompareModeChange} />
+                )}
                 <ModelSelector
                   selectedModel={selectedModel}
                   onSelect={onModelSelect}
+                  compareModels={isComparing ? compareModels : null}
+                  onCompareToggle={onCompareModelToggle}
                 />
                 <p className="text-xs leading-relaxed text-studio-muted">
                   Presets keep the final export dimensions fixed. Use freeform mode when you need manual layout control.
@@ -148,29 +231,38 @@ export default function StudioControls({
           </>
         ) : (
           <>
+            <CompareModeToggle enabled={compareMode} onChange={onCompareModeChange} />
             <ModelSelector
               selectedModel={selectedModel}
               onSelect={onModelSelect}
+              compareModels={isComparing ? compareModels : null}
+              onCompareToggle={onCompareModelToggle}
             />
             <LayoutSelector
               selectedLayout={selectedLayout}
               onSelect={onLayoutSelect}
-              hasReferenceImage={!!uploadedImage}
+              hasReferenceImage={hasReferenceImages}
               selectedModel={selectedModel}
               referenceDimensions={referenceDimensions}
             />
           </>
         )}
+
+        {supportsSingleImageRuns && !isComparing && (
+          <VariantCountSelector value={variantCount} onChange={onVariantCountChange} />
+        )}
       </section>
 
       <section className="space-y-3">
         {showInlineReferenceUpload ? (
           <>
-            <SectionHeader title="Reference image" description={referenceDescription} />
+            <SectionHeader title="Reference images" description={referenceDescription} />
             <ReferenceUpload
-              uploadedImage={uploadedImage}
-              onFileSelect={onFileSelect}
-              onClear={onClearImage}
+              references={referenceImages}
+              maxReferences={capabilities.maxReferenceImages}
+              onFilesSelect={onReferenceFilesSelect}
+              onRemove={onRemoveReference}
+              onRoleChange={onReferenceRoleChange}
               isDragging={isDragging}
               onDragOver={onDragOver}
               onDragLeave={onDragLeave}
@@ -181,14 +273,16 @@ export default function StudioControls({
         ) : capabilities.supportsReferenceImages ? (
           <details className="rounded-lg border border-studio-border bg-studio-elevated">
             <summary className="cursor-pointer px-3 py-2 text-sm font-medium text-studio-text">
-              Add reference image
+              Add reference images
             </summary>
             <div className="space-y-3 border-t border-studio-border p-3">
               <p className="text-xs leading-relaxed text-studio-muted">{referenceDescription}</p>
               <ReferenceUpload
-                uploadedImage={uploadedImage}
-                onFileSelect={onFileSelect}
-                onClear={onClearImage}
+                references={referenceImages}
+                maxReferences={capabilities.maxReferenceImages}
+                onFilesSelect={onReferenceFilesSelect}
+                onRemove={onRemoveReference}
+                onRoleChange={onReferenceRoleChange}
                 isDragging={isDragging}
                 onDragOver={onDragOver}
                 onDragLeave={onDragLeave}
@@ -208,7 +302,7 @@ export default function StudioControls({
 
       <button
         onClick={onGenerate}
-        disabled={isLoading}
+        disabled={isLoading || (isComparing && compareModels.length === 0)}
         className="w-full rounded-lg bg-studio-accent py-3 font-semibold text-white transition-colors hover:bg-studio-accent-hover active:brightness-90 disabled:cursor-not-allowed disabled:opacity-50"
       >
         {isLoading ? 'Generating...' : generateLabel}
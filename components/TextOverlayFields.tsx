@@ -0,0 +1,80 @@
+'use client';
+
+import { MAX_OVERLAY_HEADLINE_LENGTH, MAX_OVERLAY_LINE_LENGTH, TextOverlay, TextOverlayAlign } from '@/lib/textOverlay';
+
+interface TextOverlayFieldsProps {
+  value: TextOverlay;
+  onChange: (value: TextOverlay) => void;
+  safeAreaLabel?: string;
+}
+
+const inputClassName = 'w-full rounded-md border border-studio-border bg-studio-bg px-3 py-2 text-sm text-studio-text placeholder:text-studio-muted focus:border-studio-accent focus:outline-none';
+
+export default function TextOverlayFields({ value, onChange, safeAreaLabel }: TextOverlayFieldsProps) {
+  const update = (changes: Partial<TextOverlay>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-2">
+      <input
+        type="text"
+        value={value.headline}
+        onChange={(event) => update({ headline: event.target.value })}
+        maxLength={MAX_OVERLAY_HEADLINE_LENGTH}
+        placeholder="Headline"
+        aria-label="Overlay headline"
+        className={inputClassName}
+      />
+      <input
+        type="text"
+        value={value.subline || ''}
+        onChange={(event) => update({ subline: event.target.value })}
+        maxLength={MAX_OVERLAY_LINE_LENGTH}
+        placeholder="Subline (optional)"
+        aria-label="Overlay subline"
+        className={inputClassName}
+      />
+      <input
+        type="text"
+        value={value.cta || ''}
+        onChange={(event) => update({ cta: event.target.value })}
+        maxLength={MAX_OVERLAY_LINE_LENGTH}
+        placeholder="Call to action (optional)"
+        aria-label="Overlay call to action"
+        className={inputClassName}
+      />
+
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <div className="flex overflow-hidden rounded-md border border-studio-border">
+          {(['left', 'center'] as TextOverlayAlign[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => update({ align: option })}
+              aria-pressed={(value.align || 'left') === option}
+              className={`px-3 py-1.5 font-medium capitalize transition-colors ${
+                (value.align || 'left') === option ? 'bg-studio-accent text-white' : 'text-studio-muted hover:text-studio-text'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <label className="flex cursor-pointer items-center gap-1.5 text-studio-muted">
+          <input
+            type="checkbox"
+            checked={value.scrim !== false}
+            onChange={(event) => update({ scrim: event.target.checked })}
+            className="accent-studio-accent"
+          />
+          Darken behind text
+        </label>
+      </div>
+
+      <p className="text-xs leading-relaxed text-studio-muted">
+        {value.headline.trim()
+          ? `The model draws artwork only. This copy is set with real fonts inside the ${safeAreaLabel ? safeAreaLabel.toLowerCase() : 'safe area'} on every export.`
+          : 'Leave empty to let the model draw any text itself.'}
+      </p>
+    </div>
+  );
+}
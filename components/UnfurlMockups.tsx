@@ -0,0 +1,180 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { getUnfurlDomain, truncateForUnfurl, UNFURL_PLATFORMS, UnfurlPlatform } from '@/lib/og/unfurl';
+import { OgPackageMeta } from '@/lib/og/types';
+import { OgPackageAsset } from './OgPackagePreview';
+
+interface UnfurlMockupsProps {
+  assets: OgPackageAsset[];
+  metaInput: OgPackageMeta;
+}
+
+interface MockupContent {
+  image: OgPackageAsset;
+  title: string;
+  description: string;
+  siteName: string;
+  domain: string;
+  url: string;
+  themeColor: string;
+}
+
+const DEFAULT_DISCORD_ACCENT = '#1e1f22';
+
+function SlackMockup({ image, title, description, siteName, url }: MockupContent) {
+  return (
+    <div className="bg-white p-4 font-sans text-[15px] text-[#1d1c1d]">
+      <div className="flex gap-2">
+        <div className="h-9 w-9 shrink-0 rounded-md bg-[#4a154b]" />
+        <div className="min-w-0 flex-1">
+          <div className="text-[15px]"><span className="font-bold">Alex</span> <span className="text-xs text-[#616061]">10:42 AM</span></div>
+          <div className="truncate text-[#1264a3]">{url}</div>
+          <div className="mt-1 border-l-4 border-[#dddddd] pl-3">
+            <div className="text-[13px] font-bold">{siteName}</div>
+            {title && <div className="font-bold text-[#1264a3]">{title}</div>}
+            {description && <div className="line-clamp-3 text-[15px]">{description}</div>}
+            <img src={image.imageUrl} alt="" className="mt-2 max-h-52 max-w-full rounded-lg border border-black/10" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function DiscordMockup({ image, title, description, siteName, url, themeColor }: MockupContent) {
+  return (
+    <div className="bg-[#313338] p-4 font-sans text-[15px] text-[#dbdee1]">
+      <div className="flex gap-3">
+        <div className="h-10 w-10 shrink-0 rounded-full bg-[#5865f2]" />
+        <div className="min-w-0 flex-1">
+          <div><span className="font-medium text-white">alex</span> <span className="text-xs text-[#949ba4]">Today at 10:42 AM</span></div>
+          <div className="truncate text-[#00a8fc]">{url}</div>
+          <div className="mt-1 max-w-[432px] rounded border-l-4 bg-[#2b2d31] p-3" style={{ borderLeftColor: themeColor }}>
+            <div className="text-xs text-[#dbdee1]">{siteName}</div>
+            {title && <div className="mt-1 font-semibold text-[#00a8fc]">{title}</div>}
+            {description && <div className="mt-1 text-sm">{description}</div>}
+            <img src={image.imageUrl} alt="" className="mt-3 max-w-full rounded" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function XMockup({ image, domain }: MockupContent) {
+  return (
+    <div className="bg-black p-4 font-sans text-[15px] text-[#e7e9ea]">
+      <div className="flex gap-3">
+        <div className="h-10 w-10 shrink-0 rounded-full bg-[#1d9bf0]" />
+        <div className="min-w-0 flex-1">
+          <div><span className="font-bold">Alex</span> <span className="text-[#71767b]">@alex · 1h</span></div>
+          <div>New launch is live 👇</div>
+          <div className="relative mt-3 overflow-hidden rounded-2xl border border-[#2f3336]">
+            <img src={image.imageUrl} alt="" className="block w-full" />
+            <span className="absolute bottom-3 left-3 rounded bg-black/70 px-1.5 py-0.5 text-[13px] text-white">{domain}</span>
+          </div>
+          <div className="mt-1 text-[13px] text-[#71767b]">From {domain}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function LinkedInMockup({ image, title, domain }: MockupContent) {
+  return (
+    <div className="bg-[#f4f2ee] p-4 font-sans text-sm text-black/90">
+      <div className="overflow-hidden rounded-lg border border-black/10 bg-white">
+        <div className="flex items-center gap-2 p-3">
+          <div className="h-12 w-12 shrink-0 rounded-full bg-[#0a66c2]" />
+          <div>
+            <div className="font-semibold">Alex Rivera</div>
+            <div className="text-xs text-black/60">Founder · 1h</div>
+          </div>
+        </div>
+        <img src={image.imageUrl} alt="" className="block w-full" />
+        <div className="bg-[#eef3f8] px-3 py-2">
+          {title && <div className="line-clamp-2 font-semibold">{title}</div>}
+          <div className="text-xs text-black/60">{domain}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function WhatsAppMockup({ image, title, description, domain, url }: MockupContent) {
+  return (
+    <div className="bg-[#0b141a] p-4 font-sans text-sm text-[#e9edef]">
+      <div className="ml-auto max-w-[330px] rounded-lg bg-[#005c4b] p-1">
+        <div className="overflow-hidden rounded-md bg-[#025144]">
+          <img src={image.imageUrl} alt="" className="block w-full" />
+          <div className="px-2.5 py-2">
+            {title && <div className="line-clamp-2 font-semibold">{title}</div>}
+            {description && <div className="line-clamp-1 text-xs text-[#e9edef]/70">{description}</div>}
+            <div className="text-xs text-[#e9edef]/60">{domain}</div>
+          </div>
+        </div>
+        <div className="px-1.5 pt-1 text-[#53bdeb]">{url}</div>
+        <div className="px-1.5 text-right text-[11px] text-[#e9edef]/60">10:42 ✓✓</div>
+      </div>
+    </div>
+  );
+}
+
+function IMessageMockup({ image, title, domain }: MockupContent) {
+  return (
+    <div className="bg-white p-4 font-sans text-[15px] text-black">
+      <div className="ml-auto max-w-[280px] overflow-hidden rounded-[18px] bg-[#e9e9eb]">
+        <img src={image.imageUrl} alt="" className="block w-full" />
+        <div className="px-3 py-2">
+          {title && <div className="line-clamp-2 text-[13px] font-semibold">{title}</div>}
+          <div className="text-[13px] text-black/50">{domain}</div>
+        </div>
+      </div>
+      <div className="mt-1 text-right text-[11px] text-black/40">Delivered</div>
+    </div>
+  );
+}
+
+const MOCKUPS: Record<UnfurlPlatform, (content: MockupContent) => ReactNode> = {
+  slack: SlackMockup,
+  discord: DiscordMockup,
+  x: XMockup,
+  linkedin: LinkedInMockup,
+  whatsapp: WhatsAppMockup,
+  imessage: IMessageMockup,
+};
+
+export default function UnfurlMockups({ assets, metaInput }: UnfurlMockupsProps) {
+  const domain = getUnfurlDomain(metaInput.url);
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {UNFURL_PLATFORMS.map((platform) => {
+        const image = platform.presetIds
+          .map((presetId) => assets.find((asset) => asset.presetId === presetId))
+          .find((asset): asset is OgPackageAsset => Boolean(asset)) || assets[0];
+        if (!image) return null;
+
+        const Mockup = MOCKUPS[platform.id];
+        return (
+          <figure key={platform.id} className="overflow-hidden rounded-xl border border-studio-border bg-studio-surface">
+            <figcaption className="flex items-center justify-between gap-2 border-b border-studio-border px-3 py-2">
+              <span className="text-xs font-semibold text-studio-text">{platform.label}</span>
+              <span className="text-[10px] text-studio-muted">{image.shortLabel} · {image.dimensions}</span>
+            </figcaption>
+            <Mockup
+              image={image}
+              title={truncateForUnfurl(metaInput.title, platform.titleMaxLength)}
+              description={truncateForUnfurl(metaInput.description, platform.descriptionMaxLength)}
+              siteName={metaInput.siteName}
+              domain={domain}
+              url={metaInput.url}
+              themeColor={metaInput.themeColor || DEFAULT_DISCORD_ACCENT}
+            />
+          </figure>
+        );
+      })}
+    </div>
+  );
+}
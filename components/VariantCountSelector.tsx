@@ -0,0 +1,40 @@
+'use client';
+
+import { MAX_IMAGE_VARIANTS } from '@/lib/modelConfig';
+
+interface VariantCountSelectorProps {
+  value: number;
+  onChange: (count: number) => void;
+}
+
+const VARIANT_COUNTS = Array.from({ length: MAX_IMAGE_VARIANTS }, (_, index) => index + 1);
+
+export default function VariantCountSelector({ value, onChange }: VariantCountSelectorProps) {
+  return (
+    <div className="space-y-2">
+      <div>
+        <label className="block text-sm font-medium text-studio-text">Variants</label>
+        <p className="mt-1 text-xs leading-relaxed text-studio-muted">
+          Render several takes in parallel and pick a favourite from the comparison grid.
+        </p>
+      </div>
+      <div className="grid grid-cols-4 gap-1 rounded-lg bg-studio-bg p-1">
+        {VARIANT_COUNTS.map((count) => (
+          <button
+            key={count}
+            type="button"
+            onClick={() => onChange(count)}
+            aria-pressed={value === count}
+            className={`rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+              value === count
+                ? 'bg-studio-accent text-white'
+                : 'text-studio-muted hover:bg-studio-elevated hover:text-studio-text'
+            }`}
+          >
+            {count}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
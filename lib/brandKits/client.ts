@@ -0,0 +1,53 @@
+import { BrandKit, BrandKitInput } from './types';
+
+export function getBrandKitLogoUrl(kit: BrandKit): string {
+  return `/api/brand-kits/${kit.id}/logo?v=${encodeURIComponent(kit.updatedAt)}`;
+}
+
+export async function fetchBrandKits(): Promise<BrandKit[]> {
+  const response = await fetch('/api/brand-kits');
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || 'Failed to load brand kits.');
+  }
+
+  return data?.kits || [];
+}
+
+export async function saveBrandKit(input: BrandKitInput, kitId?: string): Promise<BrandKit> {
+  const response = await fetch(kitId ? `/api/brand-kits/${kitId}` : '/api/brand-kits', {
+    method: kitId ? 'PUT' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.kit) {
+    throw new Error(data?.error || 'Failed to save brand kit.');
+  }
+
+  return data.kit;
+}
+
+export async function removeBrandKit(kitId: string): Promise<void> {
+  const response = await fetch(`/api/brand-kits/${kitId}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || 'Failed to delete brand kit.');
+  }
+}
+
+export async function fetchBrandKitLogoAsDataUrl(kit: BrandKit): Promise<string> {
+  const response = await fetch(getBrandKitLogoUrl(kit));
+  if (!response.ok) {
+    throw new Error(`Failed to load brand kit logo (${response.status}).`);
+  }
+
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error('Failed to read brand kit logo.'));
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,23 @@
+import { BrandKit } from './types';
+
+export const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+export const MAX_PALETTE_COLORS = 8;
+
+type BrandKitPromptFields = Pick<BrandKit, 'name' | 'palette' | 'fonts' | 'tone' | 'dos' | 'donts' | 'logo'>;
+
+// Kept free of server imports so the studio can build prompts client-side.
+export function buildBrandKitPrompt(kit?: BrandKitPromptFields | null): string {
+  if (!kit) return '';
+
+  const lines = [
+    `Brand kit (mandatory): follow the "${kit.name}" brand guidelines.`,
+    kit.palette.length ? `- Color palette: ${kit.palette.join(', ')}. Build the image from these colors; use other hues only as neutral support.` : '',
+    kit.fonts.length ? `- Typography: ${kit.fonts.join('; ')}.` : '',
+    kit.tone.length ? `- Tone: ${kit.tone.join(', ')}.` : '',
+    ...kit.dos.map((rule) => `- Do: ${rule}`),
+    ...kit.donts.map((rule) => `- Don't: ${rule}`),
+    kit.logo ? '- The brand logo is attached as a logo reference. Place it once, unaltered, where it does not compete with the headline.' : '',
+  ];
+
+  return lines.filter(Boolean).join('\n');
+}
@@ -0,0 +1,184 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { HEX_COLOR_PATTERN, MAX_PALETTE_COLORS } from './prompt';
+import { BrandKit, BrandKitInput, BrandKitLogo } from './types';
+
+const KIT_FILENAME = 'kit.json';
+const ID_PATTERN = /^[a-f0-9-]{36}$/;
+
+const EXTENSION_BY_MIME_TYPE: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/webp': 'webp',
+};
+
+export function getBrandKitsDir(): string {
+  return process.env.BRAND_KITS_DIR || path.join(process.cwd(), '.data', 'brand-kits');
+}
+
+export function isBrandKitId(value: unknown): value is string {
+  return typeof value === 'string' && ID_PATTERN.test(value);
+}
+
+const MAX_LIST_ITEMS = 12;
+
+type ParseResult = { input: BrandKitInput } | { error: string };
+
+function readStringList(value: unknown): string[] | null {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) return null;
+  return value.map((item) => item.trim()).filter(Boolean);
+}
+
+export function parseBrandKitInput(body: unknown): ParseResult {
+  const candidate = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  const name = typeof candidate.name === 'string' ? candidate.name.trim() : '';
+  if (!name) return { error: 'Brand kit name is required.' };
+
+  const lists = {
+    palette: readStringList(candidate.palette),
+    fonts: readStringList(candidate.fonts),
+    tone: readStringList(candidate.tone),
+    dos: readStringList(candidate.dos),
+    donts: readStringList(candidate.donts),
+  };
+  for (const [field, items] of Object.entries(lists)) {
+    if (!items) return { error: `Brand kit ${field} must be a list of strings.` };
+    if (items.length > MAX_LIST_ITEMS) return { error: `Brand kit ${field} supports up to ${MAX_LIST_ITEMS} entries.` };
+  }
+
+  const palette = lists.palette || [];
+  if (palette.length > MAX_PALETTE_COLORS) {
+    return { error: `Brand kit palettes support up to ${MAX_PALETTE_COLORS} colors.` };
+  }
+  const invalidColor = palette.find((color) => !HEX_COLOR_PATTERN.test(color));
+  if (invalidColor) return { error: `"${invalidColor}" is not a hex color like #1a2b3c.` };
+
+  const { logoImage } = candidate;
+  if (logoImage !== undefined && logoImage !== null && (typeof logoImage !== 'string' || !logoImage.startsWith('data:image/'))) {
+    return { error: 'Brand kit logo must be an image data URI.' };
+  }
+
+  return {
+    input: {
+      name,
+      palette: palette.map((color) => color.toLowerCase()),
+      fonts: lists.fonts || [],
+      tone: lists.tone || [],
+      dos: lists.dos || [],
+      donts: lists.donts || [],
+      logoImage,
+    },
+  };
+}
+
+async function writeLogo(kitDir: string, logoImage: string): Promise<BrandKitLogo> {
+  const match = logoImage.match(/^data:(image\/[^;]+);base64,(.+)$/);
+  const extension = match?.[1] ? EXTENSION_BY_MIME_TYPE[match[1]] : undefined;
+  if (!match?.[2] || !extension) {
+    throw new Error('Brand kit logos must be PNG, JPEG, or WebP data URIs.');
+  }
+
+  const filename = `logo.${extension}`;
+  await writeFile(path.join(kitDir, filename), Buffer.from(match[2], 'base64'));
+  return { filename, mimeType: match[1] };
+}
+
+export async function createBrandKit(input: BrandKitInput): Promise<BrandKit> {
+  const id = randomUUID();
+  const kitDir = path.join(getBrandKitsDir(), id);
+  await mkdir(kitDir, { recursive: true });
+
+  try {
+    const now = new Date().toISOString();
+    const kit: BrandKit = {
+      id,
+      createdAt: now,
+      updatedAt: now,
+      name: input.name,
+      palette: input.palette,
+      fonts: input.fonts,
+      tone: input.tone,
+      dos: input.dos,
+      donts: input.donts,
+      logo: input.logoImage ? await writeLogo(kitDir, input.logoImage) : null,
+    };
+
+    await writeFile(path.join(kitDir, KIT_FILENAME), JSON.stringify(kit, null, 2));
+    return kit;
+  } catch (error) {
+    await rm(kitDir, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+export async function getBrandKit(id: string): Promise<BrandKit | null> {
+  if (!isBrandKitId(id)) return null;
+
+  try {
+    const raw = await readFile(path.join(getBrandKitsDir(), id, KIT_FILENAME), 'utf8');
+    return JSON.parse(raw) as BrandKit;
+  } catch {
+    return null;
+  }
+}
+
+export async function listBrandKits(): Promise<BrandKit[]> {
+  let ids: string[];
+  try {
+    ids = await readdir(getBrandKitsDir());
+  } catch {
+    return [];
+  }
+
+  const kits = (await Promise.all(ids.filter(isBrandKitId).map((id) => getBrandKit(id))))
+    .filter((kit): kit is BrandKit => Boolean(kit));
+
+  return kits.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function updateBrandKit(id: string, input: BrandKitInput): Promise<BrandKit | null> {
+  const existing = await getBrandKit(id);
+  if (!existing) return null;
+
+  const kitDir = path.join(getBrandKitsDir(), id);
+  let logo = existing.logo;
+  if (input.logoImage !== undefined) {
+    if (existing.logo) {
+      await rm(path.join(kitDir, existing.logo.filename), { force: true });
+    }
+    logo = input.logoImage ? await writeLogo(kitDir, input.logoImage) : null;
+  }
+
+  const kit: BrandKit = {
+    ...existing,
+    updatedAt: new Date().toISOString(),
+    name: input.name,
+    palette: input.palette,
+    fonts: input.fonts,
+    tone: input.tone,
+    dos: input.dos,
+    donts: input.donts,
+    logo,
+  };
+
+  await writeFile(path.join(kitDir, KIT_FILENAME), JSON.stringify(kit, null, 2));
+  return kit;
+}
+
+export async function readBrandKitLogo(id: string): Promise<{ logo: BrandKitLogo; bytes: Buffer } | null> {
+  const kit = await getBrandKit(id);
+  if (!kit?.logo) return null;
+
+  const bytes = await readFile(path.join(getBrandKitsDir(), id, kit.logo.filename));
+  return { logo: kit.logo, bytes };
+}
+
+export async function deleteBrandKit(id: string): Promise<boolean> {
+  if (!(await getBrandKit(id))) return false;
+  await rm(path.join(getBrandKitsDir(), id), { recursive: true, force: true });
+  return true;
+}
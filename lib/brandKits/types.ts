@@ -0,0 +1,28 @@
+export interface BrandKitLogo {
+  filename: string;
+  mimeType: string;
+}
+
+export interface BrandKit {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  name: string;
+  palette: string[];
+  fonts: string[];
+  tone: string[];
+  dos: string[];
+  donts: string[];
+  logo: BrandKitLogo | null;
+}
+
+export interface BrandKitInput {
+  name: string;
+  palette: string[];
+  fonts: string[];
+  tone: string[];
+  dos: string[];
+  donts: string[];
+  // Data URI to replace the logo, null to remove it, undefined to keep the current one.
+  logoImage?: string | null;
+}
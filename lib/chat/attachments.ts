@@ -0,0 +1,21 @@
+export const MAX_CHAT_ATTACHMENTS = 4;
+export const MAX_CHAT_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const CHAT_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const ARTIFACT_URL_PATTERN = /^\/api\/chat\/threads\/([a-f0-9-]{36})\/artifacts\/([a-f0-9-]{36}\.(?:png|jpg|webp))$/;
+
+export function getChatArtifactUrl(threadId: string, filename: string): string {
+  return `/api/chat/threads/${threadId}/artifacts/${filename}`;
+}
+
+// Images already stored with a thread are attached by URL instead of being uploaded again.
+export function parseChatArtifactUrl(url: string): { threadId: string; filename: string } | null {
+  const match = url.match(ARTIFACT_URL_PATTERN);
+  return match ? { threadId: match[1], filename: match[2] } : null;
+}
+
+// Rough decoded size of a base64 data URI, so oversized uploads are rejected before decoding them.
+export function getDataUrlByteLength(dataUrl: string): number {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  return Math.floor((base64.length * 3) / 4);
+}
@@ -0,0 +1,44 @@
+import { ChatThread, ChatThreadListItem } from './types';
+
+export async function fetchChatThreads(): Promise<ChatThreadListItem[]> {
+  const response = await fetch('/api/chat/threads');
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || 'Failed to load chats.');
+  }
+
+  return data?.threads || [];
+}
+
+export async function fetchChatThread(threadId: string): Promise<ChatThread> {
+  const response = await fetch(`/api/chat/threads/${threadId}`);
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.thread) {
+    throw new Error(data?.error || 'Failed to load chat.');
+  }
+
+  return data.thread;
+}
+
+export async function renameChatThread(threadId: string, title: string): Promise<ChatThread> {
+  const response = await fetch(`/api/chat/threads/${threadId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ title }),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.thread) {
+    throw new Error(data?.error || 'Failed to rename chat.');
+  }
+
+  return data.thread;
+}
+
+export async function removeChatThread(threadId: string): Promise<void> {
+  const response = await fetch(`/api/chat/threads/${threadId}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || 'Failed to delete chat.');
+  }
+}
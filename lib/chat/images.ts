@@ -0,0 +1,31 @@
+import sharp from 'sharp';
+import { ReferenceDimensions } from '../serverImageGeneration';
+import { readChatImage } from './store';
+
+const MODEL_IMAGE_WIDTH = 1024;
+
+// The chat model sees a smaller JPEG; the details it needs for a critique survive at this size.
+export async function readChatImageForModel(url: string): Promise<string | null> {
+  const image = await readChatImage(url);
+  if (!image) return null;
+
+  const preview = await sharp(image.bytes)
+    .flatten({ background: '#ffffff' })
+    .resize({ width: MODEL_IMAGE_WIDTH, withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+  return `data:image/jpeg;base64,${preview.toString('base64')}`;
+}
+
+// The image model gets the original bytes and size so an edit keeps the source's detail and aspect ratio.
+export async function readChatImageReference(url: string): Promise<{ imageData: string; dimensions: ReferenceDimensions } | null> {
+  const image = await readChatImage(url);
+  if (!image) return null;
+
+  const { width, height } = await sharp(image.bytes).metadata();
+  if (!width || !height) return null;
+  return {
+    imageData: `data:${image.mimeType};base64,${image.bytes.toString('base64')}`,
+    dimensions: { width, height },
+  };
+}
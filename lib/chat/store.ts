@@ -0,0 +1,164 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { readImageBytes } from '../history/store';
+import { getChatArtifactUrl, parseChatArtifactUrl } from './attachments';
+import { ChatFileArtifact, ChatImageArtifact, ChatThread, ChatThreadListItem } from './types';
+
+const THREAD_FILENAME = 'thread.json';
+const ARTIFACTS_DIRNAME = 'artifacts';
+const ID_PATTERN = /^[a-f0-9-]{36}$/;
+const ARTIFACT_FILENAME_PATTERN = /^[a-f0-9-]{36}\.(png|jpg|webp|pdf|zip)$/;
+
+const EXTENSION_BY_MIME_TYPE: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/webp': 'webp',
+};
+
+const MIME_TYPE_BY_EXTENSION: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+};
+
+// Pending writes per thread id; see queueThreadWrite.
+const threadWrites = new Map<string, Promise<unknown>>();
+
+export function getChatThreadsDir(): string {
+  return process.env.CHAT_THREADS_DIR || path.join(process.cwd(), '.data', 'chat-threads');
+}
+
+export function isChatThreadId(value: unknown): value is string {
+  return typeof value === 'string' && ID_PATTERN.test(value);
+}
+
+export function toChatThreadListItem(thread: ChatThread): ChatThreadListItem {
+  return {
+    id: thread.id,
+    createdAt: thread.createdAt,
+    updatedAt: thread.updatedAt,
+    title: thread.title,
+    messageCount: thread.messages.length,
+  };
+}
+
+async function writeChatThread(thread: ChatThread): Promise<void> {
+  await writeFile(path.join(getChatThreadsDir(), thread.id, THREAD_FILENAME), JSON.stringify(thread, null, 2));
+}
+
+export async function createChatThread(title: string): Promise<ChatThread> {
+  const id = randomUUID();
+  await mkdir(path.join(getChatThreadsDir(), id, ARTIFACTS_DIRNAME), { recursive: true });
+
+  const now = new Date().toISOString();
+  const thread: ChatThread = { id, createdAt: now, updatedAt: now, title, messages: [], summary: null };
+  await writeChatThread(thread);
+  return thread;
+}
+
+export async function getChatThread(id: string): Promise<ChatThread | null> {
+  if (!isChatThreadId(id)) return null;
+
+  try {
+    const raw = await readFile(path.join(getChatThreadsDir(), id, THREAD_FILENAME), 'utf8');
+    return JSON.parse(raw) as ChatThread;
+  } catch {
+    return null;
+  }
+}
+
+export async function listChatThreads(): Promise<ChatThreadListItem[]> {
+  let ids: string[];
+  try {
+    ids = await readdir(getChatThreadsDir());
+  } catch {
+    return [];
+  }
+
+  const threads = (await Promise.all(ids.filter(isChatThreadId).map((id) => getChatThread(id))))
+    .filter((thread): thread is ChatThread => Boolean(thread));
+
+  return threads
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(toChatThreadListItem);
+}
+
+// Writes to one thread run one after another, so a summary, a rename, and a reply saved at the same time
+// each read the previous one's result instead of overwriting it.
+function queueThreadWrite<T>(id: string, write: () => Promise<T>): Promise<T> {
+  const result = (threadWrites.get(id) || Promise.resolve()).then(write);
+  const settled = result.catch(() => undefined);
+  threadWrites.set(id, settled);
+  void settled.then(() => {
+    if (threadWrites.get(id) === settled) threadWrites.delete(id);
+  });
+  return result;
+}
+
+// Re-reads the thread before applying the change, so a rename during a streamed reply is not overwritten.
+export function updateChatThread(id: string, update: (thread: ChatThread) => ChatThread): Promise<ChatThread | null> {
+  return queueThreadWrite(id, async () => {
+    const existing = await getChatThread(id);
+    if (!existing) return null;
+
+    const thread: ChatThread = { ...update(existing), id, updatedAt: new Date().toISOString() };
+    await writeChatThread(thread);
+    return thread;
+  });
+}
+
+async function writeChatArtifactFile(threadId: string, bytes: Uint8Array, extension: string): Promise<string> {
+  const artifactsDir = path.join(getChatThreadsDir(), threadId, ARTIFACTS_DIRNAME);
+  await mkdir(artifactsDir, { recursive: true });
+
+  // Tool results and attachments are saved concurrently, so names must not depend on what is already there.
+  const filename = `${randomUUID()}.${extension}`;
+  await writeFile(path.join(artifactsDir, filename), bytes, { flag: 'wx' });
+  return getChatArtifactUrl(threadId, filename);
+}
+
+// Stores a generated or attached image with the thread and returns the URL it is served from.
+export async function saveChatImage(threadId: string, image: string): Promise<string> {
+  const { mimeType, bytes } = await readImageBytes(image);
+  return writeChatArtifactFile(threadId, bytes, EXTENSION_BY_MIME_TYPE[mimeType]);
+}
+
+export async function saveChatArtifact(threadId: string, artifact: ChatImageArtifact): Promise<ChatImageArtifact> {
+  return { ...artifact, url: await saveChatImage(threadId, artifact.url) };
+}
+
+export async function saveChatFile(
+  threadId: string,
+  file: Omit<ChatFileArtifact, 'type' | 'url' | 'size'>,
+  bytes: Uint8Array,
+): Promise<ChatFileArtifact> {
+  const extension = Object.keys(MIME_TYPE_BY_EXTENSION).find((candidate) => MIME_TYPE_BY_EXTENSION[candidate] === file.mimeType);
+  if (!extension) throw new Error(`Chat files cannot be ${file.mimeType}.`);
+  return { ...file, type: 'file', url: await writeChatArtifactFile(threadId, bytes, extension), size: bytes.length };
+}
+
+export async function readChatArtifact(threadId: string, filename: string): Promise<{ mimeType: string; bytes: Buffer } | null> {
+  if (!isChatThreadId(threadId) || !ARTIFACT_FILENAME_PATTERN.test(filename)) return null;
+
+  try {
+    const bytes = await readFile(path.join(getChatThreadsDir(), threadId, ARTIFACTS_DIRNAME, filename));
+    return { mimeType: MIME_TYPE_BY_EXTENSION[filename.split('.')[1]], bytes };
+  } catch {
+    return null;
+  }
+}
+
+export async function readChatImage(url: string): Promise<{ mimeType: string; bytes: Buffer } | null> {
+  const location = parseChatArtifactUrl(url);
+  return location ? readChatArtifact(location.threadId, location.filename) : null;
+}
+
+export async function deleteChatThread(id: string): Promise<boolean> {
+  if (!(await getChatThread(id))) return false;
+  await rm(path.join(getChatThreadsDir(), id), { recursive: true, force: true });
+  return true;
+}
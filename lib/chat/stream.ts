@@ -0,0 +1,41 @@
+import { ChatStreamEvent } from './types';
+
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// Splits buffered SSE text into complete events and returns the unfinished tail to prepend to the next chunk.
+export function parseSseChunk(buffer: string): { events: { event?: string; data: string }[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() || '';
+  const events: { event?: string; data: string }[] = [];
+
+  for (const block of blocks) {
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of block.split('\n')) {
+      // Lines starting with ":" are comments, which OpenRouter uses as keep-alives.
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    }
+    if (data.length > 0) events.push({ event, data: data.join('\n') });
+  }
+
+  return { events, rest };
+}
+
+export async function readChatEventStream(body: ReadableStream<Uint8Array>, onEvent: (event: ChatStreamEvent) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const parsed = parseSseChunk(buffer + decoder.decode(value, { stream: true }));
+    buffer = parsed.rest;
+    for (const event of parsed.events) {
+      onEvent(JSON.parse(event.data) as ChatStreamEvent);
+    }
+  }
+}
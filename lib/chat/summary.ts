@@ -0,0 +1,83 @@
+import { buildMockThreadSummary, isMockMode } from '../mock';
+import { ChatThread, ChatThreadMessage } from './types';
+
+// The newest messages always go to the model verbatim; anything older is folded into the thread summary.
+export const RECENT_MESSAGE_COUNT = 16;
+
+// Older messages are summarised in batches rather than one per turn, so most replies skip the extra call.
+const SUMMARY_BATCH_SIZE = 8;
+const MAX_SUMMARY_TOKENS = 700;
+
+const SUMMARY_SYSTEM_PROMPT = `You maintain the running summary of a long creative-strategy chat between a user and ImageGenStudio's assistant.
+
+Merge the existing summary with the new messages into one updated summary. Keep what later turns will need:
+- The user's goals, audience, brand, campaign, and constraints.
+- Decisions made, ideas rejected, and open questions.
+- Post copy, hooks, and image prompts the user liked, quoted closely.
+- Images the user attached and images that were generated, and what they showed.
+
+Write plain prose and short bullet lists, no more than 400 words. Do not invent details.`;
+
+export function getMessagesToSummarize(thread: ChatThread): ChatThreadMessage[] {
+  const covered = thread.summary?.messageCount || 0;
+  const end = thread.messages.length - RECENT_MESSAGE_COUNT;
+  return end - covered >= SUMMARY_BATCH_SIZE ? thread.messages.slice(covered, end) : [];
+}
+
+function toTranscriptLine(message: ChatThreadMessage): string {
+  const attachments = message.attachments?.length ? ` [Attached ${message.attachments.length} image(s)]` : '';
+  const artifacts = (message.artifacts || []).map((artifact) => (
+    artifact.type === 'file'
+      ? ` [Exported ${artifact.label}: ${artifact.filename}]`
+      : ` [Generated ${artifact.label || artifact.layout} image: ${artifact.prompt}]`
+  )).join('');
+  return `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}${attachments}${artifacts}`;
+}
+
+export async function summarizeChatMessages(
+  previousSummary: string | undefined,
+  messages: ChatThreadMessage[],
+  signal?: AbortSignal,
+): Promise<string> {
+  const transcript = messages.map(toTranscriptLine);
+  if (isMockMode()) return buildMockThreadSummary(previousSummary, transcript);
+
+  const apiKey = process.env.OPENROUTER_API_KEY;
+  if (!apiKey) {
+    throw new Error('OPENROUTER_API_KEY is not configured.');
+  }
+
+  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+      'HTTP-Referer': process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
+      'X-Title': 'ImageGenStudio',
+    },
+    body: JSON.stringify({
+      model: process.env.OPENROUTER_AGENT_MODEL || 'openai/gpt-5.5',
+      temperature: 0.2,
+      max_tokens: MAX_SUMMARY_TOKENS,
+      messages: [
+        { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+        {
+          role: 'user',
+          content: `Existing summary:\n${previousSummary || '(none yet)'}\n\nNew messages:\n${transcript.join('\n\n')}`,
+        },
+      ],
+    }),
+    signal,
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error?.message || 'Thread summary failed.');
+  }
+
+  const summary = data?.choices?.[0]?.message?.content;
+  if (typeof summary !== 'string' || !summary.trim()) {
+    throw new Error('Thread summary came back empty.');
+  }
+  return summary.trim();
+}
@@ -0,0 +1,11 @@
+export const MAX_CHAT_TITLE_LENGTH = 80;
+
+const DERIVED_TITLE_LENGTH = 60;
+
+// New threads are named after the opening message until the user renames them.
+export function titleFromMessage(content: string): string {
+  const firstLine = content.trim().split('\n')[0].replace(/\s+/g, ' ');
+  return firstLine.length > DERIVED_TITLE_LENGTH
+    ? `${firstLine.slice(0, DERIVED_TITLE_LENGTH - 1).trimEnd()}…`
+    : firstLine || 'New chat';
+}
@@ -0,0 +1,88 @@
+import { Layout, Model } from '../modelConfig';
+
+export type ChatImageArtifact = {
+  type: 'image';
+  url: string;
+  prompt: string;
+  // Absent on resized copies, which no model drew.
+  layout?: Layout;
+  model?: Model;
+  // Names a page or preset export when the image is part of a storybook or package.
+  label?: string;
+};
+
+// A finished download, such as a storybook PDF or an OG package ZIP, stored with the thread.
+export type ChatFileArtifact = {
+  type: 'file';
+  url: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  label: string;
+  prompt: string;
+};
+
+export type ChatArtifact = ChatImageArtifact | ChatFileArtifact;
+
+// An image the user attached, stored with the thread and served from its artifact URL.
+export type ChatAttachment = {
+  type: 'image';
+  url: string;
+  name?: string;
+};
+
+export type ChatSource = {
+  title: string;
+  url: string;
+  publishedDate?: string;
+  snippet?: string;
+};
+
+export type ChatReply = {
+  role: 'assistant';
+  content: string;
+  artifacts: ChatArtifact[];
+  sources: ChatSource[];
+};
+
+export interface ChatThreadMessage {
+  id: string;
+  createdAt: string;
+  role: 'user' | 'assistant';
+  content: string;
+  attachments?: ChatAttachment[];
+  artifacts?: ChatArtifact[];
+  sources?: ChatSource[];
+  stopped?: boolean;
+  // Set when the reply failed part-way; what streamed before the failure is kept.
+  error?: string;
+}
+
+// Earlier messages folded into prose so long threads keep their context within the model's window.
+export interface ChatThreadSummary {
+  text: string;
+  // How many messages from the start of the thread the summary covers.
+  messageCount: number;
+  updatedAt: string;
+}
+
+export interface ChatThread {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  title: string;
+  messages: ChatThreadMessage[];
+  summary: ChatThreadSummary | null;
+}
+
+export type ChatThreadListItem = Pick<ChatThread, 'id' | 'createdAt' | 'updatedAt' | 'title'> & { messageCount: number };
+
+// Server-sent events from /api/chat, in the order they can arrive. `done` or `error` always ends the stream.
+export type ChatStreamEvent =
+  | { type: 'thread'; thread: ChatThreadListItem }
+  | { type: 'status'; label: string }
+  | { type: 'delta'; text: string }
+  | { type: 'source'; source: ChatSource }
+  | { type: 'artifact'; artifact: ChatArtifact }
+  | { type: 'done'; message: ChatReply; model: string }
+  | { type: 'error'; error: string };
@@ -0,0 +1,221 @@
+import { buildCreatorPrompt, buildStorybookPagePrompts, CreatorPreset, getCreatorPreset } from '../creatorContent';
+import { readImageBytes } from '../history/store';
+import { Model, MODEL_CAPABILITIES } from '../modelConfig';
+import { buildOgPackageBundle, OgBundleAsset } from '../og/bundle';
+import { exportOgPackage } from '../og/package';
+import { OgPackageMeta } from '../og/types';
+import { outpaintWithProvider } from '../serverImageEditing';
+import { formatImage, FormatImageOptions, getPresetFormatOptions } from '../serverImageFormat';
+import { generateWithProvider } from '../serverImageGeneration';
+import { createImagePdf, getPdfFilename, PdfPageImage } from '../serverPdf';
+import { createZipArchive } from '../serverZip';
+import { TextOverlay } from '../textOverlay';
+import { readChatImageReference } from './images';
+import { readChatImage, saveChatArtifact, saveChatFile } from './store';
+import { ChatArtifact, ChatImageArtifact } from './types';
+
+// The studio's multi-step outputs run server-side for the agent: every image is formatted exactly as the
+// studio exports it, and finished PDFs and packages are stored with the thread as downloadable files.
+
+export const STORYBOOK_PRESET_ID = 'linkedin-storybook-page';
+export const OG_PACKAGE_PRESET_ID = 'website-og-package';
+
+export type WorkflowProgress = (label: string) => void;
+
+export interface WorkflowResult {
+  artifacts: ChatArtifact[];
+  // Steps that fell back or were skipped while the rest of the output still shipped.
+  warnings: string[];
+}
+
+export interface StorybookWorkflowRequest {
+  brief: string;
+  title: string;
+  model: Model;
+}
+
+export interface CreatorAssetWorkflowRequest {
+  brief: string;
+  preset: CreatorPreset;
+  model: Model;
+  overlay: TextOverlay | null;
+  // A stored chat image sent as the subject reference, required by the enhance preset.
+  sourceUrl?: string;
+}
+
+export interface OgPackageWorkflowRequest {
+  brief: string;
+  meta: OgPackageMeta;
+  model: Model;
+  overlay: TextOverlay | null;
+}
+
+export interface ResizeWorkflowRequest {
+  sourceUrl: string;
+  label: string;
+  options: FormatImageOptions;
+}
+
+function toDataUrl(bytes: Buffer, format: FormatImageOptions['format']): string {
+  return `data:image/${format};base64,${bytes.toString('base64')}`;
+}
+
+async function renderPresetImage(image: string, preset: CreatorPreset, overlay?: TextOverlay | null): Promise<Buffer> {
+  const { bytes } = await readImageBytes(image);
+  return formatImage(bytes, getPresetFormatOptions(preset, overlay));
+}
+
+export async function runStorybookWorkflow(
+  { brief, title, model }: StorybookWorkflowRequest,
+  threadId: string,
+  onProgress: WorkflowProgress,
+  signal?: AbortSignal,
+): Promise<WorkflowResult> {
+  const preset = getCreatorPreset(STORYBOOK_PRESET_ID);
+  if (!preset) throw new Error('The storybook preset is missing.');
+
+  const pagePrompts = buildStorybookPagePrompts(brief, preset);
+  const format = getPresetFormatOptions(preset).format;
+  const artifacts: ChatArtifact[] = [];
+  const pdfPages: PdfPageImage[] = [];
+
+  for (const pagePrompt of pagePrompts) {
+    onProgress(`Page ${pagePrompt.pageNumber} of ${pagePrompts.length}: ${pagePrompt.title}`);
+    const imageUrl = await generateWithProvider(pagePrompt.prompt, preset.generationLayout, model, [], undefined, signal);
+    const page = await renderPresetImage(imageUrl, preset);
+    pdfPages.push({ mimeType: `image/${format}`, bytes: page });
+    artifacts.push(await saveChatArtifact(threadId, {
+      type: 'image',
+      url: toDataUrl(page, format),
+      prompt: `${pagePrompt.title} page: ${brief}`,
+      layout: preset.generationLayout,
+      model,
+      label: `Page ${pagePrompt.pageNumber}: ${pagePrompt.title}`,
+    }));
+  }
+
+  onProgress('Building the PDF');
+  const pdf = await createImagePdf(pdfPages, preset.width, preset.height, title);
+  artifacts.push(await saveChatFile(threadId, {
+    filename: getPdfFilename(title),
+    mimeType: 'application/pdf',
+    label: `${pagePrompts.length}-page storybook PDF`,
+    prompt: brief,
+  }, pdf));
+
+  return { artifacts, warnings: [] };
+}
+
+export async function runCreatorAssetWorkflow(
+  { brief, preset, model, overlay, sourceUrl }: CreatorAssetWorkflowRequest,
+  threadId: string,
+  onProgress: WorkflowProgress,
+  signal?: AbortSignal,
+): Promise<WorkflowResult> {
+  const source = sourceUrl ? await readChatImageReference(sourceUrl) : null;
+  if (sourceUrl && !source) throw new Error('The source image could not be read.');
+
+  const imageUrl = await generateWithProvider(
+    buildCreatorPrompt(brief, preset, null, Boolean(overlay)),
+    preset.generationLayout,
+    model,
+    source ? [{ imageData: source.imageData, role: 'subject' }] : [],
+    undefined,
+    signal,
+  );
+
+  onProgress(`Exporting ${preset.dimensions}`);
+  const options = getPresetFormatOptions(preset, overlay);
+  const image = await renderPresetImage(imageUrl, preset, overlay);
+  const artifact: ChatImageArtifact = await saveChatArtifact(threadId, {
+    type: 'image',
+    url: toDataUrl(image, options.format),
+    prompt: brief,
+    layout: preset.generationLayout,
+    model,
+    label: `${preset.label} (${preset.dimensions})`,
+  });
+
+  return { artifacts: [artifact], warnings: [] };
+}
+
+// One master, then every preset extended or cropped from it by the same export loop as the studio.
+export async function runOgPackageWorkflow(
+  { brief, meta, model, overlay }: OgPackageWorkflowRequest,
+  threadId: string,
+  onProgress: WorkflowProgress,
+  signal?: AbortSignal,
+): Promise<WorkflowResult> {
+  const preset = getCreatorPreset(OG_PACKAGE_PRESET_ID);
+  if (!preset) throw new Error('The OG package preset is missing.');
+
+  onProgress('Rendering master preview');
+  const masterImage = await generateWithProvider(
+    buildCreatorPrompt(brief, preset, null, Boolean(overlay)),
+    preset.generationLayout,
+    model,
+    [],
+    undefined,
+    signal,
+  );
+
+  const { exports, failedExports, croppedExports } = await exportOgPackage(masterImage, {
+    outpaint: MODEL_CAPABILITIES[model].supportsMaskedEdits
+      ? (image, exportPreset) => outpaintWithProvider(image, exportPreset.width, exportPreset.height, brief, model, signal)
+      : null,
+    format: (sourceImage, exportPreset) => renderPresetImage(sourceImage, exportPreset, overlay),
+    onProgress,
+    signal,
+  });
+  const assets: OgBundleAsset[] = exports.map(({ preset: exportPreset, output, ...image }) => ({
+    ...image,
+    bytes: output,
+    format: getPresetFormatOptions(exportPreset).format,
+  }));
+  const warnings = [
+    ...croppedExports.map((label) => `Canvas extension failed for ${label}, so the master was cropped instead.`),
+    ...failedExports.map((label) => `The ${label} export failed and is not in the package.`),
+  ];
+
+  onProgress('Building the package');
+  const [master] = assets;
+  const masterPreset = getCreatorPreset(master.presetId);
+  const artifacts: ChatArtifact[] = [
+    await saveChatArtifact(threadId, {
+      type: 'image',
+      url: toDataUrl(master.bytes, master.format === 'jpeg' ? 'jpeg' : 'png'),
+      prompt: brief,
+      layout: preset.generationLayout,
+      model,
+      label: masterPreset ? `${masterPreset.label} (${masterPreset.dimensions})` : master.filename,
+    }),
+    await saveChatFile(threadId, {
+      filename: 'og-package.zip',
+      mimeType: 'application/zip',
+      label: `Social preview package (${assets.length} images and meta tags)`,
+      prompt: brief,
+    }, createZipArchive(buildOgPackageBundle(meta, assets))),
+  ];
+
+  return { artifacts, warnings };
+}
+
+export async function runResizeWorkflow(
+  { sourceUrl, label, options }: ResizeWorkflowRequest,
+  threadId: string,
+  signal?: AbortSignal,
+): Promise<WorkflowResult> {
+  const source = await readChatImage(sourceUrl);
+  if (!source) throw new Error('The source image could not be read.');
+
+  signal?.throwIfAborted();
+  const image = await formatImage(source.bytes, options);
+  signal?.throwIfAborted();
+  const artifact = await saveChatArtifact(threadId, {
+    type: 'image',
+    url: toDataUrl(image, options.format),
+    prompt: label,
+    label,
+  });
+  return { artifacts: [artifact], warnings: [] };
+}
@@ -1,7 +1,10 @@
+import { buildBrandKitPrompt } from './brandKits/prompt';
+import { BrandKit } from './brandKits/types';
 import { Layout } from './modelConfig';
-import { getOgPackagePresets, getOgPreset, OG_MASTER_PRESET_ID, OG_PRESETS } from './og/presets';
+import { getOgPackagePresets, getOgPreset, OG_MASTER_PRESET_ID, OG_PACKAGE_PRESET_IDS, OG_PRESETS } from './og/presets';
 import { buildOgPackageMasterPrompt, buildOgPrompt } from './og/prompts';
 import { OgPreset } from './og/types';
+import { TEXT_OVERLAY_ARTWORK_RULES } from './textOverlay';
 
 export type CreatorPlatform = 'linkedin' | 'website';
 export type CreatorWorkflow = 'banner' | 'post-image' | 'storybook' | 'enhance' | 'og-image' | 'og-package';
@@ -27,7 +30,7 @@ export interface CreatorPreset {
   exportQuality?: number;
   maxFileSizeKb?: number;
   ogPlatform?: OgPreset['platform'];
-  exportFit?: 'cover' | 'contain';
+  exportFit?: OgPreset['exportFit'];
 }
 
 export interface StorybookPagePrompt {
@@ -181,7 +184,7 @@ export const CREATOR_PRESETS: CreatorPreset[] = [
     workflow: 'og-package',
     label: 'Full social preview package',
     shortLabel: 'OG package',
-    dimensions: '6 exports',
+    dimensions: `${OG_PACKAGE_PRESET_IDS.length} exports`,
     width: 1200,
     height: 630,
     generationLayout: 'landscape',
@@ -206,26 +209,36 @@ export function getOgPackageExportPresets(): CreatorPreset[] {
   return getOgPackagePresets().map((preset) => getCreatorPreset(preset.id)).filter((preset): preset is CreatorPreset => Boolean(preset));
 }
 
-export function buildCreatorPrompt(userPrompt: string, preset?: CreatorPreset | null): string {
+// With artworkOnly the model draws no copy; /api/format composites the text overlay afterwards.
+export function buildCreatorPrompt(
+  userPrompt: string,
+  preset?: CreatorPreset | null,
+  brandKit?: BrandKit | null,
+  artworkOnly = false,
+): string {
   const trimmedPrompt = userPrompt.trim();
-  if (!preset) return trimmedPrompt;
+  if (!preset) {
+    return [trimmedPrompt, buildBrandKitPrompt(brandKit)].filter(Boolean).join('\n\n');
+  }
 
   if (preset.platform === 'website') {
     const ogPreset = getOgPreset(preset.id);
     if (preset.workflow === 'og-package' && preset.id === 'website-og-package') {
       const masterPreset = getOgPreset(OG_MASTER_PRESET_ID);
       if (masterPreset) {
-        return buildOgPackageMasterPrompt(trimmedPrompt, masterPreset);
+        return buildOgPackageMasterPrompt(trimmedPrompt, masterPreset, brandKit, artworkOnly);
       }
     }
     if (ogPreset) {
-      return buildOgPrompt(trimmedPrompt, ogPreset);
+      return buildOgPrompt(trimmedPrompt, ogPreset, brandKit, artworkOnly);
     }
   }
 
   return [
     preset.promptPrefix,
     ...(preset.negativePromptRules || []),
+    artworkOnly ? TEXT_OVERLAY_ARTWORK_RULES : '',
+    buildBrandKitPrompt(brandKit),
     trimmedPrompt ? `User brief: ${trimmedPrompt}` : '',
     preset.platform === 'website'
       ? 'Output must be polished enough for production website launch and social link previews.'
@@ -233,9 +246,10 @@ export function buildCreatorPrompt(userPrompt: string, preset?: CreatorPreset |
   ].filter(Boolean).join('\n\n');
 }
 
-export function buildStorybookPagePrompts(userPrompt: string, preset: CreatorPreset): StorybookPagePrompt[] {
+export function buildStorybookPagePrompts(userPrompt: string, preset: CreatorPreset, brandKit?: BrandKit | null): StorybookPagePrompt[] {
   const trimmedPrompt = userPrompt.trim();
   const pageCount = STORYBOOK_PAGE_PLAN.length;
+  const brandKitPrompt = buildBrandKitPrompt(brandKit);
 
   return STORYBOOK_PAGE_PLAN.map((page, index) => {
     const pageNumber = index + 1;
@@ -246,6 +260,7 @@ export function buildStorybookPagePrompts(userPrompt: string, preset: CreatorPre
       'Use the same visual system, color palette, type scale, margin rhythm, and brand feel across all pages.',
       'Content fit contract: keep all text inside a 90px safe margin, use no more than one headline and two short supporting lines, avoid tiny text, avoid dense paragraphs, and leave enough whitespace that the page reads on mobile.',
       'Do not create a collage, grid, mockup, or contact sheet of multiple pages. Generate exactly one finished page image for this page number.',
+      brandKitPrompt,
       trimmedPrompt ? `User brief: ${trimmedPrompt}` : '',
       'Output must be polished enough for a creator studio managing executive, founder, or expert accounts.',
     ];
@@ -0,0 +1,62 @@
+export type CropStrategy = 'centre' | 'attention' | 'entropy';
+
+export const CROP_STRATEGIES: { value: CropStrategy; label: string; description: string }[] = [
+  { value: 'attention', label: 'Smart', description: 'Keeps faces, skin tones, and the most saturated, high-contrast region.' },
+  { value: 'entropy', label: 'Detail', description: 'Keeps the region with the most visual detail.' },
+  { value: 'centre', label: 'Centre', description: 'Crops evenly from both sides.' },
+];
+
+export const DEFAULT_CROP_STRATEGY: CropStrategy = 'centre';
+
+// Normalized 0-1 coordinates so a crop survives any rescale of the source.
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+export interface CropBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// box wins over focalPoint, which wins over strategy.
+export interface CropOptions {
+  strategy?: CropStrategy;
+  focalPoint?: FocalPoint;
+  box?: CropBox;
+}
+
+export function isCropStrategy(value: unknown): value is CropStrategy {
+  return CROP_STRATEGIES.some((strategy) => strategy.value === value);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// The export frame for a cover crop: the largest window at the target aspect ratio, shrunk by zoom and
+// centred on the focal point as far as the source edges allow. Returned as fractions of the source.
+export function getCropFrame(
+  sourceWidth: number,
+  sourceHeight: number,
+  targetWidth: number,
+  targetHeight: number,
+  focalPoint: FocalPoint = { x: 0.5, y: 0.5 },
+  zoom = 1,
+): CropBox {
+  const targetRatio = targetWidth / targetHeight;
+  const fullWidth = sourceWidth / sourceHeight > targetRatio ? sourceHeight * targetRatio : sourceWidth;
+  const frameWidth = fullWidth / Math.max(1, zoom);
+  const frameHeight = frameWidth / targetRatio;
+  const width = frameWidth / sourceWidth;
+  const height = frameHeight / sourceHeight;
+
+  return {
+    left: clamp(focalPoint.x - width / 2, 0, 1 - width),
+    top: clamp(focalPoint.y - height / 2, 0, 1 - height),
+    width,
+    height,
+  };
+}
@@ -0,0 +1,95 @@
+import { ReferenceImage } from '../referenceImages';
+import { HistoryEntry, HistoryEntryInput } from './types';
+
+const HISTORY_OUTPUT_PATH_PATTERN = /^\/api\/history\/([a-f0-9-]{36})\/outputs\/([0-9]+)$/;
+
+export function getHistoryOutputUrl(entryId: string, index: number, download = false): string {
+  return `/api/history/${entryId}/outputs/${index}${download ? '?download=1' : ''}`;
+}
+
+export function parseHistoryOutputPath(pathname: string): { entryId: string; index: number } | null {
+  const match = pathname.match(HISTORY_OUTPUT_PATH_PATTERN);
+  return match ? { entryId: match[1], index: Number(match[2]) } : null;
+}
+
+export async function hashReferenceImage(imageData: string): Promise<string> {
+  const data = new TextEncoder().encode(imageData);
+  const hash = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(hash))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Role and order change the output, so they are part of the hash.
+export async function hashReferenceImages(references: ReferenceImage[]): Promise<string | null> {
+  if (references.length === 0) return null;
+  return hashReferenceImage(references.map((reference) => `${reference.role}:${reference.imageData}`).join('\n'));
+}
+
+export async function saveHistoryEntry(input: HistoryEntryInput): Promise<HistoryEntry> {
+  const response = await fetch('/api/history', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.entry) {
+    throw new Error(data?.error || 'Failed to save generation to history.');
+  }
+
+  return data.entry;
+}
+
+export async function fetchHistoryEntries(query?: string): Promise<HistoryEntry[]> {
+  const params = new URLSearchParams();
+  if (query?.trim()) params.set('q', query.trim());
+
+  const search = params.toString();
+  const response = await fetch(`/api/history${search ? `?${search}` : ''}`);
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || 'Failed to load history.');
+  }
+
+  return data?.entries || [];
+}
+
+// Only published entries are served by the public /api/og/render endpoint.
+export async function updateHistoryOgTemplate(entryId: string, ogTemplate: boolean): Promise<HistoryEntry> {
+  const response = await fetch(`/api/history/${entryId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ogTemplate }),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.entry) {
+    throw new Error(data?.error || 'Failed to update the OG template.');
+  }
+
+  return data.entry;
+}
+
+export async function removeHistoryEntry(entryId: string): Promise<void> {
+  const response = await fetch(`/api/history/${entryId}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || 'Failed to delete history entry.');
+  }
+}
+
+export async function fetchHistoryOutputAsDataUrl(entryId: string, index: number): Promise<string> {
+  const response = await fetch(getHistoryOutputUrl(entryId, index));
+  if (!response.ok) {
+    throw new Error(`Failed to load history output (${response.status}).`);
+  }
+
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error('Failed to read history output.'));
+    reader.readAsDataURL(blob);
+  });
+}
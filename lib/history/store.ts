@@ -0,0 +1,168 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import sharp from 'sharp';
+import { parseHistoryOutputPath } from './client';
+import { HistoryEntry, HistoryEntryInput, HistoryOutput } from './types';
+
+const ENTRY_FILENAME = 'entry.json';
+const ID_PATTERN = /^[a-f0-9-]{36}$/;
+
+const EXTENSION_BY_MIME_TYPE: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/webp': 'webp',
+};
+
+const MIME_TYPE_BY_FORMAT: Record<string, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+export function getHistoryDir(): string {
+  return process.env.HISTORY_DIR || path.join(process.cwd(), '.data', 'history');
+}
+
+export function isHistoryId(value: unknown): value is string {
+  return typeof value === 'string' && ID_PATTERN.test(value);
+}
+
+// Outputs are served back from this origin, so only PNG, JPEG, and WebP are kept and the stored type is the
+// format sharp reads from the bytes. A declared SVG or a mislabelled HTML file would otherwise run as a page.
+export async function parseImageData(image: string): Promise<{ mimeType: string; bytes: Buffer } | null> {
+  const match = image.match(/^data:(image\/[^;]+);base64,(.+)$/);
+  if (!match?.[1] || !match[2] || !EXTENSION_BY_MIME_TYPE[match[1]]) return null;
+
+  const bytes = Buffer.from(match[2], 'base64');
+  try {
+    const { format } = await sharp(bytes).metadata();
+    const mimeType = format ? MIME_TYPE_BY_FORMAT[format] : undefined;
+    return mimeType ? { mimeType, bytes } : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function readImageBytes(image: string): Promise<{ mimeType: string; bytes: Buffer }> {
+  const parsed = await parseImageData(image);
+  if (!parsed) {
+    throw new Error('Images must be PNG, JPEG, or WebP data URIs.');
+  }
+  return parsed;
+}
+
+export async function createHistoryEntry(input: HistoryEntryInput): Promise<HistoryEntry> {
+  const id = randomUUID();
+  const entryDir = path.join(getHistoryDir(), id);
+  await mkdir(entryDir, { recursive: true });
+
+  try {
+    const outputs: HistoryOutput[] = [];
+    for (const [index, output] of input.outputs.entries()) {
+      const { mimeType, bytes } = await readImageBytes(output.image);
+      const filename = `${index}.${EXTENSION_BY_MIME_TYPE[mimeType]}`;
+      await writeFile(path.join(entryDir, filename), bytes);
+      outputs.push({
+        label: output.label,
+        presetId: output.presetId,
+        filename,
+        mimeType,
+        width: output.width,
+        height: output.height,
+      });
+    }
+
+    const entry: HistoryEntry = {
+      id,
+      createdAt: new Date().toISOString(),
+      kind: input.kind,
+      prompt: input.prompt,
+      resolvedPrompt: input.resolvedPrompt,
+      model: input.model,
+      layout: input.layout,
+      presetId: input.presetId || null,
+      referenceImageHash: input.referenceImageHash || null,
+      outputs,
+    };
+
+    await writeFile(path.join(entryDir, ENTRY_FILENAME), JSON.stringify(entry, null, 2));
+    return entry;
+  } catch (error) {
+    await rm(entryDir, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+export async function getHistoryEntry(id: string): Promise<HistoryEntry | null> {
+  if (!isHistoryId(id)) return null;
+
+  try {
+    const raw = await readFile(path.join(getHistoryDir(), id, ENTRY_FILENAME), 'utf8');
+    return JSON.parse(raw) as HistoryEntry;
+  } catch {
+    return null;
+  }
+}
+
+export async function listHistoryEntries({ query, limit }: { query?: string; limit?: number } = {}): Promise<HistoryEntry[]> {
+  let ids: string[];
+  try {
+    ids = await readdir(getHistoryDir());
+  } catch {
+    return [];
+  }
+
+  const entries = (await Promise.all(ids.filter(isHistoryId).map((id) => getHistoryEntry(id))))
+    .filter((entry): entry is HistoryEntry => Boolean(entry));
+  const normalizedQuery = query?.trim().toLowerCase();
+
+  return entries
+    .filter((entry) => !normalizedQuery
+      || entry.prompt.toLowerCase().includes(normalizedQuery)
+      || entry.presetId?.toLowerCase().includes(normalizedQuery)
+      || entry.model.toLowerCase().includes(normalizedQuery))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit);
+}
+
+export async function setHistoryOgTemplate(id: string, ogTemplate: boolean): Promise<HistoryEntry | null> {
+  const existing = await getHistoryEntry(id);
+  if (!existing) return null;
+
+  const entry: HistoryEntry = { ...existing, ogTemplate };
+  await writeFile(path.join(getHistoryDir(), id, ENTRY_FILENAME), JSON.stringify(entry, null, 2));
+  return entry;
+}
+
+export async function readHistoryOutput(id: string, index: number): Promise<{ output: HistoryOutput; bytes: Buffer } | null> {
+  const entry = await getHistoryEntry(id);
+  const output = entry?.outputs[index];
+  if (!output) return null;
+
+  const bytes = await readFile(path.join(getHistoryDir(), id, output.filename));
+  return { output, bytes };
+}
+
+// Editing routes take an inline image or one of this studio's saved outputs by its same-origin URL. Saved
+// outputs are read from disk, so the server never fetches a URL the caller names.
+export async function resolveSourceImage(image: string, origin: string): Promise<string | null> {
+  if (image.startsWith('data:image/')) return image;
+
+  let url: URL;
+  try {
+    url = new URL(image, origin);
+  } catch {
+    return null;
+  }
+  const location = url.origin === origin ? parseHistoryOutputPath(url.pathname) : null;
+  const result = location ? await readHistoryOutput(location.entryId, location.index) : null;
+  return result ? `data:${result.output.mimeType};base64,${result.bytes.toString('base64')}` : null;
+}
+
+export async function deleteHistoryEntry(id: string): Promise<boolean> {
+  if (!(await getHistoryEntry(id))) return false;
+  await rm(path.join(getHistoryDir(), id), { recursive: true, force: true });
+  return true;
+}
@@ -0,0 +1,46 @@
+import { Layout, Model } from '../modelConfig';
+
+export type HistoryKind = 'image' | 'edit' | 'storybook' | 'og-package';
+
+export interface HistoryOutput {
+  label: string;
+  presetId?: string;
+  filename: string;
+  mimeType: string;
+  width?: number;
+  height?: number;
+}
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: string;
+  kind: HistoryKind;
+  prompt: string;
+  resolvedPrompt: string;
+  model: Model;
+  layout: Layout;
+  presetId: string | null;
+  referenceImageHash: string | null;
+  outputs: HistoryOutput[];
+  // Published for the public /api/og/render endpoint; unset entries are never served there.
+  ogTemplate?: boolean;
+}
+
+export interface HistoryOutputInput {
+  label: string;
+  presetId?: string;
+  image: string;
+  width?: number;
+  height?: number;
+}
+
+export interface HistoryEntryInput {
+  kind: HistoryKind;
+  prompt: string;
+  resolvedPrompt: string;
+  model: Model;
+  layout: Layout;
+  presetId?: string | null;
+  referenceImageHash?: string | null;
+  outputs: HistoryOutputInput[];
+}
@@ -1,4 +1,5 @@
 import { DEFAULT_MODEL, Layout, Model } from './modelConfig';
+import { ReferenceImage } from './referenceImages';
 
 type LayoutInput = Layout | { type: 'reference'; width: number; height: number };
 
@@ -6,21 +7,33 @@ export async function generateImage(
   prompt: string,
   layout: LayoutInput,
   model: Model = DEFAULT_MODEL,
-  imageData?: string
+  references: ReferenceImage[] = []
 ): Promise<string> {
+  const [imageUrl] = await generateImageVariants(prompt, layout, model, references, 1);
+  return imageUrl;
+}
+
+export async function generateImageVariants(
+  prompt: string,
+  layout: LayoutInput,
+  model: Model = DEFAULT_MODEL,
+  references: ReferenceImage[] = [],
+  variants = 1
+): Promise<string[]> {
   try {
     const requestBody: Record<string, unknown> = {
       prompt,
       layout: typeof layout === 'object' ? layout.type : layout,
       model,
+      variants,
     };
 
     if (typeof layout === 'object' && layout.type === 'reference') {
       requestBody.referenceDimensions = { width: layout.width, height: layout.height };
     }
 
-    if (imageData) {
-      requestBody.imageData = imageData;
+    if (references.length) {
+      requestBody.references = references.map(({ imageData, role }) => ({ imageData, role }));
     }
 
     const response = await fetch('/api/generate', {
@@ -55,7 +68,7 @@ export async function generateImage(
       throw new Error('No image data found in OpenRouter response.');
     }
 
-    return data.imageUrl;
+    return Array.isArray(data.imageUrls) && data.imageUrls.length ? data.imageUrls : [data.imageUrl];
   } catch (error) {
     console.error('Error generating image:', error);
 
@@ -77,3 +90,48 @@ export async function generateImage(
   }
 }
 
+
+export async function editImage(
+  imageData: string,
+  maskData: string,
+  prompt: string,
+  model: Model = DEFAULT_MODEL
+): Promise<string> {
+  const response = await fetch('/api/edit', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ imageData, maskData, prompt, model }),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.imageUrl) {
+    throw new Error(data?.error || `Failed to edit image (HTTP ${response.status}).`);
+  }
+
+  return data.imageUrl;
+}
+
+export async function outpaintImage(
+  imageData: string,
+  width: number,
+  height: number,
+  prompt: string,
+  model: Model = DEFAULT_MODEL
+): Promise<string> {
+  const response = await fetch('/api/outpaint', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ imageData, width, height, prompt, model }),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.imageUrl) {
+    throw new Error(data?.error || `Failed to extend image (HTTP ${response.status}).`);
+  }
+
+  return data.imageUrl;
+}
@@ -0,0 +1,257 @@
+import { Layout } from './modelConfig';
+
+// Deterministic stand-ins for every upstream call so the studio runs with no network or API keys.
+export const MOCK_MODEL_ID = 'mock';
+
+export function isMockMode(): boolean {
+  const value = process.env.MOCK_PROVIDERS?.trim().toLowerCase();
+  return value === '1' || value === 'true';
+}
+
+export type MockAgentToolCall = {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+};
+
+export type MockAgentMessage = {
+  role: 'assistant';
+  content: string | null;
+  tool_calls?: MockAgentToolCall[];
+};
+
+const IMAGE_REQUEST_PATTERN = /\b(image|visual|banner|picture|illustration|graphic|render|draw|generate|mockup)\b/i;
+const EDIT_REQUEST_PATTERN = /\b(critique|improve|better|edit|fix|redo|rework|version)\b/i;
+const ATTACHED_IMAGE_PATTERN = /\[Attached (image-\d+)\]/g;
+const STORYBOOK_REQUEST_PATTERN = /\b(carousel|storybook|pdf)\b/i;
+const OG_PACKAGE_REQUEST_PATTERN = /\b(social preview|link preview|og package|open graph)\b/i;
+const BANNER_REQUEST_PATTERN = /\b(profile banner|linkedin banner)\b/i;
+const RESIZE_REQUEST_PATTERN = /\b(resize|reformat|square version)\b/i;
+const URL_PATTERN = /https?:\/\/[^\s)]+/;
+
+type MockConversationMessage = {
+  role: string;
+  content: string | null | Array<{ type: string; text?: string }>;
+};
+
+function getMessageText(message?: MockConversationMessage): string {
+  if (!message?.content) return '';
+  if (typeof message.content === 'string') return message.content;
+  return message.content.map((part) => part.text || '').join('\n');
+}
+
+function truncate(value: string, maxLength: number): string {
+  const trimmed = value.trim().replace(/\s+/g, ' ');
+  return trimmed.length > maxLength ? `${trimmed.slice(0, maxLength - 1)}…` : trimmed;
+}
+
+function mockToolCall(id: number, name: string, args: Record<string, unknown>): MockAgentToolCall[] {
+  return [{ id: `mock-call-${id}`, type: 'function', function: { name, arguments: JSON.stringify(args) } }];
+}
+
+function guessLayout(text: string): Layout {
+  if (/\b(banner|landscape|header|cover|wide|og)\b/i.test(text)) return 'landscape';
+  if (/\bsquare\b/i.test(text)) return 'square';
+  if (/\b(story|stories|mobile|vertical|reel)\b/i.test(text)) return 'mobile';
+  return 'portrait';
+}
+
+export function buildMockCompletion(prompt: string, mode: 'complete' | 'correct'): string {
+  return mode === 'correct'
+    ? `${truncate(prompt, 160)}, soft directional lighting, clean editorial composition, sharp focus`
+    : 'with soft window light and a shallow depth of field';
+}
+
+export function buildMockTranscription(): string {
+  return 'Create a LinkedIn carousel about three lessons we learned shipping our first product.';
+}
+
+export function buildMockCreatorDirection(message: string) {
+  const brief = truncate(message, 120);
+  const pages = [
+    { title: 'Hook', visualDirection: 'Bold headline on a calm gradient with one focal object.', copy: `Most teams get this wrong: ${brief}` },
+    { title: 'Problem', visualDirection: 'Split layout contrasting the messy status quo with a clear outcome.', copy: 'The usual approach burns time and trust.' },
+    { title: 'Insight', visualDirection: 'Single diagram with three labelled steps.', copy: 'Start with the audience, then the format.' },
+    { title: 'Proof', visualDirection: 'Large metric callout with a supporting chart.', copy: 'Teams that tried it shipped twice as fast.' },
+    { title: 'CTA', visualDirection: 'Brand colors, short question, generous whitespace.', copy: 'What would you add? Comment below.' },
+  ];
+
+  return {
+    summary: `Mock creator direction for: ${brief}`,
+    imagePrompt: `Clean LinkedIn feed visual about ${brief}, bold headline area, soft gradient background, high contrast, mobile readable`,
+    postCopy: `Hook: ${brief}\n\nHere is what we learned and what we would do differently.\n\nWhat would you try first?`,
+    storybook: pages,
+    productionNotes: [
+      'Mock mode: content is canned and does not reflect a real model response.',
+      'Feed portrait exports at 1080x1350.',
+      'Keep headlines readable at mobile width.',
+    ],
+  };
+}
+
+export function buildMockOgDirection(message: string) {
+  const brief = truncate(message, 120);
+
+  return {
+    summary: `Mock Open Graph direction for: ${brief}`,
+    imagePrompt: `1200x630 website preview for ${brief}, headline in the upper third, bold contrast, quiet bottom 20%`,
+    postCopy: `${brief} — read the full story on our site.`,
+    metaTags: [
+      '<meta property="og:image:width" content="1200" />',
+      '<meta property="og:image:height" content="630" />',
+      '<meta name="twitter:card" content="summary_large_image" />',
+    ],
+    productionNotes: [
+      'Mock mode: content is canned and does not reflect a real model response.',
+      'Keep WhatsApp exports under 300 KB.',
+    ],
+  };
+}
+
+export function buildMockVisionReview(): Array<{ label: string; detail: string }> {
+  return [];
+}
+
+// Scripted agent turn: edit an attached image or request a new one when asked, then summarise the tool result.
+export function buildMockAgentReply(conversation: MockConversationMessage[]): MockAgentMessage {
+  const lastMessage = conversation[conversation.length - 1];
+
+  if (lastMessage?.role === 'tool') {
+    let result: {
+      artifact?: { layout?: string };
+      images?: { label?: string }[];
+      files?: { filename: string }[];
+      error?: string;
+    } = {};
+    try {
+      result = JSON.parse(getMessageText(lastMessage) || '{}');
+    } catch {
+      // Treat unreadable tool output as an empty result.
+    }
+
+    if (result.files?.length) {
+      return {
+        role: 'assistant',
+        content: `Mock mode: I built ${result.files.map((file) => file.filename).join(' and ')} from placeholder images. Download it from the card below.`,
+      };
+    }
+
+    return {
+      role: 'assistant',
+      content: result.artifact || result.images?.length
+        ? `Mock mode: I rendered a placeholder ${result.images?.[0]?.label || result.artifact?.layout || 'portrait'} image for that brief. Tell me what to change next.`
+        : `Mock mode: the image tool failed (${result.error || 'unknown error'}).`,
+    };
+  }
+
+  const userText = getMessageText(lastMessage);
+  const attachedImageIds = Array.from(userText.matchAll(ATTACHED_IMAGE_PATTERN), (match) => match[1]);
+  const brief = userText.replace(ATTACHED_IMAGE_PATTERN, '').trim();
+  if (attachedImageIds.length > 0 && RESIZE_REQUEST_PATTERN.test(brief)) {
+    return {
+      role: 'assistant',
+      content: null,
+      tool_calls: mockToolCall(conversation.length, 'resize_image', {
+        image_id: attachedImageIds[attachedImageIds.length - 1],
+        preset_id: 'linkedin-feed-square',
+      }),
+    };
+  }
+
+  if (attachedImageIds.length > 0 && EDIT_REQUEST_PATTERN.test(brief)) {
+    return {
+      role: 'assistant',
+      content: 'Mock critique: the headline competes with the background and the focal point sits too low. Making a cleaner version.',
+      tool_calls: [
+        {
+          id: `mock-call-${conversation.length}`,
+          type: 'function',
+          function: {
+            name: 'edit_image',
+            arguments: JSON.stringify({
+              image_id: attachedImageIds[attachedImageIds.length - 1],
+              prompt: `Improved version: ${truncate(brief, 380)}`,
+            }),
+          },
+        },
+      ],
+    };
+  }
+
+  if (STORYBOOK_REQUEST_PATTERN.test(userText)) {
+    return {
+      role: 'assistant',
+      content: 'Planning a five-page arc: hook, problem, insight, proof, CTA.',
+      tool_calls: mockToolCall(conversation.length, 'create_storybook', { brief: truncate(userText, 400) }),
+    };
+  }
+
+  if (OG_PACKAGE_REQUEST_PATTERN.test(userText)) {
+    return {
+      role: 'assistant',
+      content: null,
+      tool_calls: mockToolCall(conversation.length, 'build_og_package', {
+        brief: truncate(userText, 400),
+        page_url: userText.match(URL_PATTERN)?.[0] || 'https://example.com/launch',
+        title: truncate(userText, 60),
+        description: truncate(userText, 150),
+      }),
+    };
+  }
+
+  if (BANNER_REQUEST_PATTERN.test(userText)) {
+    return {
+      role: 'assistant',
+      content: null,
+      tool_calls: mockToolCall(conversation.length, 'generate_creator_asset', {
+        preset_id: 'linkedin-profile-banner',
+        brief: truncate(userText, 400),
+        headline: truncate(userText, 60),
+      }),
+    };
+  }
+
+  if (IMAGE_REQUEST_PATTERN.test(userText)) {
+    return {
+      role: 'assistant',
+      content: null,
+      tool_calls: [
+        {
+          id: `mock-call-${conversation.length}`,
+          type: 'function',
+          function: {
+            name: 'generate_image',
+            arguments: JSON.stringify({ prompt: truncate(userText, 400), layout: guessLayout(userText) }),
+          },
+        },
+      ],
+    };
+  }
+
+  return {
+    role: 'assistant',
+    content: [
+      `Mock mode reply to: "${truncate(userText, 120)}"`,
+      '',
+      '1. **Contrarian hook** – lead with the mistake most of your audience makes.',
+      '2. **Proof post** – one metric, one screenshot, one lesson.',
+      '3. **Carousel** – a five-page hook, problem, insight, proof, CTA arc.',
+      '',
+      'Ask for an image to see the scripted generate_image tool call.',
+    ].join('\n'),
+  };
+}
+
+export function buildMockThreadSummary(previousSummary: string | undefined, transcript: string[]): string {
+  const topics = transcript
+    .filter((line) => line.startsWith('User: '))
+    .map((line) => truncate(line.slice(6), 80));
+
+  return [
+    previousSummary,
+    `Mock summary of ${transcript.length} earlier messages. The user asked about: ${topics.join('; ') || 'nothing yet'}.`,
+  ].filter(Boolean).join('\n');
+}
@@ -1,4 +1,6 @@
-// Shared types for OpenRouter image models and layouts
+// Shared types for image models, providers, and layouts
+import { MAX_REFERENCE_IMAGES } from './referenceImages';
+
 export type Layout = 'landscape' | 'mobile' | 'portrait' | 'square' | 'reference';
 export type Model =
   | 'nano-banana-2'
@@ -7,7 +9,14 @@ export type Model =
   | 'seedream-4-5'
   | 'flux-2-pro'
   | 'recraft-4-1-pro'
-  | 'grok-imagine-quality';
+  | 'grok-imagine-quality'
+  | 'openai-gpt-image-1'
+  | 'compatible-image'
+  | 'local-stable-diffusion'
+  | 'local-comfyui';
+
+// Backends registered in lib/providers. Each model declares which one serves it.
+export type ImageProviderId = 'openrouter' | 'openai' | 'openai-compatible' | 'stable-diffusion' | 'comfyui' | 'mock';
 
 export type OutputModality = 'image' | 'text';
 
@@ -24,9 +33,11 @@ export interface LayoutConfig {
 // Model capability configuration
 export interface ModelCapabilities {
   supportsReferenceImages: boolean;
+  maxReferenceImages: number;
   supportsLayoutSelection: boolean;
   supportedLayouts: Layout[];
   requiresReferenceImage: boolean;
+  supportsMaskedEdits: boolean;
 }
 
 export interface ModelOption {
@@ -34,7 +45,8 @@ export interface ModelOption {
   label: string;
   shortLabel: string;
   description: string;
-  openRouterModel: string;
+  provider: ImageProviderId;
+  providerModel: string;
   outputModalities: OutputModality[];
   imageSize?: '0.5K' | '1K' | '2K' | '4K';
   supportsImageConfig: boolean;
@@ -42,6 +54,9 @@ export interface ModelOption {
 
 export const DEFAULT_MODEL: Model = 'gpt-image-2';
 
+// Parallel takes of one prompt for side-by-side comparison.
+export const MAX_IMAGE_VARIANTS = 4;
+
 // Current SOTA image models available through OpenRouter image output models.
 export const OPENROUTER_IMAGE_MODELS: ModelOption[] = [
   {
@@ -49,7 +64,8 @@ export const OPENROUTER_IMAGE_MODELS: ModelOption[] = [
     label: 'GPT Image 2',
     shortLabel: 'GPT Image',
     description: 'OpenAI high-end instruction following and text rendering.',
-    openRouterModel: 'openai/gpt-5.4-image-2',
+    provider: 'openrouter',
+    providerModel: 'openai/gpt-5.4-image-2',
     outputModalities: ['image', 'text'],
     imageSize: '2K',
     supportsImageConfig: true,
@@ -59,7 +75,8 @@ export const OPENROUTER_IMAGE_MODELS: ModelOption[] = [
     label: 'Nano Banana 2',
     shortLabel: 'Banana 2',
     description: 'Fast current-gen Gemini image generation and editing.',
-    openRouterModel: 'google/gemini-3.1-flash-image-preview',
+    provider: 'openrouter',
+    providerModel: 'google/gemini-3.1-flash-image-preview',
     outputModalities: ['image', 'text'],
     imageSize: '2K',
     supportsImageConfig: true,
@@ -69,7 +86,8 @@ export const OPENROUTER_IMAGE_MODELS: ModelOption[] = [
     label: 'Nano Banana Pro',
     shortLabel: 'Banana Pro',
     description: 'Premium Gemini reasoning for complex creative direction.',
-    openRouterModel: 'google/gemini-3-pro-image-preview',
+    provider: 'openrouter',
+    providerModel: 'google/gemini-3-pro-image-preview',
     outputModalities: ['image', 'text'],
     imageSize: '2K',
     supportsImageConfig: true,
@@ -79,7 +97,8 @@ export const OPENROUTER_IMAGE_MODELS: ModelOption[] = [
     label: 'Seedream 4.5',
     shortLabel: 'Seedream',
     description: 'Strong image editing consistency and subject preservation.',
-    openRouterModel: 'bytedance-seed/seedream-4.5',
+    provider: 'openrouter',
+    providerModel: 'bytedance-seed/seedream-4.5',
     outputModalities: ['image'],
     imageSize: '2K',
     supportsImageConfig: true,
@@ -89,7 +108,8 @@ export const OPENROUTER_IMAGE_MODELS: ModelOption[] = [
     label: 'FLUX.2 Pro',
     shortLabel: 'FLUX.2',
     description: 'Frontier visual quality with reliable prompt adherence.',
-    openRouterModel: 'black-forest-labs/flux.2-pro',
+    provider: 'openrouter',
+    providerModel: 'black-forest-labs/flux.2-pro',
     outputModalities: ['image'],
     imageSize: '2K',
     supportsImageConfig: true,
@@ -99,7 +119,8 @@ export const OPENROUTER_IMAGE_MODELS: ModelOption[] = [
     label: 'Recraft V4.1 Pro',
     shortLabel: 'Recraft',
     description: 'Aesthetic design work for brand and marketing assets.',
-    openRouterModel: 'recraft/recraft-v4.1-pro',
+    provider: 'openrouter',
+    providerModel: 'recraft/recraft-v4.1-pro',
     outputModalities: ['image'],
     imageSize: '2K',
     supportsImageConfig: true,
@@ -109,14 +130,69 @@ export const OPENROUTER_IMAGE_MODELS: ModelOption[] = [
     label: 'Grok Imagine Quality',
     shortLabel: 'Grok',
     description: 'Fast high-fidelity generation and editing from xAI.',
-    openRouterModel: 'x-ai/grok-imagine-image-quality',
+    provider: 'openrouter',
+    providerModel: 'x-ai/grok-imagine-image-quality',
     outputModalities: ['image'],
     imageSize: '2K',
     supportsImageConfig: true,
   },
 ];
 
-export const OPENROUTER_MODEL_BY_VALUE = OPENROUTER_IMAGE_MODELS.reduce(
+// Models served by direct provider contracts or local stand-in servers.
+export const DIRECT_IMAGE_MODELS: ModelOption[] = [
+  {
+    value: 'openai-gpt-image-1',
+    label: 'GPT Image 1 (OpenAI direct)',
+    shortLabel: 'OpenAI direct',
+    description: 'OpenAI Images API billed on your OpenAI contract.',
+    provider: 'openai',
+    providerModel: 'gpt-image-1',
+    outputModalities: ['image'],
+    supportsImageConfig: false,
+  },
+  {
+    value: 'compatible-image',
+    label: 'OpenAI-compatible endpoint',
+    shortLabel: 'Compatible API',
+    description: 'Any /v1/images server at OPENAI_COMPATIBLE_BASE_URL.',
+    provider: 'openai-compatible',
+    providerModel: 'default',
+    outputModalities: ['image'],
+    supportsImageConfig: false,
+  },
+  {
+    value: 'local-stable-diffusion',
+    label: 'Local Stable Diffusion',
+    shortLabel: 'Local SD',
+    description: 'AUTOMATIC1111/Forge txt2img and img2img API.',
+    provider: 'stable-diffusion',
+    providerModel: 'default',
+    outputModalities: ['image'],
+    supportsImageConfig: false,
+  },
+  {
+    value: 'local-comfyui',
+    label: 'Local ComfyUI workflow',
+    shortLabel: 'ComfyUI',
+    description: 'Queues a saved ComfyUI API workflow on your machine.',
+    provider: 'comfyui',
+    providerModel: 'default',
+    outputModalities: ['image'],
+    supportsImageConfig: false,
+  },
+];
+
+export const IMAGE_MODELS: ModelOption[] = [...OPENROUTER_IMAGE_MODELS, ...DIRECT_IMAGE_MODELS];
+
+// Providers offered in the model picker and accepted by the routes. NEXT_PUBLIC_ so the client and server agree.
+export const ENABLED_IMAGE_PROVIDERS: ImageProviderId[] = (process.env.NEXT_PUBLIC_IMAGE_PROVIDERS || 'openrouter')
+  .split(',')
+  .map((provider) => provider.trim())
+  .filter((provider): provider is ImageProviderId => IMAGE_MODELS.some((model) => model.provider === provider));
+
+export const SELECTABLE_IMAGE_MODELS: ModelOption[] = IMAGE_MODELS.filter((model) => ENABLED_IMAGE_PROVIDERS.includes(model.provider));
+
+export const MODEL_BY_VALUE = IMAGE_MODELS.reduce(
   (acc, model) => {
     acc[model.value] = model;
     return acc;
@@ -124,14 +200,26 @@ export const OPENROUTER_MODEL_BY_VALUE = OPENROUTER_IMAGE_MODELS.reduce(
   {} as Record<Model, ModelOption>
 );
 
+// How many role-tagged references each backend can take in one request.
+const MAX_REFERENCE_IMAGES_BY_PROVIDER: Record<ImageProviderId, number> = {
+  openrouter: MAX_REFERENCE_IMAGES,
+  openai: MAX_REFERENCE_IMAGES,
+  'openai-compatible': 1,
+  'stable-diffusion': 1,
+  comfyui: 0,
+  mock: MAX_REFERENCE_IMAGES,
+};
+
 // Central configuration for model capabilities.
-export const MODEL_CAPABILITIES: Record<Model, ModelCapabilities> = OPENROUTER_IMAGE_MODELS.reduce(
+export const MODEL_CAPABILITIES: Record<Model, ModelCapabilities> = IMAGE_MODELS.reduce(
   (acc, model) => {
     acc[model.value] = {
-      supportsReferenceImages: true,
+      supportsReferenceImages: MAX_REFERENCE_IMAGES_BY_PROVIDER[model.provider] > 0,
+      maxReferenceImages: MAX_REFERENCE_IMAGES_BY_PROVIDER[model.provider],
       supportsLayoutSelection: true,
       supportedLayouts: ['landscape', 'mobile', 'portrait', 'square', 'reference'],
       requiresReferenceImage: false,
+      supportsMaskedEdits: model.provider !== 'comfyui',
     };
     return acc;
   },
@@ -147,7 +235,7 @@ export const OPENROUTER_ASPECT_RATIOS: Record<Layout, string> = {
   reference: '1:1',
 };
 
-export const MODEL_LAYOUT_CONFIGS: Record<Model, LayoutConfig[]> = OPENROUTER_IMAGE_MODELS.reduce(
+export const MODEL_LAYOUT_CONFIGS: Record<Model, LayoutConfig[]> = IMAGE_MODELS.reduce(
   (acc, model) => {
     acc[model.value] = [
       { value: 'landscape', label: 'Landscape', dimensions: '16:9', width: 1344, height: 768, icon: '▭' },
@@ -200,5 +288,10 @@ export function getLayoutDimensions(
 }
 
 export function isModel(value: unknown): value is Model {
-  return typeof value === 'string' && value in OPENROUTER_MODEL_BY_VALUE;
+  return typeof value === 'string' && value in MODEL_BY_VALUE;
+}
+
+// Routes that call a provider only take models the picker offers, not every known model.
+export function isEnabledModel(value: unknown): value is Model {
+  return isModel(value) && ENABLED_IMAGE_PROVIDERS.includes(MODEL_BY_VALUE[value].provider);
 }
@@ -0,0 +1,415 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import sharp from 'sharp';
+import { Agent, fetch, Response } from 'undici';
+import { OG_PRESETS } from './presets';
+import { OgAuditFinding, OgAuditImage, OgAuditReport, OgAuditSeverity, OgAuditTag, OgPreset } from './types';
+
+// Slack stops reading the page after this many bytes, so tags further down are never seen.
+export const SLACK_HEAD_LIMIT_BYTES = 32 * 1024;
+export const MAX_AUDIT_HTML_BYTES = 2 * 1024 * 1024;
+const MAX_AUDIT_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_AUDIT_IMAGES = 6;
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_AUDIT_REDIRECTS = 5;
+// Some sites only serve their tags to known crawlers.
+const AUDIT_USER_AGENT = 'facebookexternalhit/1.1 (+http://www.facebook.com/externalhit_uatext.php)';
+// Aspect ratios within this fraction of a preset's count as that preset.
+const ASPECT_TOLERANCE = 0.03;
+
+const REQUIRED_TAGS: { key: string; severity: OgAuditSeverity; reason: string }[] = [
+  { key: 'og:title', severity: 'error', reason: 'Previews fall back to the page title or show nothing.' },
+  { key: 'og:description', severity: 'warn', reason: 'Slack, Discord, and WhatsApp show no summary.' },
+  { key: 'og:image', severity: 'error', reason: 'Links unfurl without an image.' },
+  { key: 'og:url', severity: 'warn', reason: 'Shares of URL variants are counted as different pages.' },
+  { key: 'og:type', severity: 'warn', reason: 'Facebook assumes website but warns in the Sharing Debugger.' },
+  { key: 'twitter:card', severity: 'warn', reason: 'X shows a small summary card instead of the large image.' },
+];
+
+// Keys that should appear once; repeats make crawlers pick one arbitrarily. og:image may repeat by design.
+const SINGLE_VALUE_TAGS = [
+  'og:title',
+  'og:description',
+  'og:url',
+  'og:type',
+  'og:site_name',
+  'twitter:card',
+  'twitter:title',
+  'twitter:description',
+  'twitter:image',
+  'theme-color',
+];
+
+// Audited URLs come from users, so hosts that resolve into this machine or a private network are refused.
+// BlockList also matches the IPv4-mapped IPv6 form of each IPv4 range.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const AUDITED_TAG_PATTERN = /^(og:|twitter:|theme-color$|description$)/;
+
+// Numeric entities outside Unicode or in the surrogate range are left as written instead of throwing.
+function decodeCodePoint(entity: string, codePoint: number): string {
+  const isValid = codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff);
+  return isValid ? String.fromCodePoint(codePoint) : entity;
+}
+
+export function decodeHtmlEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (entity, hex: string) => decodeCodePoint(entity, parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (entity, decimal: string) => decodeCodePoint(entity, parseInt(decimal, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&(#39|apos);/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+export function parseOgAuditTags(html: string): OgAuditTag[] {
+  const tags: OgAuditTag[] = [];
+
+  for (const match of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes: Record<string, string> = {};
+    for (const attribute of match[0].matchAll(/([^\s=/<>]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g)) {
+      attributes[attribute[1].toLowerCase()] = decodeHtmlEntities(attribute[2] ?? attribute[3] ?? attribute[4] ?? '');
+    }
+
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    if (!AUDITED_TAG_PATTERN.test(key)) continue;
+
+    tags.push({
+      key,
+      content: (attributes.content || '').trim(),
+      endOffset: Buffer.byteLength(html.slice(0, (match.index ?? 0) + match[0].length)),
+    });
+  }
+
+  return tags;
+}
+
+function tooLargeError(url: string, maxBytes: number): Error {
+  return new Error(`${url} is larger than ${Math.round(maxBytes / 1024 / 1024)} MB.`);
+}
+
+type ResolvedAddress = { address: string; family: number };
+
+// Returns the checked address so the request connects to it instead of resolving the host again.
+async function resolvePublicHost(url: URL): Promise<ResolvedAddress> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`${url} is not an http(s) URL.`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: ResolvedAddress[];
+  try {
+    addresses = isIP(hostname) ? [{ address: hostname, family: isIP(hostname) }] : await lookup(hostname, { all: true });
+  } catch {
+    throw new Error(`${hostname} could not be resolved.`);
+  }
+
+  if (addresses.length === 0) {
+    throw new Error(`${hostname} could not be resolved.`);
+  }
+  if (addresses.some(({ address, family }) => PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'))) {
+    throw new Error(`${hostname} is a local or private address and cannot be audited.`);
+  }
+
+  return addresses[0];
+}
+
+// A second DNS answer could point somewhere private, so the socket is opened to the address that was checked.
+function createPinnedAgent({ address, family }: ResolvedAddress): Agent {
+  return new Agent({
+    connect: {
+      lookup: (_hostname, options, callback) => {
+        if (options.all) {
+          callback(null, [{ address, family }]);
+        } else {
+          callback(null, address, family);
+        }
+      },
+    },
+  });
+}
+
+// Reads the body chunk by chunk so a response without a content-length cannot grow past the cap in memory.
+async function readBodyWithLimit(response: Response, url: string, maxBytes: number): Promise<Buffer> {
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLargeError(url, maxBytes);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Redirects are followed by hand so every hop is checked against the private address ranges.
+async function fetchWithLimit(url: string, maxBytes: number): Promise<{ body: Buffer; contentType: string; finalUrl: string }> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let currentUrl = url;
+
+  for (let redirects = 0; ; redirects += 1) {
+    const dispatcher = createPinnedAgent(await resolvePublicHost(new URL(currentUrl)));
+    try {
+      const response = await fetch(currentUrl, {
+        headers: { 'User-Agent': AUDIT_USER_AGENT },
+        redirect: 'manual',
+        signal,
+        dispatcher,
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        if (redirects >= MAX_AUDIT_REDIRECTS) {
+          throw new Error(`${url} redirected more than ${MAX_AUDIT_REDIRECTS} times.`);
+        }
+        currentUrl = new URL(location, currentUrl).toString();
+        continue;
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new Error(`${currentUrl} returned HTTP ${response.status}.`);
+      }
+
+      if (Number(response.headers.get('content-length') || 0) > maxBytes) {
+        await response.body?.cancel();
+        throw tooLargeError(currentUrl, maxBytes);
+      }
+
+      const body = await readBodyWithLimit(response, currentUrl, maxBytes);
+      return { body, contentType: response.headers.get('content-type') || '', finalUrl: currentUrl };
+    } finally {
+      await dispatcher.destroy();
+    }
+  }
+}
+
+export async function fetchPageHtml(url: string): Promise<{ html: string; finalUrl: string }> {
+  const { body, finalUrl } = await fetchWithLimit(url, MAX_AUDIT_HTML_BYTES);
+  return { html: body.toString('utf8'), finalUrl };
+}
+
+function findClosestPreset(tag: OgAuditImage['tag'], width: number, height: number): OgPreset {
+  const candidates = OG_PRESETS.filter((preset) => preset.metaTagTarget === tag);
+  const aspect = width / height;
+  return (candidates.length > 0 ? candidates : OG_PRESETS).reduce((closest, preset) => (
+    Math.abs(preset.width / preset.height - aspect) < Math.abs(closest.width / closest.height - aspect) ? preset : closest
+  ));
+}
+
+function isSvg(url: string, contentType = ''): boolean {
+  return contentType.includes('image/svg') || /\.svgz?(\?|#|$)/i.test(url);
+}
+
+async function inspectImage(tag: OgAuditImage['tag'], rawUrl: string, pageUrl?: string): Promise<OgAuditImage> {
+  let url: string;
+  try {
+    url = new URL(rawUrl, pageUrl).toString();
+  } catch {
+    return { tag, url: rawUrl, error: 'The image URL could not be resolved.' };
+  }
+
+  if (isSvg(url)) return { tag, url, contentType: 'image/svg+xml' };
+
+  try {
+    const { body, contentType } = await fetchWithLimit(url, MAX_AUDIT_IMAGE_BYTES);
+    if (isSvg(url, contentType)) return { tag, url, bytes: body.length, contentType };
+
+    const { width, height } = await sharp(body).metadata();
+    if (!width || !height) {
+      return { tag, url, bytes: body.length, contentType, error: 'The file is not a readable image.' };
+    }
+
+    return { tag, url, width, height, bytes: body.length, contentType, presetId: findClosestPreset(tag, width, height).id };
+  } catch (error) {
+    return { tag, url, error: error instanceof Error ? error.message : 'The image could not be fetched.' };
+  }
+}
+
+function auditImage(image: OgAuditImage, rawUrl: string, declared: { width?: string; height?: string }): OgAuditFinding[] {
+  const findings: OgAuditFinding[] = [];
+  const id = `${image.tag}:${image.url}`;
+  const label = `${image.tag} ${image.url.split('/').pop() || image.url}`;
+
+  if (!/^https?:\/\//i.test(rawUrl)) {
+    findings.push({ id: `${id}:relative`, severity: 'error', label, detail: 'Image URLs must be absolute; crawlers do not resolve relative paths.' });
+  } else if (rawUrl.startsWith('http://')) {
+    findings.push({ id: `${id}:http`, severity: 'warn', label, detail: 'Served over http. Some platforms only load https images.' });
+  }
+
+  if (isSvg(image.url, image.contentType)) {
+    findings.push({ id: `${id}:svg`, severity: 'error', label, detail: 'SVG is not supported for link previews. Use a PNG or JPEG.' });
+    return findings;
+  }
+
+  if (image.error) {
+    findings.push({ id: `${id}:fetch`, severity: 'error', label, detail: image.error });
+    return findings;
+  }
+
+  const preset = image.presetId ? OG_PRESETS.find((candidate) => candidate.id === image.presetId) : undefined;
+  if (!preset || !image.width || !image.height) return findings;
+
+  const aspect = image.width / image.height;
+  const presetAspect = preset.width / preset.height;
+  if (Math.abs(aspect - presetAspect) / presetAspect > ASPECT_TOLERANCE) {
+    findings.push({
+      id: `${id}:aspect`,
+      severity: 'warn',
+      label,
+      detail: `${image.width}x${image.height} matches no preset; the closest is ${preset.label} (${preset.aspectRatio}, ${preset.dimensions}), so platforms will crop it.`,
+    });
+  } else if (image.width < preset.width || image.height < preset.height) {
+    findings.push({
+      id: `${id}:size`,
+      severity: 'warn',
+      label,
+      detail: `${image.width}x${image.height} is below the ${preset.label} spec of ${preset.dimensions} and may look soft or drop to a small card.`,
+    });
+  }
+
+  if (image.bytes && image.bytes > preset.maxFileSizeKb * 1024) {
+    findings.push({
+      id: `${id}:file-size`,
+      severity: 'warn',
+      label,
+      detail: `${Math.round(image.bytes / 1024)} KB exceeds the ${preset.maxFileSizeKb} KB budget for ${preset.label}; some clients skip large images.`,
+    });
+  }
+
+  const declaredWidth = Number(declared.width);
+  const declaredHeight = Number(declared.height);
+  if ((declared.width && declaredWidth !== image.width) || (declared.height && declaredHeight !== image.height)) {
+    findings.push({
+      id: `${id}:declared-size`,
+      severity: 'warn',
+      label,
+      detail: `og:image:width/height say ${declared.width || '?'}x${declared.height || '?'} but the file is ${image.width}x${image.height}.`,
+    });
+  }
+
+  if (findings.length === 0) {
+    findings.push({ id: `${id}:ok`, severity: 'pass', label, detail: `${image.width}x${image.height}, ${Math.round((image.bytes || 0) / 1024)} KB, fits ${preset.label}.` });
+  }
+
+  return findings;
+}
+
+export async function auditOgHtml(html: string, pageUrl?: string): Promise<OgAuditReport> {
+  const tags = parseOgAuditTags(html);
+  const findings: OgAuditFinding[] = [];
+  const first = (key: string) => tags.find((tag) => tag.key === key)?.content || '';
+
+  const missing = REQUIRED_TAGS.filter((required) => !first(required.key));
+  for (const required of missing) {
+    findings.push({ id: `missing:${required.key}`, severity: required.severity, label: `Missing ${required.key}`, detail: required.reason });
+  }
+  if (missing.length === 0) {
+    findings.push({ id: 'required', severity: 'pass', label: 'Required tags', detail: 'og:title, og:description, og:image, og:url, og:type, and twitter:card are set.' });
+  }
+
+  const duplicates = SINGLE_VALUE_TAGS.filter((key) => tags.filter((tag) => tag.key === key).length > 1);
+  for (const key of duplicates) {
+    const count = tags.filter((tag) => tag.key === key).length;
+    findings.push({ id: `duplicate:${key}`, severity: 'warn', label: `Duplicate ${key}`, detail: `Declared ${count} times; platforms pick one arbitrarily.` });
+  }
+  if (duplicates.length === 0 && tags.length > 0) {
+    findings.push({ id: 'duplicates', severity: 'pass', label: 'No duplicate tags', detail: 'Each single-value tag is declared once.' });
+  }
+
+  const socialTags = tags.filter((tag) => tag.key.startsWith('og:') || tag.key.startsWith('twitter:'));
+  const lateTags = socialTags.filter((tag) => tag.endOffset > SLACK_HEAD_LIMIT_BYTES);
+  if (lateTags.length > 0) {
+    findings.push({
+      id: 'slack-32kb',
+      severity: 'error',
+      label: 'Tags past the first 32 KB',
+      detail: `${lateTags.length} of ${socialTags.length} tags end after byte ${SLACK_HEAD_LIMIT_BYTES} (${lateTags.slice(0, 3).map((tag) => tag.key).join(', ')}${lateTags.length > 3 ? ', ...' : ''}). Slack never sees them; move them to the top of <head>.`,
+    });
+  } else if (socialTags.length > 0) {
+    const lastOffset = Math.max(...socialTags.map((tag) => tag.endOffset));
+    findings.push({ id: 'slack-32kb', severity: 'pass', label: 'Within the first 32 KB', detail: `The last tag ends at byte ${lastOffset}.` });
+  }
+
+  const headEnd = html.search(/<\/head>/i);
+  if (headEnd >= 0) {
+    const headEndOffset = Buffer.byteLength(html.slice(0, headEnd));
+    const bodyTags = socialTags.filter((tag) => tag.endOffset > headEndOffset);
+    if (bodyTags.length > 0) {
+      findings.push({
+        id: 'outside-head',
+        severity: 'warn',
+        label: 'Tags outside <head>',
+        detail: `${bodyTags.length} ${bodyTags.length === 1 ? 'tag appears' : 'tags appear'} after </head>; several crawlers ignore them.`,
+      });
+    }
+  }
+
+  const ogImageUrls = tags.filter((tag) => tag.key === 'og:image' && tag.content).map((tag) => tag.content);
+  const twitterImageUrls = tags
+    .filter((tag) => tag.key === 'twitter:image' && tag.content && !ogImageUrls.includes(tag.content))
+    .map((tag) => tag.content);
+  const imageTags = [
+    ...ogImageUrls.map((url) => ({ tag: 'og:image' as const, url })),
+    ...twitterImageUrls.map((url) => ({ tag: 'twitter:image' as const, url })),
+  ].slice(0, MAX_AUDIT_IMAGES);
+
+  const images = await Promise.all(imageTags.map((image) => inspectImage(image.tag, image.url, pageUrl)));
+  images.forEach((image, index) => {
+    // Only the first og:image has unambiguous og:image:width/height; structured properties follow their image.
+    const declared = index === 0 && image.tag === 'og:image'
+      ? { width: first('og:image:width'), height: first('og:image:height') }
+      : {};
+    findings.push(...auditImage(image, imageTags[index].url, declared));
+  });
+
+  const status: OgAuditSeverity = findings.some((finding) => finding.severity === 'error')
+    ? 'error'
+    : findings.some((finding) => finding.severity === 'warn') ? 'warn' : 'pass';
+  const pageTitle = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  return {
+    status,
+    pageUrl,
+    htmlBytes: Buffer.byteLength(html),
+    findings,
+    tags,
+    images,
+    meta: {
+      url: first('og:url') || pageUrl || '',
+      title: first('og:title') || first('twitter:title') || (pageTitle ? decodeHtmlEntities(pageTitle).trim() : ''),
+      description: first('og:description') || first('twitter:description') || first('description'),
+      siteName: first('og:site_name'),
+      themeColor: first('theme-color'),
+    },
+  };
+}
@@ -0,0 +1,366 @@
+import { decodeHtmlEntities, fetchPageHtml, parseOgAuditTags } from './audit';
+import { OgBulkEntry, OgBulkExtractInput, OgBulkExtractResult, OgBulkSourceFile } from './types';
+
+export const MAX_OG_BULK_ENTRIES = 250;
+export const MAX_OG_BULK_SOURCE_BYTES = 2 * 1024 * 1024;
+// Pages are fetched a few at a time so a large sitemap does not hammer the site.
+const PAGE_FETCH_CONCURRENCY = 4;
+const MAX_NESTED_SITEMAPS = 20;
+const MAX_SLUG_SEGMENT_LENGTH = 80;
+// Markdown without a description falls back to its first paragraph, cut near og:description's usual length.
+const FALLBACK_DESCRIPTION_LENGTH = 160;
+const MARKDOWN_EXTENSIONS = /\.(md|mdx|markdown)$/i;
+
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+// Cut before trimming, so a separator at the cut point cannot leave a trailing dash the bundle route rejects.
+function slugifySegment(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SLUG_SEGMENT_LENGTH)
+    .replace(/^-+|-+$/g, '');
+}
+
+// Keeps the path hierarchy so /docs/setup and /blog/setup land in different bundle folders.
+export function slugifyPath(path: string): string {
+  const segments = path
+    .replace(/\.(html?|md|mdx|markdown)$/i, '')
+    .split('/')
+    .map((segment) => slugifySegment(decodePathSegment(segment)))
+    .filter(Boolean);
+  if (segments.length > 1 && (segments[segments.length - 1] === 'index' || segments[segments.length - 1] === 'readme')) {
+    segments.pop();
+  }
+  return segments.join('/') || 'index';
+}
+
+function slugFromUrl(url: string): string {
+  try {
+    return slugifyPath(new URL(url).pathname);
+  } catch {
+    return slugifyPath(url);
+  }
+}
+
+function resolveUrl(value: string, base?: string): string | null {
+  try {
+    const url = new URL(value, base);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function truncateAtWord(value: string, maxLength: number): string {
+  if (value.length <= maxLength) return value;
+  const cut = value.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:.-]+$/, '')}...`;
+}
+
+export function parseSitemapXml(xml: string): { pageUrls: string[]; sitemapUrls: string[] } {
+  const locations = Array.from(
+    xml.matchAll(/<loc>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/loc>/gi),
+    (match) => decodeHtmlEntities(match[1].trim()),
+  ).filter(Boolean);
+
+  // A sitemap index lists child sitemaps instead of pages.
+  return /<sitemapindex\b/i.test(xml)
+    ? { pageUrls: [], sitemapUrls: locations }
+    : { pageUrls: locations, sitemapUrls: [] };
+}
+
+export function extractPageCopy(html: string): { title: string; description: string } {
+  const tags = parseOgAuditTags(html);
+  const tagContent = (key: string) => tags.find((tag) => tag.key === key && tag.content)?.content || '';
+  const documentTitle = decodeHtmlEntities(html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return {
+    title: tagContent('og:title') || tagContent('twitter:title') || documentTitle,
+    description: tagContent('og:description') || tagContent('description') || tagContent('twitter:description'),
+  };
+}
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+const CSV_COLUMNS = {
+  url: ['url', 'loc', 'link', 'permalink'],
+  slug: ['slug', 'path'],
+  title: ['title', 'og:title', 'name', 'headline'],
+  description: ['description', 'og:description', 'summary', 'excerpt'],
+};
+
+function parseCsvEntries(text: string, siteUrl?: string): OgBulkExtractResult {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { entries: [], skipped: ['The CSV is empty.'] };
+
+  const columns = header.map((cell) => cell.trim().toLowerCase());
+  const findColumn = (names: string[]) => columns.findIndex((column) => names.includes(column));
+  const urlColumn = findColumn(CSV_COLUMNS.url);
+  const slugColumn = findColumn(CSV_COLUMNS.slug);
+  const titleColumn = findColumn(CSV_COLUMNS.title);
+  const descriptionColumn = findColumn(CSV_COLUMNS.description);
+
+  if (titleColumn < 0 || (urlColumn < 0 && slugColumn < 0)) {
+    return { entries: [], skipped: ['The CSV header needs a title column and a url or slug column.'] };
+  }
+
+  const entries: OgBulkEntry[] = [];
+  const skipped: string[] = [];
+  rows.forEach((cells, index) => {
+    const rowLabel = `Row ${index + 2}`;
+    const title = cells[titleColumn]?.trim() || '';
+    const rawUrl = urlColumn >= 0 ? cells[urlColumn]?.trim() || '' : '';
+    const rawSlug = slugColumn >= 0 ? cells[slugColumn]?.trim() || '' : '';
+    const url = resolveUrl(rawUrl || rawSlug, siteUrl);
+
+    if (!title) {
+      skipped.push(`${rowLabel}: no title.`);
+    } else if (!url) {
+      skipped.push(`${rowLabel}: ${rawUrl || rawSlug || 'no URL'} is not an absolute URL; set the site URL to resolve paths.`);
+    } else {
+      entries.push({
+        slug: rawSlug ? slugifyPath(rawSlug) : slugFromUrl(url),
+        url,
+        title,
+        description: descriptionColumn >= 0 ? cells[descriptionColumn]?.trim() || '' : '',
+      });
+    }
+  });
+
+  return { entries, skipped };
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (/^"[\s\S]*"$/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (/^'[\s\S]*'$/.test(trimmed)) return trimmed.slice(1, -1).replace(/''/g, "'");
+  return trimmed;
+}
+
+// Reads top-level scalar keys from YAML (---) or TOML (+++) front matter, which covers title/description/slug.
+// Nested maps and lists are skipped rather than parsed.
+export function parseFrontMatter(content: string): { data: Record<string, string>; body: string } {
+  const source = content.replace(/^\uFEFF/, '');
+  const match = source.match(/^(---|\+\+\+)\r?\n([\s\S]*?)\r?\n\1\s*(?:\r?\n|$)/);
+  if (!match) return { data: {}, body: source };
+
+  const separator = match[1] === '+++' ? '=' : ':';
+  const data: Record<string, string> = {};
+  for (const line of match[2].split(/\r?\n/)) {
+    if (/^\s/.test(line) || line.trim().startsWith('#')) continue;
+    const separatorIndex = line.indexOf(separator);
+    if (separatorIndex <= 0) continue;
+    const key = line.slice(0, separatorIndex).trim().toLowerCase();
+    const value = unquote(line.slice(separatorIndex + 1));
+    if (value && !['|', '>', '[', '{'].includes(value)) data[key] = value;
+  }
+
+  return { data, body: source.slice(match[0].length) };
+}
+
+function getFirstParagraph(markdown: string): string {
+  const paragraph = markdown
+    .replace(/```[\s\S]*?```/g, '')
+    .split(/\r?\n\s*\r?\n/)
+    .map((block) => block.trim())
+    .find((block) => block && !/^(#|<|import |export |[-*+>|]|\d+\.)/.test(block));
+
+  return (paragraph || '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function parseMarkdownEntries(files: OgBulkSourceFile[], siteUrl?: string): OgBulkExtractResult {
+  const entries: OgBulkEntry[] = [];
+  const skipped: string[] = [];
+
+  for (const file of files) {
+    const filename = file.path.split('/').pop() || file.path;
+    if (!MARKDOWN_EXTENSIONS.test(filename) || filename.startsWith('_')) continue;
+
+    const { data, body } = parseFrontMatter(file.content);
+    if (data.draft === 'true') {
+      skipped.push(`${file.path}: draft.`);
+      continue;
+    }
+
+    const title = data.title || body.match(/^#\s+(.+)$/m)?.[1].trim() || '';
+    if (!title) {
+      skipped.push(`${file.path}: no title in the front matter or a # heading.`);
+      continue;
+    }
+
+    // Permalinks are root-relative or absolute; slugs and file paths are relative to the site URL.
+    const path = data.permalink || data.url || data.slug || file.path.replace(MARKDOWN_EXTENSIONS, '');
+    const relativePath = slugifyPath(path) === 'index' ? '' : slugifyPath(path);
+    const url = /^(\/|https?:)/i.test(path)
+      ? resolveUrl(path, siteUrl)
+      : resolveUrl(relativePath, siteUrl?.replace(/\/?$/, '/'));
+    if (!url) {
+      skipped.push(`${file.path}: set the site URL so the page URL can be resolved.`);
+      continue;
+    }
+
+    entries.push({
+      slug: slugFromUrl(url),
+      url,
+      title,
+      description: data.description || data.summary || data.excerpt || truncateAtWord(getFirstParagraph(body), FALLBACK_DESCRIPTION_LENGTH),
+    });
+  }
+
+  return { entries, skipped };
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+async function collectSitemapPageUrls(input: OgBulkExtractInput, skipped: string[]): Promise<string[]> {
+  const root = input.text?.trim() ? input.text : (await fetchPageHtml(input.url || '')).html;
+  const { pageUrls, sitemapUrls } = parseSitemapXml(root);
+
+  for (const sitemapUrl of sitemapUrls.slice(0, MAX_NESTED_SITEMAPS)) {
+    if (pageUrls.length >= MAX_OG_BULK_ENTRIES) break;
+    try {
+      pageUrls.push(...parseSitemapXml((await fetchPageHtml(sitemapUrl)).html).pageUrls);
+    } catch (error) {
+      skipped.push(`${sitemapUrl}: ${error instanceof Error ? error.message : 'could not be fetched.'}`);
+    }
+  }
+  if (sitemapUrls.length > MAX_NESTED_SITEMAPS) {
+    skipped.push(`Only the first ${MAX_NESTED_SITEMAPS} child sitemaps were read.`);
+  }
+
+  return pageUrls;
+}
+
+async function extractSitemapEntries(input: OgBulkExtractInput): Promise<OgBulkExtractResult> {
+  const skipped: string[] = [];
+  const pageUrls = Array.from(new Set(await collectSitemapPageUrls(input, skipped)))
+    .map((url) => resolveUrl(url, input.url))
+    .filter((url): url is string => Boolean(url));
+  if (pageUrls.length > MAX_OG_BULK_ENTRIES) {
+    skipped.push(`${pageUrls.length - MAX_OG_BULK_ENTRIES} pages past the first ${MAX_OG_BULK_ENTRIES} were not read.`);
+  }
+
+  const pages = await mapWithConcurrency(pageUrls.slice(0, MAX_OG_BULK_ENTRIES), PAGE_FETCH_CONCURRENCY, async (url) => {
+    try {
+      const { html } = await fetchPageHtml(url);
+      return { url, ...extractPageCopy(html) };
+    } catch (error) {
+      skipped.push(`${url}: ${error instanceof Error ? error.message : 'could not be fetched.'}`);
+      return null;
+    }
+  });
+
+  const entries: OgBulkEntry[] = [];
+  for (const page of pages) {
+    if (!page) continue;
+    if (!page.title) {
+      skipped.push(`${page.url}: no og:title or <title>.`);
+      continue;
+    }
+    entries.push({ slug: slugFromUrl(page.url), ...page });
+  }
+
+  return { entries, skipped };
+}
+
+// Two pages can slugify to the same folder, e.g. /a-b and /a_b, so later ones get a numeric suffix.
+function dedupeSlugs(entries: OgBulkEntry[]): OgBulkEntry[] {
+  const used = new Set<string>();
+  return entries.map((entry) => {
+    let slug = entry.slug;
+    for (let suffix = 2; used.has(slug); suffix++) {
+      slug = `${entry.slug}-${suffix}`;
+    }
+    used.add(slug);
+    return { ...entry, slug };
+  });
+}
+
+export async function extractOgBulkEntries(input: OgBulkExtractInput): Promise<OgBulkExtractResult> {
+  const result = input.source === 'sitemap'
+    ? await extractSitemapEntries(input)
+    : input.source === 'csv'
+      ? parseCsvEntries(input.text || '', input.url)
+      : parseMarkdownEntries(input.files || [], input.url);
+
+  const skipped = [...result.skipped];
+  if (result.entries.length > MAX_OG_BULK_ENTRIES) {
+    skipped.push(`${result.entries.length - MAX_OG_BULK_ENTRIES} entries past the first ${MAX_OG_BULK_ENTRIES} were dropped.`);
+  }
+
+  return { entries: dedupeSlugs(result.entries.slice(0, MAX_OG_BULK_ENTRIES)), skipped };
+}
@@ -0,0 +1,62 @@
+import { ZipEntry } from '../serverZip';
+import { OG_META_EXPORT_TARGETS, renderOgMetaExport } from './exporters';
+import { buildOgPackageMetaInput, OgPackageImage, resolveOgAssetUrl } from './meta';
+import { OgPackageMeta } from './types';
+
+export interface OgBundleAsset extends OgPackageImage {
+  bytes: Buffer;
+  format: string;
+}
+
+function buildBundleReadme(meta: OgPackageMeta, assets: OgBundleAsset[]): string {
+  return [
+    `# Social preview package for ${meta.url.trim()}`,
+    '',
+    'Upload each image so it is served at the URL next to it:',
+    '',
+    ...assets.map((asset) => `- \`${asset.filename}\` (${asset.width}x${asset.height}) -> ${resolveOgAssetUrl(meta, asset.filename)}`),
+    '',
+    'Then paste the tags from `meta.html` into the `<head>` of the page, within its first 32 KB.',
+    '`manifest.json` lists every export with its platform, dimensions, byte size, and format.',
+    '',
+    'The same metadata for other stacks is in `metadata/`:',
+    '',
+    ...OG_META_EXPORT_TARGETS
+      .filter((target) => target.id !== 'html')
+      .map((target) => `- \`${target.filename}\` (${target.label}): ${target.destination}.`),
+    '',
+    'Crawlers cache previews, so after uploading, re-scrape the URL in each platform\'s debugger',
+    '(Facebook Sharing Debugger, LinkedIn Post Inspector) to pick up the new images.',
+    '',
+  ].join('\n');
+}
+
+// Files of the deployable package: the images, meta.html and every framework export, a manifest, and a README.
+// Callers validate the metadata first; the archive is not checked again here.
+export function buildOgPackageBundle(meta: OgPackageMeta, assets: OgBundleAsset[]): ZipEntry[] {
+  const manifest = {
+    url: meta.url.trim(),
+    generatedAt: new Date().toISOString(),
+    assets: assets.map((asset) => ({
+      presetId: asset.presetId,
+      platform: asset.platform,
+      filename: asset.filename,
+      url: resolveOgAssetUrl(meta, asset.filename),
+      width: asset.width,
+      height: asset.height,
+      bytes: asset.bytes.length,
+      format: asset.format,
+    })),
+  };
+
+  const metaInput = buildOgPackageMetaInput(meta, assets);
+  return [
+    ...assets.map((asset) => ({ name: asset.filename, data: asset.bytes, store: true })),
+    ...OG_META_EXPORT_TARGETS.map((target) => ({
+      name: target.filename,
+      data: Buffer.from(`${renderOgMetaExport(target.id, metaInput)}\n`),
+    })),
+    { name: 'manifest.json', data: Buffer.from(`${JSON.stringify(manifest, null, 2)}\n`) },
+    { name: 'README.md', data: Buffer.from(buildBundleReadme(meta, assets)) },
+  ];
+}
@@ -0,0 +1,54 @@
+import { OgAuditReport, OgBulkBundlePage, OgBulkExtractInput, OgBulkExtractResult, OgBulkSiteMeta } from './types';
+
+export async function auditOgPage(input: { url?: string; html?: string }): Promise<OgAuditReport> {
+  const response = await fetch('/api/og-audit', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.report) {
+    throw new Error(data?.error || 'Failed to audit the page.');
+  }
+
+  return data.report;
+}
+
+export async function extractOgBulkEntries(input: OgBulkExtractInput): Promise<OgBulkExtractResult> {
+  const response = await fetch('/api/og-bulk', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !Array.isArray(data?.entries)) {
+    throw new Error(data?.error || 'Failed to read the source.');
+  }
+
+  return data;
+}
+
+export async function downloadOgBulkBundle(site: OgBulkSiteMeta, pages: OgBulkBundlePage[]): Promise<Blob> {
+  const response = await fetch('/api/og-bulk/bundle', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ site, pages }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || 'Failed to export the bulk bundle.');
+  }
+
+  return response.blob();
+}
+
+// Absolute because the URL ends up in other sites' og:image tags. The title placeholder is meant to be replaced per article.
+export function getOgRenderUrl(templateId: string, params: { title: string; subtitle?: string; preset?: string }): string {
+  const search = new URLSearchParams({ template: templateId, title: params.title });
+  if (params.subtitle) search.set('subtitle', params.subtitle);
+  if (params.preset) search.set('preset', params.preset);
+  return `${window.location.origin}/api/og/render?${search.toString()}`;
+}
@@ -0,0 +1,234 @@
+import { renderOgMetaHtml } from './meta';
+import { OgMetaInput } from './types';
+
+export type OgMetaExportTarget = 'html' | 'nextjs' | 'astro' | 'hugo' | 'jekyll' | 'yoast' | 'json-ld';
+
+export interface OgMetaExportTargetConfig {
+  id: OgMetaExportTarget;
+  label: string;
+  // Where the snippet usually goes in that stack.
+  destination: string;
+  // Name used for the snippet inside the export bundle.
+  filename: string;
+}
+
+export const OG_META_EXPORT_TARGETS: OgMetaExportTargetConfig[] = [
+  {
+    id: 'html',
+    label: 'HTML meta tags',
+    destination: 'The first 32 KB of the page <head>',
+    filename: 'meta.html',
+  },
+  {
+    id: 'nextjs',
+    label: 'Next.js generateMetadata',
+    destination: 'app/<route>/page.tsx',
+    filename: 'metadata/nextjs-metadata.ts',
+  },
+  {
+    id: 'astro',
+    label: 'Astro head component',
+    destination: 'src/components/SocialMeta.astro, rendered inside <head>',
+    filename: 'metadata/SocialMeta.astro',
+  },
+  {
+    id: 'hugo',
+    label: 'Hugo head partial',
+    destination: 'layouts/partials/social-meta.html, included from the <head> of baseof.html',
+    filename: 'metadata/hugo-social-meta.html',
+  },
+  {
+    id: 'jekyll',
+    label: 'Jekyll front matter',
+    destination: 'The page front matter, read by jekyll-seo-tag',
+    filename: 'metadata/jekyll-front-matter.yml',
+  },
+  {
+    id: 'yoast',
+    label: 'WordPress Yoast fields',
+    destination: 'Post meta for the page, e.g. via update_post_meta or WP-CLI',
+    filename: 'metadata/yoast-fields.json',
+  },
+  {
+    id: 'json-ld',
+    label: 'JSON-LD WebPage',
+    destination: 'Anywhere in the page <head> or <body>',
+    filename: 'metadata/json-ld.html',
+  },
+];
+
+function toJsString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+// Prints a plain object as a TypeScript literal with unquoted identifier keys and single-quoted strings.
+function toJsLiteral(value: unknown, indent = ''): string {
+  const nested = `${indent}  `;
+  if (typeof value === 'string') return toJsString(value);
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) {
+    return `[\n${value.map((item) => `${nested}${toJsLiteral(item, nested)},`).join('\n')}\n${indent}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>).filter(([, entry]) => entry !== undefined);
+  return `{\n${entries.map(([key, entry]) => (
+    `${nested}${/^[A-Za-z_$][\w$]*$/.test(key) ? key : toJsString(key)}: ${toJsLiteral(entry, nested)},`
+  )).join('\n')}\n${indent}}`;
+}
+
+function getTwitterImage(input: OgMetaInput): string | undefined {
+  return input.twitterImage || input.images[0]?.url;
+}
+
+function renderNextMetadata(input: OgMetaInput): string {
+  const twitterImage = getTwitterImage(input);
+  const metadata = {
+    title: input.title,
+    description: input.description,
+    alternates: { canonical: input.url },
+    openGraph: {
+      url: input.url,
+      title: input.title,
+      description: input.description,
+      siteName: input.siteName || undefined,
+      type: 'website',
+      images: input.images.map((image) => ({ url: image.url, width: image.width, height: image.height, alt: image.alt })),
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: input.title,
+      description: input.description,
+      images: twitterImage ? [twitterImage] : undefined,
+    },
+  };
+
+  const lines = [
+    `import type { Metadata${input.themeColor ? ', Viewport' : ''} } from 'next';`,
+    '',
+    'export async function generateMetadata(): Promise<Metadata> {',
+    `  return ${toJsLiteral(metadata, '  ')};`,
+    '}',
+  ];
+
+  // Next.js 14+ reads theme-color from the viewport export, not from metadata.
+  if (input.themeColor) {
+    lines.push('', `export const viewport: Viewport = ${toJsLiteral({ themeColor: input.themeColor })};`);
+  }
+
+  return lines.join('\n');
+}
+
+function renderAstroComponent(input: OgMetaInput): string {
+  // Quoted attribute values are literal in Astro, so the escaped HTML tags can be used unchanged.
+  return ['---', '// Render <SocialMeta /> inside <head> in your layout.', '---', renderOgMetaHtml(input)].join('\n');
+}
+
+function renderHugoPartial(input: OgMetaInput): string {
+  // Go templates would treat a literal "{{" in the copy as an action.
+  const html = renderOgMetaHtml(input).replace(/\{\{|\}\}/g, (braces) => `{{ "${braces}" }}`);
+  return ['{{/* Include with {{ partial "social-meta.html" . }} inside <head>. */}}', html].join('\n');
+}
+
+function toYamlString(value: string): string {
+  // JSON strings are valid YAML double-quoted scalars.
+  return JSON.stringify(value);
+}
+
+function renderJekyllFrontMatter(input: OgMetaInput): string {
+  const [image] = input.images;
+  const lines = [
+    '---',
+    `title: ${toYamlString(input.title)}`,
+    `description: ${toYamlString(input.description)}`,
+    `canonical_url: ${toYamlString(input.url)}`,
+  ];
+
+  if (image) {
+    lines.push(
+      'image:',
+      `  path: ${toYamlString(image.url)}`,
+      `  width: ${image.width}`,
+      `  height: ${image.height}`,
+      `  alt: ${toYamlString(image.alt)}`,
+    );
+  }
+
+  const twitterImage = getTwitterImage(input);
+  if (twitterImage && twitterImage !== image?.url) {
+    lines.push('twitter:', '  card: summary_large_image', `  image: ${toYamlString(twitterImage)}`);
+  }
+
+  // jekyll-seo-tag emits one og:image; the other exports are listed for custom head includes.
+  if (input.images.length > 1) {
+    lines.push('og_images:');
+    for (const extra of input.images.slice(1)) {
+      lines.push(
+        `  - path: ${toYamlString(extra.url)}`,
+        `    width: ${extra.width}`,
+        `    height: ${extra.height}`,
+        `    alt: ${toYamlString(extra.alt)}`,
+      );
+    }
+  }
+
+  lines.push('---');
+  return lines.join('\n');
+}
+
+function renderYoastFields(input: OgMetaInput): string {
+  const [image] = input.images;
+  const twitterImage = getTwitterImage(input);
+  const fields: Record<string, string | undefined> = {
+    _yoast_wpseo_title: input.title,
+    _yoast_wpseo_metadesc: input.description,
+    _yoast_wpseo_canonical: input.url,
+    '_yoast_wpseo_opengraph-title': input.title,
+    '_yoast_wpseo_opengraph-description': input.description,
+    '_yoast_wpseo_opengraph-image': image?.url,
+    '_yoast_wpseo_twitter-title': input.title,
+    '_yoast_wpseo_twitter-description': input.description,
+    '_yoast_wpseo_twitter-image': twitterImage,
+  };
+
+  return JSON.stringify(fields, null, 2);
+}
+
+function renderJsonLd(input: OgMetaInput): string {
+  const [image] = input.images;
+  const webPage = {
+    '@context': 'https://schema.org',
+    '@type': 'WebPage',
+    '@id': input.url,
+    url: input.url,
+    name: input.title,
+    description: input.description,
+    isPartOf: input.siteName ? { '@type': 'WebSite', name: input.siteName } : undefined,
+    primaryImageOfPage: image
+      ? { '@type': 'ImageObject', url: image.url, width: image.width, height: image.height, caption: image.alt }
+      : undefined,
+    image: input.images.map((item) => item.url),
+  };
+
+  // "<" is escaped so copy containing "</script>" cannot close the tag early.
+  const json = JSON.stringify(webPage, null, 2).replace(/</g, '\\u003c');
+  return `<script type="application/ld+json">\n${json}\n</script>`;
+}
+
+export function renderOgMetaExport(target: OgMetaExportTarget, input: OgMetaInput): string {
+  switch (target) {
+    case 'nextjs':
+      return renderNextMetadata(input);
+    case 'astro':
+      return renderAstroComponent(input);
+    case 'hugo':
+      return renderHugoPartial(input);
+    case 'jekyll':
+      return renderJekyllFrontMatter(input);
+    case 'yoast':
+      return renderYoastFields(input);
+    case 'json-ld':
+      return renderJsonLd(input);
+    default:
+      return renderOgMetaHtml(input);
+  }
+}
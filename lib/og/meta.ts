@@ -1,4 +1,11 @@
-import { OgMetaInput, OgMetaTag } from './types';
+import { HEX_COLOR_PATTERN } from '../brandKits/prompt';
+import { OgMetaImage, OgMetaInput, OgMetaIssue, OgMetaTag, OgPackageMeta } from './types';
+import { UNFURL_PLATFORMS } from './unfurl';
+
+// Hard limits from the X card spec; longer values are cut or rejected by X's validator.
+const TWITTER_TITLE_MAX_LENGTH = 70;
+const TWITTER_DESCRIPTION_MAX_LENGTH = 200;
+const IMAGE_ALT_MAX_LENGTH = 420;
 
 export function buildOgMetaTags(input: OgMetaInput): OgMetaTag[] {
   const tags: OgMetaTag[] = [
@@ -52,4 +59,113 @@ function escapeHtmlAttribute(value: string): string {
     .replace(/"/g, '&quot;')
     .replace(/</g, '&lt;')
     .replace(/>/g, '&gt;');
-}
\ No newline at end of file
+}
+
+export type OgPackageImage = Pick<OgMetaImage, 'width' | 'height' | 'platform' | 'presetId'> & { filename: string };
+
+function isAbsoluteHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+// og:image must be absolute, so root-relative asset paths resolve against the canonical URL.
+export function resolveOgAssetUrl(meta: Pick<OgPackageMeta, 'url' | 'assetBaseUrl'>, filename: string): string {
+  const base = meta.assetBaseUrl.trim() || '/og';
+  const absoluteBase = isAbsoluteHttpUrl(base)
+    ? base
+    : isAbsoluteHttpUrl(meta.url) ? new URL(base.startsWith('/') ? base : `/${base}`, meta.url).toString() : base;
+  return `${absoluteBase.replace(/\/+$/, '')}/${filename}`;
+}
+
+export function buildOgPackageMetaInput(meta: OgPackageMeta, images: OgPackageImage[]): OgMetaInput {
+  const twitterImage = images.find((image) => image.presetId === 'og-twitter-large');
+
+  return {
+    url: meta.url.trim(),
+    title: meta.title.trim(),
+    description: meta.description.trim(),
+    siteName: meta.siteName.trim(),
+    themeColor: meta.themeColor.trim() || undefined,
+    images: images.map((image) => ({
+      url: resolveOgAssetUrl(meta, image.filename),
+      width: image.width,
+      height: image.height,
+      alt: meta.imageAlts[image.presetId]?.trim() || meta.title.trim(),
+      platform: image.platform,
+      presetId: image.presetId,
+    })),
+    twitterImage: twitterImage ? resolveOgAssetUrl(meta, twitterImage.filename) : undefined,
+  };
+}
+
+function getCutPlatforms(length: number, field: 'titleMaxLength' | 'descriptionMaxLength'): string[] {
+  return UNFURL_PLATFORMS
+    .filter((platform) => platform[field] > 0 && length > platform[field])
+    .map((platform) => `${platform.label} (${platform[field]})`);
+}
+
+// Errors make the snippet wrong or invalid; warnings mean some platform will cut or skip a field.
+export function validateOgPackageMeta(meta: OgPackageMeta, images: OgPackageImage[]): OgMetaIssue[] {
+  const issues: OgMetaIssue[] = [];
+  const title = meta.title.trim();
+  const description = meta.description.trim();
+  const assetBaseUrl = meta.assetBaseUrl.trim();
+
+  if (!isAbsoluteHttpUrl(meta.url.trim())) {
+    issues.push({ field: 'url', severity: 'error', message: 'Canonical URL must be an absolute http(s) URL.' });
+  }
+
+  if (assetBaseUrl && !isAbsoluteHttpUrl(assetBaseUrl) && !assetBaseUrl.startsWith('/')) {
+    issues.push({ field: 'assetBaseUrl', severity: 'error', message: 'Image location must be an absolute URL or a path starting with /.' });
+  }
+
+  if (!title) {
+    issues.push({ field: 'title', severity: 'error', message: 'Title is required.' });
+  } else {
+    if (title.length > TWITTER_TITLE_MAX_LENGTH) {
+      issues.push({ field: 'title', severity: 'warn', message: `twitter:title is cut after ${TWITTER_TITLE_MAX_LENGTH} characters.` });
+    }
+    const cutOn = getCutPlatforms(title.length, 'titleMaxLength');
+    if (cutOn.length > 0) {
+      issues.push({ field: 'title', severity: 'warn', message: `Title is truncated on ${cutOn.join(', ')}.` });
+    }
+  }
+
+  if (!description) {
+    issues.push({ field: 'description', severity: 'error', message: 'Description is required.' });
+  } else {
+    if (description.length > TWITTER_DESCRIPTION_MAX_LENGTH) {
+      issues.push({ field: 'description', severity: 'warn', message: `twitter:description is cut after ${TWITTER_DESCRIPTION_MAX_LENGTH} characters.` });
+    }
+    const cutOn = getCutPlatforms(description.length, 'descriptionMaxLength');
+    if (cutOn.length > 0) {
+      issues.push({ field: 'description', severity: 'warn', message: `Description is truncated on ${cutOn.join(', ')}.` });
+    }
+  }
+
+  if (!meta.siteName.trim()) {
+    issues.push({ field: 'siteName', severity: 'warn', message: 'Slack and Discord show the site name above the title.' });
+  }
+
+  if (meta.themeColor.trim() && !HEX_COLOR_PATTERN.test(meta.themeColor.trim())) {
+    issues.push({ field: 'themeColor', severity: 'error', message: 'Theme colour must be a hex color like #1a2b3c.' });
+  }
+
+  for (const image of images) {
+    const alt = meta.imageAlts[image.presetId]?.trim() || '';
+    if (alt.length > IMAGE_ALT_MAX_LENGTH) {
+      issues.push({
+        field: 'imageAlts',
+        severity: 'error',
+        presetId: image.presetId,
+        message: `Alt text for ${image.filename} must be ${IMAGE_ALT_MAX_LENGTH} characters or fewer.`,
+      });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,77 @@
+import { CreatorPreset, getOgPackageExportPresets } from '../creatorContent';
+import { OgPackageImage } from './meta';
+
+export interface OgPackageExport<T> extends OgPackageImage {
+  preset: CreatorPreset;
+  output: T;
+}
+
+// The studio runs each step through its API routes and the chat agent calls the providers directly.
+export interface OgPackageExportSteps<T> {
+  // Null when the model cannot do masked edits; extend presets are then cropped from the master.
+  outpaint: ((masterImage: string, exportPreset: CreatorPreset) => Promise<string>) | null;
+  format: (sourceImage: string, exportPreset: CreatorPreset) => Promise<T>;
+  onProgress: (label: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface OgPackageExportResult<T> {
+  exports: OgPackageExport<T>[];
+  failedExports: string[];
+  croppedExports: string[];
+}
+
+function toOgPackageImage(preset: CreatorPreset): OgPackageImage {
+  return {
+    presetId: preset.id,
+    platform: preset.ogPlatform || 'universal',
+    width: preset.width,
+    height: preset.height,
+    filename: `${preset.id}.${preset.exportFormat === 'jpeg' ? 'jpg' : 'png'}`,
+  };
+}
+
+// The files the package will contain, known before anything is generated so metadata is checked up front.
+export function getOgPackageImages(): OgPackageImage[] {
+  return getOgPackageExportPresets().map(toOgPackageImage);
+}
+
+// Exports every OG package preset from one master; failures are collected so the rest of the package still ships.
+export async function exportOgPackage<T>(
+  masterImage: string,
+  { outpaint, format, onProgress, signal }: OgPackageExportSteps<T>,
+): Promise<OgPackageExportResult<T>> {
+  const exports: OgPackageExport<T>[] = [];
+  const failedExports: string[] = [];
+  const croppedExports: string[] = [];
+
+  for (const exportPreset of getOgPackageExportPresets()) {
+    signal?.throwIfAborted();
+    let sourceImage = masterImage;
+    if (exportPreset.exportFit === 'extend' && outpaint) {
+      onProgress(`Extending canvas for ${exportPreset.shortLabel}`);
+      try {
+        sourceImage = await outpaint(masterImage, exportPreset);
+      } catch (outpaintError) {
+        // A stop ends the package; only real failures fall back to a crop.
+        if (signal?.aborted) throw outpaintError;
+        croppedExports.push(exportPreset.shortLabel);
+        console.error(`Failed to extend ${exportPreset.id}:`, outpaintError);
+      }
+    }
+
+    onProgress(`Exporting ${exportPreset.shortLabel}`);
+    try {
+      exports.push({ ...toOgPackageImage(exportPreset), preset: exportPreset, output: await format(sourceImage, exportPreset) });
+    } catch (exportError) {
+      failedExports.push(exportPreset.shortLabel);
+      console.error(`Failed to export ${exportPreset.id}:`, exportError);
+    }
+  }
+
+  if (exports.length === 0) {
+    throw new Error('All social preview exports failed. Try simplifying the brief and generating again.');
+  }
+
+  return { exports, failedExports, croppedExports };
+}
@@ -5,6 +5,11 @@ const UNIVERSAL_SAFE_ZONE = {
   avoidBottomPercent: 20,
 };
 
+// Facebook, LinkedIn, Slack, and Discord print the title and domain below the image, not over it.
+const CAPTION_BELOW_SAFE_ZONE = {
+  marginPx: 60,
+};
+
 const SQUARE_SAFE_ZONE = {
   marginPx: 80,
   landscapeBand: { width: 1200, height: 630 },
@@ -67,7 +72,7 @@ export const OG_PRESETS: OgPreset[] = [
     promptPrefix: 'Create a 1200x1200 square Open Graph image for Apple iMessage and iOS link previews. Place all critical text, logos, and visuals inside a centered 1200x630 landscape band with at least 100px clearance from the top edge. Headlines must be scaled to fit inside the band without touching outer frames or canvas edges. Use high contrast and large typography readable on mobile.',
     metaTagTarget: 'og:image',
     packageRole: 'derivative',
-    exportFit: 'contain',
+    exportFit: 'extend',
   },
   {
     id: 'og-pinterest-pin',
@@ -87,6 +92,7 @@ export const OG_PRESETS: OgPreset[] = [
     promptPrefix: 'Create a Pinterest pin image at 1000x1500, 2:3 aspect ratio. Use a strong vertical hook, large headline at the top third, and avoid pure white or pure black backgrounds because Pinterest adds a tint overlay.',
     metaTagTarget: 'og:image',
     packageRole: 'derivative',
+    exportFit: 'extend',
   },
   {
     id: 'og-whatsapp-optimized',
@@ -126,8 +132,109 @@ export const OG_PRESETS: OgPreset[] = [
     metaTagTarget: 'og:image',
     packageRole: 'derivative',
   },
+  {
+    id: 'og-facebook-feed',
+    platform: 'facebook',
+    label: 'Facebook feed link',
+    shortLabel: 'Facebook',
+    dimensions: '1200x630',
+    width: 1200,
+    height: 630,
+    aspectRatio: '1.91:1',
+    generationLayout: 'landscape',
+    // Facebook rejects og:image files over 8 MB.
+    maxFileSizeKb: 8000,
+    format: 'jpeg',
+    quality: 90,
+    safeZone: CAPTION_BELOW_SAFE_ZONE,
+    guidance: 'Facebook feed link card. Other ratios are center-cropped to 1.91:1, and images under 600x315 drop to a small thumbnail beside the title.',
+    promptPrefix: 'Create a Facebook feed link image at 1200x630, 1.91:1. Facebook center-crops anything that is not 1.91:1 and prints the domain and title in a bar below the image, so use the full frame for the visual, keep the headline short and centered with at least 60px margins, and make it readable at 500px wide on a phone.',
+    metaTagTarget: 'og:image',
+    packageRole: 'derivative',
+  },
+  {
+    id: 'og-linkedin-share',
+    platform: 'linkedin',
+    label: 'LinkedIn share',
+    shortLabel: 'LinkedIn',
+    dimensions: '1200x627',
+    width: 1200,
+    height: 627,
+    aspectRatio: '1.91:1',
+    generationLayout: 'landscape',
+    // LinkedIn's Post Inspector rejects images over 5 MB.
+    maxFileSizeKb: 5000,
+    format: 'jpeg',
+    quality: 90,
+    safeZone: CAPTION_BELOW_SAFE_ZONE,
+    guidance: 'LinkedIn link share at its documented 1200x627. The feed crops slightly to 1.91:1 and shows the title in a gray bar below; images under 200px wide are dropped.',
+    promptPrefix: 'Create a LinkedIn link share image at 1200x627, 1.91:1. LinkedIn shows the title in a bar below the image and crops a few pixels from the top and bottom, so keep the headline in the vertical middle with at least 60px margins. Use a clean professional look with high contrast that survives LinkedIn recompression.',
+    metaTagTarget: 'og:image',
+    packageRole: 'derivative',
+  },
+  {
+    id: 'og-slack-unfurl',
+    platform: 'slack',
+    label: 'Slack unfurl',
+    shortLabel: 'Slack',
+    dimensions: '1200x630',
+    width: 1200,
+    height: 630,
+    aspectRatio: '1.91:1',
+    generationLayout: 'landscape',
+    // Slack documents no cap, but large images delay the unfurl; this keeps it quick.
+    maxFileSizeKb: 500,
+    format: 'jpeg',
+    quality: 85,
+    safeZone: CAPTION_BELOW_SAFE_ZONE,
+    guidance: 'Slack unfurl. Slack scales the image down to roughly 360px wide in the message column without cropping, and only reads tags in the first 32 KB of HTML.',
+    promptPrefix: 'Create a Slack link unfurl image at 1200x630, 1.91:1. Slack shows the whole image scaled down to about 360px wide beside a thin accent bar, so use one short headline at least 90px tall, a single strong focal point, and no small print or fine detail.',
+    metaTagTarget: 'og:image',
+    packageRole: 'derivative',
+  },
+  {
+    id: 'og-discord-large',
+    platform: 'discord',
+    label: 'Discord large image embed',
+    shortLabel: 'Discord large',
+    dimensions: '1200x630',
+    width: 1200,
+    height: 630,
+    aspectRatio: '1.91:1',
+    generationLayout: 'landscape',
+    // Discord proxies embed images and skips slow or oversized files.
+    maxFileSizeKb: 1000,
+    format: 'png',
+    quality: 90,
+    safeZone: CAPTION_BELOW_SAFE_ZONE,
+    guidance: 'Discord large image embed, used when twitter:card is summary_large_image. Shown uncropped at up to about 400px wide on a dark background with the theme-color bar on the left.',
+    promptPrefix: 'Create a Discord large image embed at 1200x630, 1.91:1. Discord shows it uncropped at about 400px wide on a dark #2b2d31 card, so avoid dark edges that melt into the background, use bold typography readable at that size, and keep at least 60px margins.',
+    metaTagTarget: 'og:image',
+    packageRole: 'derivative',
+  },
+  {
+    id: 'og-discord-thumbnail',
+    platform: 'discord',
+    label: 'Discord embed thumbnail',
+    shortLabel: 'Discord thumb',
+    dimensions: '512x512',
+    width: 512,
+    height: 512,
+    aspectRatio: '1:1',
+    generationLayout: 'square',
+    maxFileSizeKb: 200,
+    format: 'png',
+    quality: 90,
+    safeZone: { marginPx: 48 },
+    guidance: 'Discord embed thumbnail, used when twitter:card is summary. Shown at 80x80 in the top-right corner of the embed, so only a logo or single icon survives.',
+    promptPrefix: 'Create a square Discord embed thumbnail at 512x512. It is displayed at 80x80 pixels, so show only one bold logo mark or icon centered with generous padding, no words, and a solid high-contrast background.',
+    metaTagTarget: 'og:image',
+    packageRole: 'derivative',
+  },
 ];
 
+// The master stays first because crawlers that take one og:image take the first. The per-platform exports
+// are for pages that serve crawler-specific tags and for uploading by hand in each platform's composer.
 export const OG_PACKAGE_PRESET_IDS = [
   'og-universal-landscape',
   'og-twitter-large',
@@ -135,6 +242,11 @@ export const OG_PACKAGE_PRESET_IDS = [
   'og-pinterest-pin',
   'og-whatsapp-optimized',
   'og-retina-landscape',
+  'og-facebook-feed',
+  'og-linkedin-share',
+  'og-slack-unfurl',
+  'og-discord-large',
+  'og-discord-thumbnail',
 ] as const;
 
 export const OG_MASTER_PRESET_ID = 'og-universal-landscape';
@@ -1,3 +1,6 @@
+import { buildBrandKitPrompt } from '../brandKits/prompt';
+import { BrandKit } from '../brandKits/types';
+import { TEXT_OVERLAY_ARTWORK_RULES } from '../textOverlay';
 import { OgPreset } from './types';
 
 export const OG_TYPOGRAPHY_SAFETY_RULES = [
@@ -20,26 +23,28 @@ export const OG_LANDSCAPE_ARTBOARD_RULES = [
   '- Do not bleed content off any edge. The full composition must read correctly at exact 1200x630 dimensions.',
 ].join('\n');
 
-export function buildOgPrompt(userPrompt: string, preset: OgPreset): string {
+export function buildOgPrompt(userPrompt: string, preset: OgPreset, brandKit?: BrandKit | null, artworkOnly = false): string {
   const trimmedPrompt = userPrompt.trim();
 
   return [
     preset.promptPrefix,
-    OG_TYPOGRAPHY_SAFETY_RULES,
+    artworkOnly ? TEXT_OVERLAY_ARTWORK_RULES : OG_TYPOGRAPHY_SAFETY_RULES,
     OG_LANDSCAPE_ARTBOARD_RULES,
+    buildBrandKitPrompt(brandKit),
     trimmedPrompt ? `Page brief: ${trimmedPrompt}` : '',
     'Output must be polished enough for production website launch and social link previews.',
   ].filter(Boolean).join('\n\n');
 }
 
-export function buildOgPackageMasterPrompt(userPrompt: string, masterPreset: OgPreset): string {
+export function buildOgPackageMasterPrompt(userPrompt: string, masterPreset: OgPreset, brandKit?: BrandKit | null, artworkOnly = false): string {
   const trimmedPrompt = userPrompt.trim();
 
   return [
     masterPreset.promptPrefix,
     'This is the master asset for a full social preview package. Generate it as a native 1200x630 landscape composition. Square and vertical variants are derived from this master, so all critical content must already fit inside the landscape frame.',
-    OG_TYPOGRAPHY_SAFETY_RULES,
+    artworkOnly ? TEXT_OVERLAY_ARTWORK_RULES : OG_TYPOGRAPHY_SAFETY_RULES,
     OG_LANDSCAPE_ARTBOARD_RULES,
+    buildBrandKitPrompt(brandKit),
     trimmedPrompt ? `Page brief: ${trimmedPrompt}` : '',
     'Output must be polished enough for production website launch and social link previews.',
   ].filter(Boolean).join('\n\n');
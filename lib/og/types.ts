@@ -37,7 +37,8 @@ export interface OgPreset {
   promptPrefix: string;
   metaTagTarget: OgMetaTagTarget;
   packageRole?: 'master' | 'derivative';
-  exportFit?: 'cover' | 'contain';
+  // 'extend' outpaints the master to the preset's aspect ratio with the image model before the exact resize.
+  exportFit?: 'cover' | 'contain' | 'extend';
 }
 
 export interface OgMetaImage {
@@ -64,4 +65,104 @@ export interface OgMetaTag {
   property?: string;
   name?: string;
   content: string;
-}
\ No newline at end of file
+}
+// What the studio's metadata form edits for a generated package; image URLs are derived from assetBaseUrl.
+export interface OgPackageMeta {
+  url: string;
+  // Absolute URL or root-relative path the exports will be uploaded to.
+  assetBaseUrl: string;
+  title: string;
+  description: string;
+  siteName: string;
+  themeColor: string;
+  // Alt text keyed by export preset id.
+  imageAlts: Record<string, string>;
+}
+
+export type OgMetaField = 'url' | 'assetBaseUrl' | 'title' | 'description' | 'siteName' | 'themeColor' | 'imageAlts';
+
+export interface OgMetaIssue {
+  field: OgMetaField;
+  severity: 'error' | 'warn';
+  message: string;
+  presetId?: string;
+}
+
+export type OgAuditSeverity = 'pass' | 'warn' | 'error';
+
+export interface OgAuditFinding {
+  id: string;
+  severity: OgAuditSeverity;
+  label: string;
+  detail: string;
+}
+
+export interface OgAuditTag {
+  key: string;
+  content: string;
+  // UTF-8 byte offset where the tag ends, which is what Slack's 32 KB cut-off counts.
+  endOffset: number;
+}
+
+export interface OgAuditImage {
+  tag: 'og:image' | 'twitter:image';
+  url: string;
+  width?: number;
+  height?: number;
+  bytes?: number;
+  contentType?: string;
+  // Closest OG preset by aspect ratio, used for the size and file-size checks.
+  presetId?: string;
+  error?: string;
+}
+
+export interface OgAuditReport {
+  status: OgAuditSeverity;
+  pageUrl?: string;
+  htmlBytes: number;
+  findings: OgAuditFinding[];
+  tags: OgAuditTag[];
+  images: OgAuditImage[];
+  // What the page currently declares, used to seed a replacement package.
+  meta: Pick<OgPackageMeta, 'url' | 'title' | 'description' | 'siteName' | 'themeColor'>;
+}
+
+export type OgBulkSource = 'sitemap' | 'csv' | 'markdown';
+
+// One page of a bulk run; the slug names its folder in the bundle.
+export interface OgBulkEntry {
+  slug: string;
+  url: string;
+  title: string;
+  description: string;
+}
+
+export interface OgBulkSourceFile {
+  path: string;
+  content: string;
+}
+
+export interface OgBulkExtractInput {
+  source: OgBulkSource;
+  // Sitemap URL, or the site URL that Markdown slugs are resolved against.
+  url?: string;
+  // Pasted sitemap XML or CSV text.
+  text?: string;
+  files?: OgBulkSourceFile[];
+}
+
+export interface OgBulkExtractResult {
+  entries: OgBulkEntry[];
+  // Rows or pages that could not be used, with the reason.
+  skipped: string[];
+}
+
+// 'master' renders only og-universal-landscape; 'package' renders every OG package export.
+export type OgBulkMode = 'master' | 'package';
+
+export interface OgBulkBundlePage extends OgBulkEntry {
+  historyId: string;
+}
+
+// Site-wide fields shared by every page; each page's images live under assetBaseUrl/<slug>/.
+export type OgBulkSiteMeta = Pick<OgPackageMeta, 'assetBaseUrl' | 'siteName' | 'themeColor'>;
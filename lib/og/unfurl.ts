@@ -0,0 +1,77 @@
+export type UnfurlPlatform = 'slack' | 'discord' | 'x' | 'linkedin' | 'whatsapp' | 'imessage';
+
+export interface UnfurlPlatformConfig {
+  id: UnfurlPlatform;
+  label: string;
+  // Package exports the platform would pick, best first.
+  presetIds: string[];
+  // Characters shown before the platform cuts the text; 0 means the field is not shown at all.
+  titleMaxLength: number;
+  descriptionMaxLength: number;
+}
+
+// Approximate cut-offs observed in each client's default desktop or mobile layout.
+export const UNFURL_PLATFORMS: UnfurlPlatformConfig[] = [
+  {
+    id: 'slack',
+    label: 'Slack',
+    presetIds: ['og-slack-unfurl', 'og-universal-landscape'],
+    titleMaxLength: 100,
+    descriptionMaxLength: 200,
+  },
+  {
+    id: 'discord',
+    label: 'Discord',
+    presetIds: ['og-discord-large', 'og-universal-landscape'],
+    titleMaxLength: 256,
+    descriptionMaxLength: 350,
+  },
+  {
+    id: 'x',
+    label: 'X',
+    presetIds: ['og-twitter-large', 'og-universal-landscape'],
+    // X only overlays the domain on large cards now; title and description are not rendered.
+    titleMaxLength: 0,
+    descriptionMaxLength: 0,
+  },
+  {
+    id: 'linkedin',
+    label: 'LinkedIn',
+    presetIds: ['og-linkedin-share', 'og-universal-landscape'],
+    titleMaxLength: 70,
+    descriptionMaxLength: 0,
+  },
+  {
+    id: 'whatsapp',
+    label: 'WhatsApp',
+    presetIds: ['og-whatsapp-optimized', 'og-universal-landscape'],
+    titleMaxLength: 65,
+    descriptionMaxLength: 80,
+  },
+  {
+    id: 'imessage',
+    label: 'iMessage',
+    presetIds: ['og-imessage-square', 'og-retina-landscape', 'og-universal-landscape'],
+    titleMaxLength: 55,
+    descriptionMaxLength: 0,
+  },
+];
+
+// Cuts at the last word boundary that fits and appends an ellipsis, the way the clients do.
+export function truncateForUnfurl(text: string, maxLength: number): string {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  if (maxLength <= 0) return '';
+  if (trimmed.length <= maxLength) return trimmed;
+
+  const cut = trimmed.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength * 0.6 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:!?-]+$/, '')}…`;
+}
+
+export function getUnfurlDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url.replace(/^https?:\/\//, '').split('/')[0] || url;
+  }
+}
@@ -0,0 +1,29 @@
+import { ImageProviderId, ModelOption } from '../modelConfig';
+import { isMockMode } from '../mock';
+import { comfyUiProvider, stableDiffusionProvider } from './localDiffusion';
+import { mockProvider } from './mock';
+import { openAiCompatibleProvider, openAiProvider } from './openAiImages';
+import { openRouterProvider } from './openRouter';
+import { ImageProvider } from './types';
+
+export type { ImageEditRequest, ImageGenerationRequest, ImageProvider } from './types';
+
+export const IMAGE_PROVIDERS: Record<ImageProviderId, ImageProvider> = {
+  openrouter: openRouterProvider,
+  openai: openAiProvider,
+  'openai-compatible': openAiCompatibleProvider,
+  'stable-diffusion': stableDiffusionProvider,
+  comfyui: comfyUiProvider,
+  mock: mockProvider,
+};
+
+// MOCK_PROVIDERS overrides every model's provider with local placeholder renders.
+export function getImageProvider(model: ModelOption): ImageProvider {
+  if (isMockMode()) return mockProvider;
+
+  const provider = IMAGE_PROVIDERS[model.provider];
+  if (!provider) {
+    throw new Error(`No image provider is registered for "${model.provider}".`);
+  }
+  return provider;
+}
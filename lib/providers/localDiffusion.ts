@@ -0,0 +1,172 @@
+import { readFile } from 'node:fs/promises';
+import { randomUUID } from 'node:crypto';
+import { normalizeBaseUrl, parseDataUri, readErrorMessage } from './shared';
+import { ImageEditRequest, ImageGenerationRequest, ImageProvider } from './types';
+
+const MAX_LOCAL_DIMENSION = 1536;
+const COMFYUI_POLL_INTERVAL_MS = 1000;
+
+// Diffusion backends want multiples of 64 and choke on multi-megapixel canvases.
+function toLatentSize(width: number, height: number): { width: number; height: number } {
+  const scale = Math.min(1, MAX_LOCAL_DIMENSION / Math.max(width, height));
+  const snap = (value: number) => Math.max(64, Math.round((value * scale) / 64) * 64);
+  return { width: snap(width), height: snap(height) };
+}
+
+async function requestStableDiffusion(
+  endpoint: 'txt2img' | 'img2img',
+  body: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<string> {
+  const baseUrl = normalizeBaseUrl(process.env.STABLE_DIFFUSION_BASE_URL || 'http://127.0.0.1:7860');
+  const steps = Number(process.env.STABLE_DIFFUSION_STEPS) || 30;
+
+  const response = await fetch(`${baseUrl}/sdapi/v1/${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ steps, batch_size: 1, ...body }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Stable Diffusion API error (${response.status}): ${await readErrorMessage(response)}`);
+  }
+
+  const data = await response.json();
+  const image = Array.isArray(data?.images) ? data.images[0] : null;
+  if (typeof image !== 'string' || !image) {
+    throw new Error('Stable Diffusion returned no image data.');
+  }
+
+  return image.startsWith('data:image') ? image : `data:image/png;base64,${image}`;
+}
+
+async function generateWithStableDiffusion({ prompt, width, height, references, signal }: ImageGenerationRequest): Promise<string> {
+  const body: Record<string, unknown> = { prompt, ...toLatentSize(width, height) };
+
+  // img2img starts from one image, so prefer the reference that carries layout or identity.
+  const initImage = references.find((reference) => reference.role === 'composition' || reference.role === 'subject') || references[0];
+  if (initImage) {
+    body.init_images = [parseDataUri(initImage.imageData).base64];
+    body.denoising_strength = 0.6;
+  }
+
+  return requestStableDiffusion(initImage ? 'img2img' : 'txt2img', body, signal);
+}
+
+async function editWithStableDiffusion({ prompt, width, height, imageData, maskData, signal }: ImageEditRequest): Promise<string> {
+  return requestStableDiffusion('img2img', {
+    prompt,
+    ...toLatentSize(width, height),
+    init_images: [parseDataUri(imageData).base64],
+    mask: parseDataUri(maskData).base64,
+    mask_blur: 4,
+    // 1 = start from the original pixels under the mask rather than noise.
+    inpainting_fill: 1,
+    inpaint_full_res: false,
+    denoising_strength: 0.75,
+  }, signal);
+}
+
+type ComfyOutputImage = { filename: string; subfolder?: string; type?: string };
+
+function fillWorkflowPlaceholders(node: unknown, values: Record<string, string | number>): unknown {
+  if (typeof node === 'string') {
+    const exact = node.match(/^\{\{(\w+)\}\}$/);
+    if (exact && exact[1] in values) return values[exact[1]];
+    return node.replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) => (key in values ? String(values[key]) : placeholder));
+  }
+  if (Array.isArray(node)) return node.map((item) => fillWorkflowPlaceholders(item, values));
+  if (node && typeof node === 'object') {
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => [key, fillWorkflowPlaceholders(value, values)])
+    );
+  }
+  return node;
+}
+
+function isComfyOutputImage(value: unknown): value is ComfyOutputImage {
+  if (!value || typeof value !== 'object') return false;
+  const { filename } = value as { filename?: unknown };
+  return typeof filename === 'string' && filename.length > 0;
+}
+
+function findComfyOutputImage(historyEntry: unknown): ComfyOutputImage | null {
+  if (!historyEntry || typeof historyEntry !== 'object') return null;
+  const { outputs } = historyEntry as { outputs?: unknown };
+  if (!outputs || typeof outputs !== 'object') return null;
+  for (const output of Object.values(outputs)) {
+    const images: unknown = output && typeof output === 'object' ? (output as { images?: unknown }).images : undefined;
+    const image = Array.isArray(images) ? images.find(isComfyOutputImage) : undefined;
+    if (image) return image;
+  }
+  return null;
+}
+
+async function generateWithComfyUi({ prompt, width, height, references, signal }: ImageGenerationRequest): Promise<string> {
+  if (references.length) {
+    throw new Error('The ComfyUI provider does not accept reference images. Remove the reference or pick another model.');
+  }
+
+  const workflowPath = process.env.COMFYUI_WORKFLOW_PATH;
+  if (!workflowPath) {
+    throw new Error('COMFYUI_WORKFLOW_PATH is not configured. Export an API-format workflow with {{prompt}}, {{width}}, {{height}}, and {{seed}} placeholders.');
+  }
+
+  const baseUrl = normalizeBaseUrl(process.env.COMFYUI_BASE_URL || 'http://127.0.0.1:8188');
+  const timeoutMs = Number(process.env.COMFYUI_TIMEOUT_MS) || 180_000;
+  const workflow = fillWorkflowPlaceholders(JSON.parse(await readFile(workflowPath, 'utf8')), {
+    prompt,
+    ...toLatentSize(width, height),
+    seed: Math.floor(Math.random() * 2 ** 32),
+  });
+
+  const queueResponse = await fetch(`${baseUrl}/prompt`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ prompt: workflow, client_id: randomUUID() }),
+    signal,
+  });
+  if (!queueResponse.ok) {
+    throw new Error(`ComfyUI API error (${queueResponse.status}): ${await readErrorMessage(queueResponse)}`);
+  }
+
+  const { prompt_id: promptId } = await queueResponse.json();
+  if (typeof promptId !== 'string') {
+    throw new Error('ComfyUI did not return a prompt id.');
+  }
+
+  const startedAt = Date.now();
+  while (Date.now() - startedAt < timeoutMs) {
+    await new Promise((resolve) => setTimeout(resolve, COMFYUI_POLL_INTERVAL_MS));
+    signal?.throwIfAborted();
+    const historyResponse = await fetch(`${baseUrl}/history/${promptId}`, { signal });
+    if (!historyResponse.ok) continue;
+
+    const image = findComfyOutputImage((await historyResponse.json())?.[promptId]);
+    if (!image) continue;
+
+    const params = new URLSearchParams({ filename: image.filename, subfolder: image.subfolder || '', type: image.type || 'output' });
+    const viewResponse = await fetch(`${baseUrl}/view?${params}`, { signal });
+    if (!viewResponse.ok) {
+      throw new Error(`ComfyUI image download failed (${viewResponse.status}).`);
+    }
+    const mimeType = viewResponse.headers.get('content-type')?.split(';')[0] || 'image/png';
+    return `data:${mimeType};base64,${Buffer.from(await viewResponse.arrayBuffer()).toString('base64')}`;
+  }
+
+  throw new Error(`ComfyUI did not finish within ${Math.round(timeoutMs / 1000)}s.`);
+}
+
+export const stableDiffusionProvider: ImageProvider = {
+  id: 'stable-diffusion',
+  label: 'Stable Diffusion (local)',
+  generate: generateWithStableDiffusion,
+  edit: editWithStableDiffusion,
+};
+
+export const comfyUiProvider: ImageProvider = {
+  id: 'comfyui',
+  label: 'ComfyUI (local)',
+  generate: generateWithComfyUi,
+};
@@ -0,0 +1,91 @@
+import { createHash } from 'node:crypto';
+import sharp from 'sharp';
+import { ImageEditRequest, ImageProvider } from './types';
+
+const MAX_PROMPT_LINES = 6;
+// Rough average glyph width for sans-serif, as a fraction of the font size.
+const GLYPH_WIDTH_RATIO = 0.56;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function wrapText(text: string, lineLength: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (current && `${current} ${word}`.length > lineLength) {
+      lines.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${word}` : word.slice(0, lineLength);
+  }
+  if (current) lines.push(current);
+
+  return lines.length > MAX_PROMPT_LINES
+    ? [...lines.slice(0, MAX_PROMPT_LINES - 1), `${lines[MAX_PROMPT_LINES - 1]}…`]
+    : lines;
+}
+
+// The same prompt always yields the same colors, so snapshots stay stable.
+function hueFromPrompt(prompt: string): number {
+  return createHash('sha256').update(prompt).digest().readUInt16BE(0) % 360;
+}
+
+type PlaceholderRequest = Pick<ImageEditRequest, 'brief' | 'width' | 'height' | 'model' | 'aspectRatio'>;
+
+function buildPlaceholderSvg({ brief, width, height, model, aspectRatio }: PlaceholderRequest, heading: string): string {
+  const hue = hueFromPrompt(brief);
+  const fontSize = Math.max(14, Math.round(Math.min(width, height) / 24));
+  const lineHeight = Math.round(fontSize * 1.35);
+  const padding = Math.round(Math.min(width, height) * 0.08);
+  const lineLength = Math.max(12, Math.floor((width - padding * 2) / (fontSize * GLYPH_WIDTH_RATIO)));
+  const promptTop = padding + fontSize * 4.2;
+
+  const text = wrapText(brief, lineLength)
+    .map((line, index) => `<text x="${padding}" y="${promptTop + index * lineHeight}" font-size="${fontSize}">${escapeXml(line)}</text>`)
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+    <defs>
+      <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+        <stop offset="0" stop-color="hsl(${hue}, 55%, 32%)"/>
+        <stop offset="1" stop-color="hsl(${(hue + 60) % 360}, 55%, 18%)"/>
+      </linearGradient>
+    </defs>
+    <rect width="100%" height="100%" fill="url(#bg)"/>
+    <rect x="${padding / 2}" y="${padding / 2}" width="${width - padding}" height="${height - padding}" fill="none" stroke="rgba(255,255,255,0.35)" stroke-dasharray="12 8" stroke-width="2"/>
+    <g font-family="sans-serif" fill="#ffffff">
+      <text x="${padding}" y="${padding + fontSize * 1.2}" font-size="${Math.round(fontSize * 1.2)}" font-weight="700">MOCK · ${escapeXml(heading)}</text>
+      <text x="${padding}" y="${padding + fontSize * 2.5}" font-size="${Math.round(fontSize * 0.8)}" fill-opacity="0.75">${width}x${height} · ${escapeXml(aspectRatio)}</text>
+      ${text}
+      <text x="${padding}" y="${height - padding}" font-size="${Math.round(fontSize * 0.8)}" fill-opacity="0.75">${escapeXml(model.label)}</text>
+    </g>
+  </svg>`;
+}
+
+async function renderPlaceholder(request: PlaceholderRequest, heading: string): Promise<string> {
+  const png = await sharp(Buffer.from(buildPlaceholderSvg(request, heading)))
+    .png()
+    .toBuffer();
+
+  return `data:image/png;base64,${png.toString('base64')}`;
+}
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Mock',
+  generate: (request) => renderPlaceholder(
+    request,
+    request.references.length
+      ? `${request.layout} · ${request.references.map((reference) => reference.role).join(' + ')}`
+      : request.layout
+  ),
+  // Repaints the whole frame; the mask composite keeps only the painted region.
+  edit: (request) => renderPlaceholder(request, 'edit'),
+};
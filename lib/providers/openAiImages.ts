@@ -0,0 +1,145 @@
+import sharp from 'sharp';
+import { ImageProviderId } from '../modelConfig';
+import { ProviderImage, extractUrlFromImage, normalizeBaseUrl, parseDataUri, readErrorMessage } from './shared';
+import { ImageEditRequest, ImageGenerationRequest, ImageProvider } from './types';
+
+interface OpenAiImagesProviderOptions {
+  id: ImageProviderId;
+  label: string;
+  resolveConfig: () => { baseUrl: string; apiKey?: string; model?: string };
+  // OpenAI only accepts a few fixed sizes; compatible servers usually take any WxH.
+  resolveSize: (width: number, height: number) => string;
+}
+
+const OPENAI_IMAGE_SIZES = [
+  { size: '1024x1024', ratio: 1 },
+  { size: '1536x1024', ratio: 1.5 },
+  { size: '1024x1536', ratio: 2 / 3 },
+];
+
+function closestOpenAiSize(width: number, height: number): string {
+  const ratio = width / height;
+  return OPENAI_IMAGE_SIZES.reduce((closest, candidate) => (
+    Math.abs(candidate.ratio - ratio) < Math.abs(closest.ratio - ratio) ? candidate : closest
+  )).size;
+}
+
+function dataUriToBlob(dataUri: string): Blob {
+  const { mimeType, base64 } = parseDataUri(dataUri);
+  return new Blob([Buffer.from(base64, 'base64')], { type: mimeType });
+}
+
+// The Images API repaints transparent mask pixels, the inverse of our white-means-edit masks.
+async function toAlphaMask(maskData: string, width: number, height: number): Promise<Blob> {
+  const { data } = await sharp(Buffer.from(parseDataUri(maskData).base64, 'base64'))
+    .resize(width, height, { fit: 'fill' })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const alpha = Buffer.from(data.map((value) => 255 - value));
+  const png = await sharp({ create: { width, height, channels: 3, background: '#000000' } })
+    .joinChannel(alpha, { raw: { width, height, channels: 1 } })
+    .png()
+    .toBuffer();
+  return new Blob([new Uint8Array(png)], { type: 'image/png' });
+}
+
+export function createOpenAiImagesProvider({ id, label, resolveConfig, resolveSize }: OpenAiImagesProviderOptions): ImageProvider {
+  async function generate({ prompt, model, width, height, references, signal }: ImageGenerationRequest): Promise<string> {
+    const { baseUrl, apiKey, model: modelOverride } = resolveConfig();
+    const providerModel = modelOverride || model.providerModel;
+    const size = resolveSize(width, height);
+    const headers: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+    let response: Response;
+    if (references.length) {
+      const formData = new FormData();
+      formData.append('model', providerModel);
+      formData.append('prompt', prompt);
+      formData.append('size', size);
+      formData.append('n', '1');
+      // Multi-image edits use the image[] field; single-image servers only know image.
+      const field = references.length > 1 ? 'image[]' : 'image';
+      references.forEach((reference, index) => {
+        const blob = dataUriToBlob(reference.imageData);
+        formData.append(field, blob, `reference-${index + 1}-${reference.role}.${blob.type.split('/')[1] || 'png'}`);
+      });
+      response = await fetch(`${baseUrl}/images/edits`, { method: 'POST', headers, body: formData, signal });
+    } else {
+      response = await fetch(`${baseUrl}/images/generations`, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: providerModel, prompt, size, n: 1 }),
+        signal,
+      });
+    }
+
+    return readImageResponse(response, providerModel);
+  }
+
+  async function edit({ prompt, model, width, height, imageData, maskData, signal }: ImageEditRequest): Promise<string> {
+    const { baseUrl, apiKey, model: modelOverride } = resolveConfig();
+    const providerModel = modelOverride || model.providerModel;
+    const headers: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+    const formData = new FormData();
+    formData.append('model', providerModel);
+    formData.append('prompt', prompt);
+    formData.append('size', resolveSize(width, height));
+    formData.append('n', '1');
+    formData.append('image', dataUriToBlob(imageData), 'image.png');
+    formData.append('mask', await toAlphaMask(maskData, width, height), 'mask.png');
+
+    const response = await fetch(`${baseUrl}/images/edits`, { method: 'POST', headers, body: formData, signal });
+    return readImageResponse(response, providerModel);
+  }
+
+  async function readImageResponse(response: Response, providerModel: string): Promise<string> {
+    if (!response.ok) {
+      const errorMessage = await readErrorMessage(response);
+      throw new Error(`${label} API error (${response.status}) for ${providerModel}: ${errorMessage}`);
+    }
+
+    const data = await response.json();
+    const image = Array.isArray(data?.data)
+      ? (data.data as ProviderImage[]).map(extractUrlFromImage).find(Boolean)
+      : null;
+    if (!image) {
+      throw new Error(`${label} returned no image data for ${providerModel}.`);
+    }
+
+    return image;
+  }
+
+  return { id, label, generate, edit };
+}
+
+export const openAiProvider = createOpenAiImagesProvider({
+  id: 'openai',
+  label: 'OpenAI Images',
+  resolveConfig: () => {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY is not configured. Add it to .env.local to use direct OpenAI image models.');
+    }
+    return { baseUrl: 'https://api.openai.com/v1', apiKey };
+  },
+  resolveSize: closestOpenAiSize,
+});
+
+export const openAiCompatibleProvider = createOpenAiImagesProvider({
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible',
+  resolveConfig: () => {
+    const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+    if (!baseUrl) {
+      throw new Error('OPENAI_COMPATIBLE_BASE_URL is not configured. Point it at a server exposing /images/generations.');
+    }
+    return {
+      baseUrl: normalizeBaseUrl(baseUrl),
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      model: process.env.OPENAI_COMPATIBLE_IMAGE_MODEL,
+    };
+  },
+  resolveSize: (width, height) => `${width}x${height}`,
+});
@@ -0,0 +1,122 @@
+import { APP_REFERER, ProviderImage, extractUrlFromImage, readErrorMessage } from './shared';
+import { ImageEditRequest, ImageGenerationRequest, ImageProvider } from './types';
+
+const OPENROUTER_CHAT_COMPLETIONS_URL = 'https://openrouter.ai/api/v1/chat/completions';
+
+function extractImageUrl(data: any): string | null {
+  const message = data?.choices?.[0]?.message;
+  const image = message?.images?.find((item: ProviderImage) => !!extractUrlFromImage(item));
+  if (image) return extractUrlFromImage(image);
+
+  if (Array.isArray(message?.content)) {
+    for (const part of message.content) {
+      const url = extractUrlFromImage(part);
+      if (url) return url;
+    }
+  }
+
+  if (Array.isArray(data?.images)) {
+    for (const item of data.images) {
+      if (typeof item === 'string') return item;
+      const url = extractUrlFromImage(item);
+      if (url) return url;
+    }
+  }
+
+  if (Array.isArray(data?.data)) {
+    for (const item of data.data) {
+      const url = extractUrlFromImage(item);
+      if (url) return url;
+    }
+  }
+
+  return null;
+}
+
+type OpenRouterContent = string | Array<{ type: 'image_url'; image_url: { url: string } } | { type: 'text'; text: string }>;
+
+async function requestImage(
+  model: ImageGenerationRequest['model'],
+  aspectRatio: string,
+  content: OpenRouterContent,
+  signal?: AbortSignal,
+): Promise<string> {
+  const apiKey = process.env.OPENROUTER_API_KEY;
+  if (!apiKey) {
+    throw new Error('OPENROUTER_API_KEY is not configured. Please add it to your .env.local file.');
+  }
+
+  const requestBody: Record<string, unknown> = {
+    model: model.providerModel,
+    messages: [{ role: 'user', content }],
+    modalities: model.outputModalities,
+    stream: false,
+  };
+
+  if (model.supportsImageConfig) {
+    requestBody.image_config = {
+      aspect_ratio: aspectRatio,
+      image_size: model.imageSize || '2K',
+    };
+  }
+
+  if (model.outputModalities.includes('text')) {
+    requestBody.max_tokens = 800;
+  }
+
+  const response = await fetch(OPENROUTER_CHAT_COMPLETIONS_URL, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+      'HTTP-Referer': APP_REFERER,
+      'X-Title': 'ImageGenStudio',
+    },
+    body: JSON.stringify(requestBody),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorMessage = await readErrorMessage(response);
+    throw new Error(`OpenRouter API error (${response.status}) for ${model.providerModel}: ${errorMessage}`);
+  }
+
+  const data = await response.json();
+  if (data.error) {
+    throw new Error(`OpenRouter API error: ${data.error.message || JSON.stringify(data.error)}`);
+  }
+
+  const imageUrl = extractImageUrl(data);
+  if (!imageUrl) {
+    throw new Error(`OpenRouter returned no image data for ${model.providerModel}. Verify the model supports image output and modalities are enabled.`);
+  }
+
+  return imageUrl;
+}
+
+async function generate({ prompt, model, aspectRatio, references, signal }: ImageGenerationRequest): Promise<string> {
+  const content: OpenRouterContent = references.length
+    ? [
+        ...references.map((reference) => ({ type: 'image_url' as const, image_url: { url: reference.imageData } })),
+        { type: 'text', text: prompt },
+      ]
+    : prompt;
+
+  return requestImage(model, aspectRatio, content, signal);
+}
+
+// Chat image models have no mask input, so the mask travels as a second image.
+async function edit({ prompt, model, aspectRatio, imageData, maskData, signal }: ImageEditRequest): Promise<string> {
+  return requestImage(model, aspectRatio, [
+    { type: 'image_url', image_url: { url: imageData } },
+    { type: 'image_url', image_url: { url: maskData } },
+    { type: 'text', text: `The second image is a black-and-white mask the same size as the first. ${prompt}` },
+  ], signal);
+}
+
+export const openRouterProvider: ImageProvider = {
+  id: 'openrouter',
+  label: 'OpenRouter',
+  generate,
+  edit,
+};
@@ -0,0 +1,38 @@
+export type ProviderImage = {
+  image_url?: { url?: string };
+  imageUrl?: { url?: string };
+  url?: string;
+  b64_json?: string;
+};
+
+export const APP_REFERER = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+export function extractUrlFromImage(image: ProviderImage): string | null {
+  if (image.image_url?.url) return image.image_url.url;
+  if (image.imageUrl?.url) return image.imageUrl.url;
+  if (image.url) return image.url;
+  if (image.b64_json) return `data:image/png;base64,${image.b64_json}`;
+  return null;
+}
+
+export async function readErrorMessage(response: Response): Promise<string> {
+  const responseText = await response.text();
+  try {
+    const errorJson = JSON.parse(responseText);
+    return errorJson.error?.message || (typeof errorJson.error === 'string' ? errorJson.error : JSON.stringify(errorJson));
+  } catch {
+    return responseText || response.statusText;
+  }
+}
+
+export function parseDataUri(dataUri: string): { mimeType: string; base64: string } {
+  const match = dataUri.match(/^data:(image\/[^;]+);base64,(.+)$/);
+  if (!match?.[1] || !match[2]) {
+    throw new Error('Reference image must be a base64 data URI.');
+  }
+  return { mimeType: match[1], base64: match[2] };
+}
+
+export function normalizeBaseUrl(value: string): string {
+  return value.replace(/\/+$/, '');
+}
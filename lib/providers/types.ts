@@ -0,0 +1,42 @@
+import { ImageProviderId, Layout, ModelOption } from '../modelConfig';
+import { ReferenceImage } from '../referenceImages';
+
+export interface ImageGenerationRequest {
+  // Final prompt, already carrying the dimension and quality instructions.
+  prompt: string;
+  // The caller's prompt before those instructions were added.
+  brief: string;
+  layout: Layout;
+  model: ModelOption;
+  width: number;
+  height: number;
+  aspectRatio: string;
+  // Role-tagged references in attachment order; the prompt already describes each role.
+  references: ReferenceImage[];
+  // Aborts the provider request when the caller goes away, such as a stopped chat.
+  signal?: AbortSignal;
+}
+
+export interface ImageEditRequest {
+  // Final edit instruction, already carrying the mask semantics.
+  prompt: string;
+  brief: string;
+  model: ModelOption;
+  width: number;
+  height: number;
+  aspectRatio: string;
+  // PNG data URI of the image being edited.
+  imageData: string;
+  // PNG data URI at the image's size: white marks the region to repaint, black is kept.
+  maskData: string;
+  signal?: AbortSignal;
+}
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  label: string;
+  // Resolves to an image data URI or an http(s) URL.
+  generate(request: ImageGenerationRequest): Promise<string>;
+  // Optional masked edit. Results are composited back through the mask, so a provider may repaint the whole frame.
+  edit?(request: ImageEditRequest): Promise<string>;
+}
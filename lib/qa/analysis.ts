@@ -0,0 +1,183 @@
+import sharp from 'sharp';
+import { CreatorPreset } from '../creatorContent';
+import { getOgPreset } from '../og/presets';
+import { BANNER_RESERVED_ZONE } from '../safeZones';
+import { QaCheck, QaRegion } from './types';
+
+// Analysis runs on a downscaled greyscale copy; the ratios below are tuned for this width.
+const ANALYSIS_WIDTH = 480;
+const EDGE_THRESHOLD = 48;
+const EDGE_STRIP_RATIO = 0.015;
+const EDGE_STRIP_MAX_DENSITY = 0.12;
+const EDGE_SEGMENTS = 8;
+const BOTTOM_BAND_MAX_DENSITY = 0.05;
+const RESERVED_ZONE_MAX_DENSITY = 0.04;
+const RESERVED_ZONE_MAX_CONTRAST = 0.16;
+
+interface LuminanceMap {
+  luminance: Uint8Array;
+  edges: Uint8Array;
+  width: number;
+  height: number;
+}
+
+interface RegionStats {
+  edgeDensity: number;
+  contrast: number;
+}
+
+async function loadLuminanceMap(image: Buffer): Promise<LuminanceMap> {
+  const { data, info } = await sharp(image)
+    .flatten({ background: '#ffffff' })
+    .resize({ width: ANALYSIS_WIDTH })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height } = info;
+  const luminance = new Uint8Array(data.buffer, data.byteOffset, width * height);
+  const edges = new Uint8Array(width * height);
+  for (let y = 1; y < height - 1; y += 1) {
+    for (let x = 1; x < width - 1; x += 1) {
+      const index = y * width + x;
+      const dx = luminance[index + 1] - luminance[index - 1];
+      const dy = luminance[index + width] - luminance[index - width];
+      edges[index] = Math.abs(dx) + Math.abs(dy) > EDGE_THRESHOLD ? 1 : 0;
+    }
+  }
+
+  return { luminance, edges, width, height };
+}
+
+function measureRegion(map: LuminanceMap, region: QaRegion): RegionStats {
+  const left = Math.max(0, Math.round(region.left * map.width));
+  const top = Math.max(0, Math.round(region.top * map.height));
+  const right = Math.min(map.width, Math.round((region.left + region.width) * map.width));
+  const bottom = Math.min(map.height, Math.round((region.top + region.height) * map.height));
+
+  let count = 0;
+  let edgeCount = 0;
+  let sum = 0;
+  let sumSquares = 0;
+  for (let y = top; y < bottom; y += 1) {
+    for (let x = left; x < right; x += 1) {
+      const index = y * map.width + x;
+      const value = map.luminance[index];
+      count += 1;
+      edgeCount += map.edges[index];
+      sum += value;
+      sumSquares += value * value;
+    }
+  }
+  if (count === 0) return { edgeDensity: 0, contrast: 0 };
+
+  const mean = sum / count;
+  return {
+    edgeDensity: edgeCount / count,
+    contrast: Math.sqrt(Math.max(0, sumSquares / count - mean * mean)) / 255,
+  };
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+// Clipped text only touches part of an edge, so each side is scored by its busiest segment.
+function measureEdge(map: LuminanceMap, side: 'top' | 'bottom' | 'left' | 'right'): number {
+  // Skip the outermost pixel row, which the gradient pass never fills.
+  const stripX = Math.max(2 / map.width, EDGE_STRIP_RATIO);
+  const stripY = Math.max(2 / map.height, EDGE_STRIP_RATIO * (map.width / map.height));
+  const insetX = 1 / map.width;
+  const insetY = 1 / map.height;
+  const segment = 1 / EDGE_SEGMENTS;
+
+  let busiest = 0;
+  for (let index = 0; index < EDGE_SEGMENTS; index += 1) {
+    const offset = index * segment;
+    const region: QaRegion = side === 'top'
+      ? { left: offset, top: insetY, width: segment, height: stripY }
+      : side === 'bottom'
+        ? { left: offset, top: 1 - insetY - stripY, width: segment, height: stripY }
+        : side === 'left'
+          ? { left: insetX, top: offset, width: stripX, height: segment }
+          : { left: 1 - insetX - stripX, top: offset, width: stripX, height: segment };
+    busiest = Math.max(busiest, measureRegion(map, region).edgeDensity);
+  }
+  return busiest;
+}
+
+function checkEdgeClipping(map: LuminanceMap): QaCheck {
+  const clipped = (['top', 'bottom', 'left', 'right'] as const)
+    .filter((side) => measureEdge(map, side) > EDGE_STRIP_MAX_DENSITY);
+  if (clipped.length === 0) {
+    return { id: 'edge-clipping', label: 'Edge clipping', status: 'pass', detail: 'Nothing detailed touches the canvas edges.' };
+  }
+
+  const sideNames = clipped.join(', ');
+  return {
+    id: 'edge-clipping',
+    label: 'Edge clipping',
+    status: 'warn',
+    detail: `Detail runs into the ${sideNames} edge${clipped.length === 1 ? '' : 's'}; text or graphics may be cut off.`,
+    feedback: `Detail ran into the ${sideNames} edge${clipped.length === 1 ? '' : 's'}. Pull every headline, icon, and graphic inward with clear padding on all four sides.`,
+  };
+}
+
+function checkBottomBand(map: LuminanceMap, avoidBottomPercent: number): QaCheck {
+  const band = avoidBottomPercent / 100;
+  const stats = measureRegion(map, { left: 0.05, top: 1 - band, width: 0.9, height: band * 0.95 });
+  const label = `Bottom ${avoidBottomPercent}%`;
+
+  if (stats.edgeDensity <= BOTTOM_BAND_MAX_DENSITY) {
+    return { id: 'bottom-band', label, status: 'pass', detail: 'The band platforms cover with the domain is clear.' };
+  }
+
+  return {
+    id: 'bottom-band',
+    label,
+    status: 'warn',
+    detail: `The bottom ${avoidBottomPercent}% holds detailed content (${percent(stats.edgeDensity)} edge density) that platform domain labels will cover.`,
+    feedback: `Content sat in the bottom ${avoidBottomPercent}% of the frame. Keep that band as plain background and move all text and key visuals above it.`,
+  };
+}
+
+function checkBannerReservedZone(map: LuminanceMap): QaCheck[] {
+  const stats = measureRegion(map, BANNER_RESERVED_ZONE);
+
+  const contrast: QaCheck = stats.contrast <= RESERVED_ZONE_MAX_CONTRAST
+    ? { id: 'overlay-zone-contrast', label: 'Overlay zone contrast', status: 'pass', detail: 'The profile photo zone is an even tone.' }
+    : {
+        id: 'overlay-zone-contrast',
+        label: 'Overlay zone contrast',
+        status: 'warn',
+        detail: `The profile photo zone has strong light/dark contrast (${percent(stats.contrast)}) that will show around the photo.`,
+        feedback: 'The lower-left profile photo zone had strong light and dark shapes. Keep that zone one flat, even tone.',
+      };
+
+  const busy: QaCheck = stats.edgeDensity <= RESERVED_ZONE_MAX_DENSITY
+    ? { id: 'banner-lower-left', label: 'Lower-left zone', status: 'pass', detail: 'The lower-left stays quiet for the profile photo.' }
+    : {
+        id: 'banner-lower-left',
+        label: 'Lower-left zone',
+        status: 'warn',
+        detail: `The lower-left is busy (${percent(stats.edgeDensity)} edge density); the profile photo will cover part of it.`,
+        feedback: 'The lower-left reserved zone was busy. Keep it a plain color field or soft texture with no text, objects, or faces.',
+      };
+
+  return [contrast, busy];
+}
+
+export async function analyzeImage(image: Buffer, preset?: CreatorPreset | null): Promise<QaCheck[]> {
+  const map = await loadLuminanceMap(image);
+  const checks = [checkEdgeClipping(map)];
+
+  const safeZone = preset ? getOgPreset(preset.id)?.safeZone : undefined;
+  if (safeZone?.avoidBottomPercent) {
+    checks.push(checkBottomBand(map, safeZone.avoidBottomPercent));
+  }
+  if (preset?.workflow === 'banner') {
+    checks.push(...checkBannerReservedZone(map));
+  }
+
+  return checks;
+}
@@ -0,0 +1,26 @@
+import { QaReport } from './types';
+
+export async function checkImageQa(image: string, presetId?: string | null, vision = false): Promise<QaReport> {
+  const response = await fetch('/api/qa', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ image, presetId: presetId || undefined, vision }),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.report) {
+    throw new Error(data?.error || 'Failed to check image quality.');
+  }
+
+  return data.report;
+}
+
+// Accepts several reports so one OG package regeneration can address every export's warnings at once.
+export function buildQaFeedbackPrompt(reports: QaReport[]): string {
+  const feedback = Array.from(new Set(reports.flatMap((report) => report.checks
+    .filter((check) => check.status === 'warn' && check.feedback)
+    .map((check) => `- ${check.feedback}`))));
+  if (feedback.length === 0) return '';
+
+  return ['Fix these problems found in the previous attempt (mandatory):', ...feedback].join('\n');
+}
@@ -0,0 +1,30 @@
+export type QaStatus = 'pass' | 'warn';
+
+export type QaCheckId =
+  | 'edge-clipping'
+  | 'bottom-band'
+  | 'overlay-zone-contrast'
+  | 'banner-lower-left'
+  | 'vision';
+
+export interface QaCheck {
+  id: QaCheckId;
+  label: string;
+  status: QaStatus;
+  detail: string;
+  // Sentence appended to the prompt when regenerating to fix this violation.
+  feedback?: string;
+}
+
+export interface QaReport {
+  status: QaStatus;
+  checks: QaCheck[];
+  visionChecked: boolean;
+}
+
+export interface QaRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
@@ -0,0 +1,101 @@
+import sharp from 'sharp';
+import { CreatorPreset } from '../creatorContent';
+import { buildMockVisionReview, isMockMode } from '../mock';
+import { QaCheck } from './types';
+
+const VISION_IMAGE_WIDTH = 1024;
+
+const VISION_SYSTEM_PROMPT = `You review generated social images before they are published.
+
+Report only concrete, visible problems:
+- Text that is clipped, cut off at an edge, misspelled, garbled, or too small to read at 400px display width.
+- Text or key visuals in reserved zones described in the layout notes.
+- Low contrast between text and its background.
+- Placeholder artifacts such as fake UI, lorem ipsum, watermarks, or a generated stand-in profile photo.
+
+Return JSON only: {"issues": [{"label": "short title", "detail": "one sentence describing the problem and where it is"}]}. Return {"issues": []} when the image is clean.`;
+
+interface VisionIssue {
+  label: string;
+  detail: string;
+}
+
+function isVisionIssue(value: unknown): value is VisionIssue {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Partial<VisionIssue>;
+  return typeof candidate.label === 'string' && typeof candidate.detail === 'string';
+}
+
+async function requestVisionReview(image: Buffer, preset?: CreatorPreset | null): Promise<VisionIssue[]> {
+  if (isMockMode()) return buildMockVisionReview();
+
+  const apiKey = process.env.OPENROUTER_API_KEY;
+  if (!apiKey) {
+    throw new Error('OPENROUTER_API_KEY is not configured.');
+  }
+
+  // A smaller JPEG keeps the request light; layout problems are visible at this size.
+  const preview = await sharp(image)
+    .flatten({ background: '#ffffff' })
+    .resize({ width: VISION_IMAGE_WIDTH, withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+
+  const model = process.env.OPENROUTER_VISION_MODEL || process.env.OPENROUTER_CHAT_MODEL || 'openai/gpt-5.4-mini';
+  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+      'HTTP-Referer': process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
+      'X-Title': 'ImageGenStudio',
+    },
+    body: JSON.stringify({
+      model,
+      temperature: 0,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: VISION_SYSTEM_PROMPT },
+        {
+          role: 'user',
+          content: [
+            { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${preview.toString('base64')}` } },
+            {
+              type: 'text',
+              text: preset
+                ? `Format: ${preset.label} (${preset.dimensions}). Layout notes: ${preset.guidance}${preset.safeArea ? ` ${preset.safeArea.description}` : ''}`
+                : 'Format: freeform image. Check text legibility and edge clipping only.',
+            },
+          ],
+        },
+      ],
+    }),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error?.message || 'Vision review failed.');
+  }
+
+  try {
+    const parsed = JSON.parse(data?.choices?.[0]?.message?.content || '{}');
+    return Array.isArray(parsed.issues) ? parsed.issues.filter(isVisionIssue) : [];
+  } catch {
+    throw new Error('Vision review returned an unreadable response.');
+  }
+}
+
+export async function reviewImageWithVision(image: Buffer, preset?: CreatorPreset | null): Promise<QaCheck[]> {
+  const issues = await requestVisionReview(image, preset);
+  if (issues.length === 0) {
+    return [{ id: 'vision', label: 'Vision review', status: 'pass', detail: 'No clipped, misspelled, or misplaced text found.' }];
+  }
+
+  return issues.map((issue) => ({
+    id: 'vision',
+    label: issue.label,
+    status: 'warn',
+    detail: issue.detail,
+    feedback: issue.detail,
+  }));
+}
@@ -0,0 +1,52 @@
+// Reference images sent alongside a prompt, each tagged with what the model should take from it.
+
+export type ReferenceRole = 'subject' | 'style' | 'logo' | 'composition';
+
+export interface ReferenceImage {
+  imageData: string;
+  role: ReferenceRole;
+}
+
+export interface ReferenceRoleOption {
+  value: ReferenceRole;
+  label: string;
+  description: string;
+}
+
+export const MAX_REFERENCE_IMAGES = 4;
+
+export const REFERENCE_ROLES: ReferenceRoleOption[] = [
+  { value: 'subject', label: 'Subject', description: 'Person or product identity to preserve' },
+  { value: 'style', label: 'Style', description: 'Palette, lighting, and rendering to match' },
+  { value: 'logo', label: 'Logo', description: 'Brand mark to reproduce exactly' },
+  { value: 'composition', label: 'Composition', description: 'Layout and framing to follow' },
+];
+
+const ROLE_INSTRUCTIONS: Record<ReferenceRole, string> = {
+  subject: "is the subject: preserve the person's face, identity, and likeness, or the product's exact shape, materials, and details.",
+  style: 'is a style reference: match its color palette, lighting, texture, and rendering style, but do not copy its subject or layout.',
+  logo: 'is a logo: reproduce this brand mark exactly, undistorted and legible, with clear space around it. Do not redraw, restyle, or invent a different mark.',
+  composition: 'is a composition reference: follow its layout, framing, camera angle, and placement of elements, but not its subject or style.',
+};
+
+export function isReferenceRole(value: unknown): value is ReferenceRole {
+  return REFERENCE_ROLES.some((role) => role.value === value);
+}
+
+export function getDefaultReferenceRole(existing: ReferenceRole[]): ReferenceRole {
+  const order: ReferenceRole[] = ['subject', 'logo', 'style', 'composition'];
+  return order.find((role) => !existing.includes(role)) || 'style';
+}
+
+// References are attached in order, so the instructions number them the same way.
+export function buildReferenceInstructions(references: ReferenceImage[]): string {
+  if (references.length === 0) return '';
+  if (references.length === 1) {
+    return `The attached reference image ${ROLE_INSTRUCTIONS[references[0].role]}`;
+  }
+
+  return [
+    `${references.length} reference images are attached in order.`,
+    ...references.map((reference, index) => `Reference image ${index + 1} ${ROLE_INSTRUCTIONS[reference.role]}`),
+  ].join(' ');
+}
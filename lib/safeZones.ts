@@ -0,0 +1,94 @@
+import { getOgPreset } from './og/presets';
+
+export type SafeZoneGuideKind = 'margin' | 'covered' | 'band' | 'reserved' | 'avatar' | 'corners';
+
+// Coordinates are in the export's own pixels; overlays scale them with an SVG viewBox.
+export interface SafeZoneGuide {
+  id: string;
+  kind: SafeZoneGuideKind;
+  label: string;
+  rect?: { x: number; y: number; width: number; height: number };
+  circle?: { cx: number; cy: number; r: number };
+  cornerRadius?: number;
+}
+
+// Where LinkedIn draws the profile photo over the banner, as fractions of the canvas.
+export const BANNER_RESERVED_ZONE = { left: 0.02, top: 0.4, width: 0.3, height: 0.6 };
+
+// Approximate profile photo placement over the banner. Centres are fractions of the width and height,
+// radii fractions of the height; the circles hang below the banner's bottom edge.
+const LINKEDIN_AVATARS = [
+  { id: 'avatar-desktop', label: 'Profile photo (desktop)', cx: 0.1, cy: 0.92, r: 0.33 },
+  { id: 'avatar-mobile', label: 'Profile photo (mobile)', cx: 0.145, cy: 1, r: 0.42 },
+];
+
+// X clips the large summary card to rounded corners of roughly this fraction of the card width.
+const X_CARD_CORNER_RATIO = 0.032;
+
+export function getSafeZoneGuides(presetId: string | undefined, width: number, height: number): SafeZoneGuide[] {
+  if (!presetId) return [];
+  const guides: SafeZoneGuide[] = [];
+
+  if (presetId === 'linkedin-profile-banner') {
+    guides.push({
+      id: 'reserved',
+      kind: 'reserved',
+      label: 'Reserved overlay zone',
+      rect: {
+        x: BANNER_RESERVED_ZONE.left * width,
+        y: BANNER_RESERVED_ZONE.top * height,
+        width: BANNER_RESERVED_ZONE.width * width,
+        height: BANNER_RESERVED_ZONE.height * height,
+      },
+    });
+    for (const avatar of LINKEDIN_AVATARS) {
+      guides.push({
+        id: avatar.id,
+        kind: 'avatar',
+        label: avatar.label,
+        circle: { cx: avatar.cx * width, cy: avatar.cy * height, r: avatar.r * height },
+      });
+    }
+    return guides;
+  }
+
+  const ogPreset = getOgPreset(presetId);
+  if (!ogPreset) return guides;
+
+  // Safe zones are specified in the preset's own pixels.
+  const scale = width / ogPreset.width;
+  const { marginPx, avoidBottomPercent, landscapeBand } = ogPreset.safeZone;
+  const margin = marginPx * scale;
+  guides.push({
+    id: 'margin',
+    kind: 'margin',
+    label: `${marginPx}px margins`,
+    rect: { x: margin, y: margin, width: width - margin * 2, height: height - margin * 2 },
+  });
+
+  if (avoidBottomPercent) {
+    const bandHeight = (height * avoidBottomPercent) / 100;
+    guides.push({
+      id: 'covered',
+      kind: 'covered',
+      label: `Bottom ${avoidBottomPercent}% domain band`,
+      rect: { x: 0, y: height - bandHeight, width, height: bandHeight },
+    });
+  }
+
+  if (landscapeBand) {
+    const bandHeight = Math.min(height, (landscapeBand.height / landscapeBand.width) * width);
+    guides.push({
+      id: 'band',
+      kind: 'band',
+      label: `${landscapeBand.width}x${landscapeBand.height} landscape band`,
+      rect: { x: 0, y: (height - bandHeight) / 2, width, height: bandHeight },
+    });
+  }
+
+  if (ogPreset.platform === 'twitter') {
+    guides.push({ id: 'corners', kind: 'corners', label: 'Rounded card corners', cornerRadius: width * X_CARD_CORNER_RATIO });
+  }
+
+  return guides;
+}
@@ -0,0 +1,164 @@
+import sharp from 'sharp';
+import { DEFAULT_MODEL, Model, MODEL_BY_VALUE } from '@/lib/modelConfig';
+import { getImageProvider } from '@/lib/providers';
+import { getOpenRouterAspectRatio, toImageDataUri } from '@/lib/serverImageGeneration';
+
+// Softens the seam between repainted and original pixels.
+const MASK_FEATHER_SIGMA = 3;
+// Blur applied to the stretched master that seeds the outpaint area, so providers that ignore masks still see the palette.
+const OUTPAINT_SEED_BLUR_SIGMA = 40;
+
+function readImageBytes(image: string): Buffer {
+  const match = image.match(/^data:image\/[^;]+;base64,(.+)$/);
+  if (!match?.[1]) {
+    throw new Error('Images must be base64 data URIs.');
+  }
+  return Buffer.from(match[1], 'base64');
+}
+
+function toPngDataUri(bytes: Buffer): string {
+  return `data:image/png;base64,${bytes.toString('base64')}`;
+}
+
+function buildEditPrompt(instruction: string): string {
+  return [
+    'Edit the image. Repaint only the white region of the mask and keep every pixel under the black region unchanged.',
+    'Match the surrounding lighting, perspective, texture, and typography so the edit blends in seamlessly.',
+    'If the edit involves text, render it crisply and spell it exactly as written.',
+    `Edit instruction: ${instruction}`,
+  ].join(' ');
+}
+
+function buildOutpaintPrompt(brief: string): string {
+  return [
+    'Extend the image outward. Keep every pixel under the black region of the mask unchanged and paint the white region as a natural continuation of the scene.',
+    'Continue the existing background, lighting, perspective, palette, and textures across the new area so there is no visible seam, border, frame, or letterbox.',
+    'Do not add new text, logos, or focal subjects in the extended area, and do not repeat the headline.',
+    brief ? `Scene context: ${brief}` : '',
+  ].filter(Boolean).join(' ');
+}
+
+// Smallest canvas at the target aspect ratio that holds the whole source at its original size.
+function getOutpaintCanvas(sourceWidth: number, sourceHeight: number, targetWidth: number, targetHeight: number) {
+  const targetRatio = targetWidth / targetHeight;
+  return sourceWidth / sourceHeight > targetRatio
+    ? { width: sourceWidth, height: Math.round(sourceWidth / targetRatio) }
+    : { width: Math.round(sourceHeight * targetRatio), height: sourceHeight };
+}
+
+// Sends the image and mask to the model's provider, then pastes only the masked region of the result back
+// onto the original so the rest of the frame stays pixel-identical whatever the provider returned.
+async function repaintMaskedRegion(
+  source: Buffer,
+  mask: Buffer,
+  prompt: string,
+  brief: string,
+  model: Model,
+  signal?: AbortSignal
+): Promise<string> {
+  signal?.throwIfAborted();
+  const modelConfig = MODEL_BY_VALUE[model];
+  const provider = getImageProvider(modelConfig);
+  if (!provider.edit) {
+    throw new Error(`${provider.label} does not support masked edits. Pick another model.`);
+  }
+
+  const { width, height } = await sharp(source).metadata();
+  if (!width || !height) {
+    throw new Error('Could not read the image dimensions.');
+  }
+
+  const resultUrl = await provider.edit({
+    prompt,
+    brief,
+    model: modelConfig,
+    width,
+    height,
+    aspectRatio: getOpenRouterAspectRatio('reference', { width, height }, model),
+    imageData: toPngDataUri(source),
+    maskData: toPngDataUri(mask),
+    signal,
+  });
+
+  const featheredMask = await sharp(mask).blur(MASK_FEATHER_SIGMA).extractChannel(0).raw().toBuffer();
+  const repainted = await sharp(readImageBytes(await toImageDataUri(resultUrl, provider.label, signal)))
+    .resize(width, height, { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+  // sharp does not order removeAlpha before joinChannel within one pipeline, so attach the mask in a second pass.
+  const patch = await sharp(repainted, { raw: { width, height, channels: 3 } })
+    .joinChannel(featheredMask, { raw: { width, height, channels: 1 } })
+    .png()
+    .toBuffer();
+
+  const edited = await sharp(source).composite([{ input: patch }]).png().toBuffer();
+  return toPngDataUri(edited);
+}
+
+export async function editWithProvider(
+  imageData: string,
+  maskData: string,
+  instruction: string,
+  model: Model = DEFAULT_MODEL,
+  signal?: AbortSignal
+): Promise<string> {
+  const { data: source, info } = await sharp(readImageBytes(imageData)).png().toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+
+  const mask = await sharp(readImageBytes(maskData))
+    .resize(width, height, { fit: 'fill' })
+    .flatten({ background: '#000000' })
+    .greyscale()
+    .threshold(128)
+    .png()
+    .toBuffer();
+
+  const { channels } = await sharp(mask).stats();
+  if (channels[0].max === 0) {
+    throw new Error('The mask is empty. Paint over the region you want to change.');
+  }
+
+  return repaintMaskedRegion(source, mask, buildEditPrompt(instruction), instruction, model, signal);
+}
+
+// Centers the image on a canvas at the target aspect ratio and has the model paint the new margins, so
+// derivatives get a continued scene instead of a crop or letterbox. The result keeps the source's scale;
+// /api/format does the exact resize afterwards.
+export async function outpaintWithProvider(
+  imageData: string,
+  targetWidth: number,
+  targetHeight: number,
+  brief = '',
+  model: Model = DEFAULT_MODEL,
+  signal?: AbortSignal
+): Promise<string> {
+  const { data: original, info } = await sharp(readImageBytes(imageData))
+    .removeAlpha()
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  const canvas = getOutpaintCanvas(info.width, info.height, targetWidth, targetHeight);
+  const left = Math.floor((canvas.width - info.width) / 2);
+  const top = Math.floor((canvas.height - info.height) / 2);
+
+  if (canvas.width === info.width && canvas.height === info.height) {
+    return toPngDataUri(original);
+  }
+
+  const seed = await sharp(original)
+    .resize(canvas.width, canvas.height, { fit: 'cover' })
+    .blur(OUTPAINT_SEED_BLUR_SIGMA)
+    .composite([{ input: original, left, top }])
+    .png()
+    .toBuffer();
+
+  const keepRegion = await sharp({ create: { width: info.width, height: info.height, channels: 3, background: '#000000' } })
+    .png()
+    .toBuffer();
+  const mask = await sharp({ create: { width: canvas.width, height: canvas.height, channels: 3, background: '#ffffff' } })
+    .composite([{ input: keepRegion, left, top }])
+    .png()
+    .toBuffer();
+
+  return repaintMaskedRegion(seed, mask, buildOutpaintPrompt(brief.trim()), brief.trim(), model, signal);
+}
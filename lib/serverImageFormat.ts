@@ -0,0 +1,91 @@
+import sharp from 'sharp';
+import { CreatorPreset } from '@/lib/creatorContent';
+import { CropOptions, DEFAULT_CROP_STRATEGY, getCropFrame } from '@/lib/crop';
+import { compressToMaxSize } from '@/lib/serverImageCompress';
+import { compositeTextOverlay } from '@/lib/serverTextOverlay';
+import { getTextSafeBox, hasTextOverlay, TextOverlay } from '@/lib/textOverlay';
+
+export const MAX_OUTPUT_DIMENSION = 7680;
+export const MAX_OUTPUT_PIXELS = 60_000_000;
+
+const CROP_POSITIONS = {
+  centre: 'centre',
+  attention: sharp.strategy.attention,
+  entropy: sharp.strategy.entropy,
+} as const;
+
+export interface FormatImageOptions {
+  width: number;
+  height: number;
+  format: 'jpeg' | 'png';
+  quality: number;
+  maxFileSizeKb?: number;
+  fit: 'cover' | 'contain';
+  // Decides the text safe box when an overlay is composited.
+  preset?: CreatorPreset;
+  overlay?: TextOverlay | null;
+  crop?: CropOptions;
+}
+
+// An explicit box or focal point is cut out first, so the cover resize only scales (and trims rounding).
+async function extractCropFrame(source: Buffer, crop: CropOptions, width: number, height: number): Promise<Buffer> {
+  const metadata = await sharp(source).metadata();
+  const sourceWidth = metadata.width || 1;
+  const sourceHeight = metadata.height || 1;
+  const frame = crop.box || getCropFrame(sourceWidth, sourceHeight, width, height, crop.focalPoint);
+  const left = Math.min(sourceWidth - 1, Math.round(frame.left * sourceWidth));
+  const top = Math.min(sourceHeight - 1, Math.round(frame.top * sourceHeight));
+
+  return sharp(source)
+    .extract({
+      left,
+      top,
+      width: Math.max(1, Math.min(sourceWidth - left, Math.round(frame.width * sourceWidth))),
+      height: Math.max(1, Math.min(sourceHeight - top, Math.round(frame.height * sourceHeight))),
+    })
+    .png()
+    .toBuffer();
+}
+
+// The export settings a creator preset asks for, matching what the studio sends to /api/format.
+export function getPresetFormatOptions(preset: CreatorPreset, overlay?: TextOverlay | null): FormatImageOptions {
+  return {
+    width: preset.width,
+    height: preset.height,
+    format: preset.exportFormat || 'png',
+    quality: preset.exportQuality ?? 92,
+    maxFileSizeKb: preset.maxFileSizeKb,
+    // Extended canvases already match the target aspect ratio, so cover only scales them.
+    fit: preset.exportFit === 'contain' ? 'contain' : 'cover',
+    preset,
+    overlay: hasTextOverlay(overlay) ? overlay : undefined,
+  };
+}
+
+export async function formatImage(image: Buffer, options: FormatImageOptions): Promise<Buffer> {
+  const { width, height, fit, crop = {} } = options;
+  const hasExplicitFrame = fit === 'cover' && Boolean(crop.box || crop.focalPoint);
+  const source = hasExplicitFrame ? await extractCropFrame(image, crop, width, height) : image;
+  let pipeline = sharp(source)
+    .resize(width, height, {
+      fit,
+      position: fit === 'cover' && !hasExplicitFrame
+        ? CROP_POSITIONS[crop.strategy || DEFAULT_CROP_STRATEGY]
+        : 'centre',
+      withoutEnlargement: false,
+      background: fit === 'contain' ? { r: 26, g: 26, b: 26, alpha: 1 } : undefined,
+    })
+    .sharpen({ sigma: 0.6 });
+
+  if (options.overlay) {
+    // Text goes on after sharpening so glyph edges stay clean; the preset decides the safe box.
+    const composited = await compositeTextOverlay(
+      await pipeline.png().toBuffer(),
+      options.overlay,
+      getTextSafeBox(width, height, options.preset),
+    );
+    pipeline = sharp(composited);
+  }
+
+  return compressToMaxSize(pipeline, options.format, options.quality, options.maxFileSizeKb);
+}
@@ -1,21 +1,17 @@
 import {
   DEFAULT_MODEL,
   Layout,
+  MAX_IMAGE_VARIANTS,
   Model,
+  MODEL_BY_VALUE,
   OPENROUTER_ASPECT_RATIOS,
-  OPENROUTER_MODEL_BY_VALUE,
   getLayoutDimensions,
 } from '@/lib/modelConfig';
+import { getImageProvider } from '@/lib/providers';
+import { ReferenceImage, buildReferenceInstructions } from '@/lib/referenceImages';
 
 export type ReferenceDimensions = { width: number; height: number };
 
-type OpenRouterImage = {
-  image_url?: { url?: string };
-  imageUrl?: { url?: string };
-  url?: string;
-  b64_json?: string;
-};
-
 const STANDARD_ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
 const GEMINI_EXTENDED_ASPECT_RATIOS = ['1:4', '4:1', '1:8', '8:1'];
 
@@ -38,10 +34,11 @@ export function getOpenRouterAspectRatio(layout: Layout, referenceDimensions?: R
   }, supportedRatios[0]);
 }
 
-function buildOpenRouterImagePrompt(
+function buildImagePrompt(
   prompt: string,
   layout: Layout,
   model: Model,
+  references: ReferenceImage[],
   referenceDimensions?: ReferenceDimensions
 ): string {
   const { width, height } = getLayoutDimensions(layout, referenceDimensions, model);
@@ -54,126 +51,91 @@ function buildOpenRouterImagePrompt(
     'Generate exactly one production-quality image.',
     dimensionInstruction,
     'Make the result polished enough for creator, social media, and marketing use.',
-    'Preserve uploaded subject identity, product details, and brand-critical elements when a reference image is provided.',
+    buildReferenceInstructions(references),
     prompt,
-  ].join(' ');
-}
-
-function extractUrlFromImage(image: OpenRouterImage): string | null {
-  if (image.image_url?.url) return image.image_url.url;
-  if (image.imageUrl?.url) return image.imageUrl.url;
-  if (image.url) return image.url;
-  if (image.b64_json) return `data:image/png;base64,${image.b64_json}`;
-  return null;
+  ].filter(Boolean).join(' ');
 }
 
-function extractImageUrl(data: any): string | null {
-  const message = data?.choices?.[0]?.message;
-  const image = message?.images?.find((item: OpenRouterImage) => !!extractUrlFromImage(item));
-  if (image) return extractUrlFromImage(image);
-
-  if (Array.isArray(message?.content)) {
-    for (const part of message.content) {
-      const url = extractUrlFromImage(part);
-      if (url) return url;
-    }
-  }
-
-  if (Array.isArray(data?.images)) {
-    for (const item of data.images) {
-      if (typeof item === 'string') return item;
-      const url = extractUrlFromImage(item);
-      if (url) return url;
-    }
-  }
+// Provider links expire and the rest of the app only accepts data URIs, so remote results are inlined once here.
+export async function toImageDataUri(imageUrl: string, providerLabel: string, signal?: AbortSignal): Promise<string> {
+  if (imageUrl.startsWith('data:image')) return imageUrl;
 
-  if (Array.isArray(data?.data)) {
-    for (const item of data.data) {
-      const url = extractUrlFromImage(item);
-      if (url) return url;
-    }
+  const response = await fetch(imageUrl, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to download the image from ${providerLabel} (${response.status}).`);
   }
-
-  return null;
+  const mimeType = response.headers.get('content-type')?.split(';')[0] || 'image/png';
+  return `data:${mimeType};base64,${Buffer.from(await response.arrayBuffer()).toString('base64')}`;
 }
 
-export async function generateWithOpenRouter(
+// Dispatches to whichever provider the model declares.
+export async function generateWithProvider(
   prompt: string,
   layout: Layout,
   model: Model = DEFAULT_MODEL,
-  imageData?: string,
-  referenceDimensions?: ReferenceDimensions
+  references: ReferenceImage[] = [],
+  referenceDimensions?: ReferenceDimensions,
+  signal?: AbortSignal
 ): Promise<string> {
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  if (!apiKey) {
-    throw new Error('OPENROUTER_API_KEY is not configured. Please add it to your .env.local file.');
-  }
-
-  const modelConfig = OPENROUTER_MODEL_BY_VALUE[model];
-  const finalPrompt = buildOpenRouterImagePrompt(prompt, layout, model, referenceDimensions);
-  const aspectRatio = getOpenRouterAspectRatio(layout, referenceDimensions, model);
-  const content = imageData
-    ? [
-        { type: 'image_url', image_url: { url: imageData } },
-        { type: 'text', text: finalPrompt },
-      ]
-    : finalPrompt;
-
-  const requestBody: Record<string, unknown> = {
-    model: modelConfig.openRouterModel,
-    messages: [{ role: 'user', content }],
-    modalities: modelConfig.outputModalities,
-    stream: false,
-  };
-
-  if (modelConfig.supportsImageConfig) {
-    requestBody.image_config = {
-      aspect_ratio: aspectRatio,
-      image_size: modelConfig.imageSize || '2K',
-    };
-  }
-
-  if (modelConfig.outputModalities.includes('text')) {
-    requestBody.max_tokens = 800;
-  }
+  // A stopped caller must not start another paid request.
+  signal?.throwIfAborted();
+  const modelConfig = MODEL_BY_VALUE[model];
+  const provider = getImageProvider(modelConfig);
+  const { width, height } = getLayoutDimensions(layout, referenceDimensions, model);
 
-  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-      'HTTP-Referer': process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
-      'X-Title': 'ImageGenStudio',
-    },
-    body: JSON.stringify(requestBody),
+  const imageUrl = await provider.generate({
+    prompt: buildImagePrompt(prompt, layout, model, references, referenceDimensions),
+    brief: prompt,
+    layout,
+    model: modelConfig,
+    width,
+    height,
+    aspectRatio: getOpenRouterAspectRatio(layout, referenceDimensions, model),
+    references,
+    signal,
   });
 
-  if (!response.ok) {
-    const responseText = await response.text();
-    let errorMessage = responseText;
-    try {
-      const errorJson = JSON.parse(responseText);
-      errorMessage = errorJson.error?.message || JSON.stringify(errorJson);
-    } catch {
-      // Keep text as is.
-    }
-    throw new Error(`OpenRouter API error (${response.status}) for ${modelConfig.openRouterModel}: ${errorMessage || response.statusText}`);
+  const isValidUrl = imageUrl.startsWith('data:image') || imageUrl.startsWith('http://') || imageUrl.startsWith('https://');
+  if (!isValidUrl) {
+    throw new Error(`Invalid image URL returned from ${provider.label}: ${imageUrl.substring(0, 100)}...`);
   }
 
-  const data = await response.json();
-  if (data.error) {
-    throw new Error(`OpenRouter API error: ${data.error.message || JSON.stringify(data.error)}`);
-  }
+  return toImageDataUri(imageUrl, provider.label, signal);
+}
 
-  const imageUrl = extractImageUrl(data);
-  if (!imageUrl) {
-    throw new Error(`OpenRouter returned no image data for ${modelConfig.openRouterModel}. Verify the model supports image output and modalities are enabled.`);
+export async function generateVariantsWithProvider(
+  prompt: string,
+  layout: Layout,
+  model: Model = DEFAULT_MODEL,
+  count = 1,
+  references: ReferenceImage[] = [],
+  referenceDimensions?: ReferenceDimensions
+): Promise<string[]> {
+  const variantCount = Math.min(MAX_IMAGE_VARIANTS, Math.max(1, Math.floor(count)));
+  if (variantCount === 1) {
+    return [await generateWithProvider(prompt, layout, model, references, referenceDimensions)];
   }
 
-  const isValidUrl = imageUrl.startsWith('data:image') || imageUrl.startsWith('http://') || imageUrl.startsWith('https://');
-  if (!isValidUrl) {
-    throw new Error(`Invalid image URL returned from OpenRouter: ${imageUrl.substring(0, 100)}...`);
+  const results = await Promise.allSettled(
+    Array.from({ length: variantCount }, (_, index) => generateWithProvider(
+      `${prompt}\n\nVariant ${index + 1} of ${variantCount}: keep the brief but explore a distinct composition, framing, or color treatment from the other variants.`,
+      layout,
+      model,
+      references,
+      referenceDimensions
+    ))
+  );
+
+  const imageUrls = results
+    .filter((result): result is PromiseFulfilledResult<string> => result.status === 'fulfilled')
+    .map((result) => result.value);
+
+  if (imageUrls.length === 0) {
+    const firstFailure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    throw firstFailure?.reason instanceof Error
+      ? firstFailure.reason
+      : new Error(`All ${variantCount} variants failed for ${model}.`);
   }
 
-  return imageUrl;
+  return imageUrls;
 }
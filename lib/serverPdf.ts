@@ -0,0 +1,35 @@
+import { PDFDocument } from 'pdf-lib';
+
+export interface PdfPageImage {
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+export function getPdfFilename(title: unknown): string {
+  const slug = typeof title === 'string'
+    ? title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '')
+    : '';
+  return `${slug || 'linkedin-storybook'}.pdf`;
+}
+
+// One full-bleed image per page, every page at the same size.
+export async function createImagePdf(pages: PdfPageImage[], width: number, height: number, title: string): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(title);
+
+  for (const { mimeType, bytes } of pages) {
+    const embeddedImage = mimeType === 'image/png'
+      ? await pdf.embedPng(bytes)
+      : await pdf.embedJpg(bytes);
+    const page = pdf.addPage([width, height]);
+
+    page.drawImage(embeddedImage, {
+      x: 0,
+      y: 0,
+      width,
+      height,
+    });
+  }
+
+  return pdf.save();
+}
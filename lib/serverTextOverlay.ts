@@ -0,0 +1,140 @@
+import sharp from 'sharp';
+import { TextOverlay, TextSafeBox } from '@/lib/textOverlay';
+
+const DEFAULT_TEXT_COLOR = '#ffffff';
+const DEFAULT_ACCENT_COLOR = '#2563eb';
+// Pango sizes text in points; 12pt at N dpi is N / 6 px tall.
+const DPI_PER_PIXEL = 6;
+
+interface RenderedText {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+interface TextBlock {
+  text: string;
+  maxHeight: number;
+  maxFontPx: number;
+  color: string;
+  bold: boolean;
+}
+
+function escapeMarkup(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function getFontOptions(): { font: string; fontfile?: string } {
+  // Point OVERLAY_FONT_FILE at a TTF/OTF so output does not depend on the host's installed fonts.
+  return {
+    font: process.env.OVERLAY_FONT_FAMILY || 'sans-serif',
+    fontfile: process.env.OVERLAY_FONT_FILE || undefined,
+  };
+}
+
+// Renders at the preferred size, then lets Pango shrink it to fit when it would overflow the slot.
+async function renderText(block: TextBlock, width: number, align: 'left' | 'centre'): Promise<RenderedText> {
+  const markup = `<span foreground="${block.color}"${block.bold ? ' weight="bold"' : ''}>${escapeMarkup(block.text)}</span>`;
+  const baseOptions = { ...getFontOptions(), text: markup, width, align, rgba: true, wrap: 'word-char' as const };
+
+  const preferred = await sharp({ text: { ...baseOptions, dpi: Math.round(block.maxFontPx * DPI_PER_PIXEL) } })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  if (preferred.info.height <= block.maxHeight) {
+    return { data: preferred.data, width: preferred.info.width, height: preferred.info.height };
+  }
+
+  const fitted = await sharp({ text: { ...baseOptions, height: block.maxHeight } })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  return { data: fitted.data, width: fitted.info.width, height: fitted.info.height };
+}
+
+function roundedRectSvg(width: number, height: number, radius: number, fill: string): Buffer {
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="${width}" height="${height}" rx="${radius}" fill="${fill}"/></svg>`
+  );
+}
+
+export async function compositeTextOverlay(image: Buffer, overlay: TextOverlay, box: TextSafeBox): Promise<Buffer> {
+  const { width: imageWidth = box.left + box.width, height: imageHeight = box.top + box.height } = await sharp(image).metadata();
+  const textColor = overlay.textColor || DEFAULT_TEXT_COLOR;
+  const accentColor = overlay.accentColor || DEFAULT_ACCENT_COLOR;
+  const centered = overlay.align === 'center';
+  const gap = Math.round(box.height * 0.05);
+  const basePx = Math.min(box.height, box.width / 2);
+
+  const headline = await renderText({
+    text: overlay.headline.trim(),
+    maxHeight: Math.round(box.height * (overlay.subline || overlay.cta ? 0.5 : 0.8)),
+    maxFontPx: Math.round(basePx * 0.16),
+    color: textColor,
+    bold: true,
+  }, box.width, centered ? 'centre' : 'left');
+
+  const subline = overlay.subline?.trim()
+    ? await renderText({
+        text: overlay.subline.trim(),
+        maxHeight: Math.round(box.height * 0.22),
+        maxFontPx: Math.round(basePx * 0.075),
+        color: textColor,
+        bold: false,
+      }, box.width, centered ? 'centre' : 'left')
+    : null;
+
+  const ctaPadX = Math.round(basePx * 0.05);
+  const ctaPadY = Math.round(basePx * 0.025);
+  const ctaText = overlay.cta?.trim()
+    ? await renderText({
+        text: overlay.cta.trim(),
+        maxHeight: Math.round(box.height * 0.12),
+        maxFontPx: Math.round(basePx * 0.065),
+        color: '#ffffff',
+        bold: true,
+      }, box.width - ctaPadX * 2, 'left')
+    : null;
+
+  const blocks: { input: Buffer; width: number; height: number }[] = [
+    { input: headline.data, width: headline.width, height: headline.height },
+  ];
+  if (subline) blocks.push({ input: subline.data, width: subline.width, height: subline.height });
+  if (ctaText) {
+    const pillWidth = ctaText.width + ctaPadX * 2;
+    const pillHeight = ctaText.height + ctaPadY * 2;
+    const pill = await sharp(roundedRectSvg(pillWidth, pillHeight, Math.round(pillHeight / 2), accentColor))
+      .composite([{ input: ctaText.data, left: ctaPadX, top: ctaPadY }])
+      .png()
+      .toBuffer();
+    blocks.push({ input: pill, width: pillWidth, height: pillHeight });
+  }
+
+  // Blocks stack from the top of the safe box, matching the headline-in-the-upper-third rule.
+  const layers: sharp.OverlayOptions[] = [];
+  let cursor = box.top;
+  let blockWidth = 0;
+  for (const block of blocks) {
+    const left = centered ? box.left + Math.round((box.width - block.width) / 2) : box.left;
+    layers.push({ input: block.input, left, top: cursor });
+    cursor += block.height + gap;
+    blockWidth = Math.max(blockWidth, block.width);
+  }
+  const blockHeight = cursor - gap - box.top;
+
+  if (overlay.scrim !== false) {
+    const pad = Math.round(basePx * 0.05);
+    const scrimLeft = Math.max(0, (centered ? box.left + Math.round((box.width - blockWidth) / 2) : box.left) - pad);
+    const scrimTop = Math.max(0, box.top - pad);
+    const scrimWidth = Math.min(imageWidth - scrimLeft, blockWidth + pad * 2);
+    const scrimHeight = Math.min(imageHeight - scrimTop, blockHeight + pad * 2);
+    layers.unshift({
+      input: roundedRectSvg(scrimWidth, scrimHeight, pad, 'rgba(0,0,0,0.45)'),
+      left: scrimLeft,
+      top: scrimTop,
+    });
+  }
+
+  return sharp(image).composite(layers).png().toBuffer();
+}
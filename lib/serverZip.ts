@@ -0,0 +1,132 @@
+import { deflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+  // Already-compressed formats such as PNG and JPEG gain nothing from deflate, so they are stored as-is.
+  store?: boolean;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface EncodedZipEntry {
+  // Local header, name, and data, written in archive order.
+  local: Buffer;
+  // Central directory record, written after every entry.
+  central: Buffer;
+}
+
+function encodeZipEntry(entry: ZipEntry, offset: number, modifiedAt: Date): EncodedZipEntry {
+  const { time, date } = toDosDateTime(modifiedAt);
+  const name = Buffer.from(entry.name, 'utf8');
+  const method = entry.store ? 0 : 8;
+  const body = entry.store ? entry.data : deflateRawSync(entry.data);
+  const crc = crc32(entry.data);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(20, 4);
+  local.writeUInt16LE(0x0800, 6); // UTF-8 names
+  local.writeUInt16LE(method, 8);
+  local.writeUInt16LE(time, 10);
+  local.writeUInt16LE(date, 12);
+  local.writeUInt32LE(crc, 14);
+  local.writeUInt32LE(body.length, 18);
+  local.writeUInt32LE(entry.data.length, 22);
+  local.writeUInt16LE(name.length, 26);
+  local.writeUInt16LE(0, 28);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(20, 4);
+  central.writeUInt16LE(20, 6);
+  central.writeUInt16LE(0x0800, 8);
+  central.writeUInt16LE(method, 10);
+  central.writeUInt16LE(time, 12);
+  central.writeUInt16LE(date, 14);
+  central.writeUInt32LE(crc, 16);
+  central.writeUInt32LE(body.length, 20);
+  central.writeUInt32LE(entry.data.length, 24);
+  central.writeUInt16LE(name.length, 28);
+  central.writeUInt32LE(offset, 42);
+
+  return { local: Buffer.concat([local, name, body]), central: Buffer.concat([central, name]) };
+}
+
+function encodeEndOfCentralDirectory(entryCount: number, centralDirectory: Buffer, offset: number): Buffer {
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entryCount, 8);
+  end.writeUInt16LE(entryCount, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([centralDirectory, end]);
+}
+
+// Writes a single-disk ZIP archive without ZIP64, which is plenty for a handful of social exports.
+export function createZipArchive(entries: ZipEntry[], modifiedAt = new Date()): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const encoded = encodeZipEntry(entry, offset, modifiedAt);
+    localParts.push(encoded.local);
+    centralParts.push(encoded.central);
+    offset += encoded.local.length;
+  }
+
+  return Buffer.concat([...localParts, encodeEndOfCentralDirectory(entries.length, Buffer.concat(centralParts), offset)]);
+}
+
+// Streams the same format while entries are produced, so a bulk bundle never holds every image in memory.
+// Without ZIP64 the whole archive must stay under 4 GB.
+export function createZipStream(entries: AsyncIterable<ZipEntry>, modifiedAt = new Date()): ReadableStream<Uint8Array> {
+  const iterator = entries[Symbol.asyncIterator]();
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const next = await iterator.next();
+        if (next.done) {
+          controller.enqueue(new Uint8Array(encodeEndOfCentralDirectory(centralParts.length, Buffer.concat(centralParts), offset)));
+          controller.close();
+          return;
+        }
+
+        const encoded = encodeZipEntry(next.value, offset, modifiedAt);
+        centralParts.push(encoded.central);
+        offset += encoded.local.length;
+        controller.enqueue(new Uint8Array(encoded.local));
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
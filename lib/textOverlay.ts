@@ -0,0 +1,89 @@
+import { CreatorPreset } from './creatorContent';
+import { getOgPreset } from './og/presets';
+
+// Copy set with real fonts by /api/format after the model has drawn the artwork.
+
+export type TextOverlayAlign = 'left' | 'center';
+
+export interface TextOverlay {
+  headline: string;
+  subline?: string;
+  cta?: string;
+  align?: TextOverlayAlign;
+  textColor?: string;
+  accentColor?: string;
+  // Darkens the area behind the copy so it reads over busy artwork.
+  scrim?: boolean;
+}
+
+export interface TextSafeBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export const MAX_OVERLAY_HEADLINE_LENGTH = 120;
+export const MAX_OVERLAY_LINE_LENGTH = 200;
+
+// Replaces the typography rules when copy is composited afterwards.
+export const TEXT_OVERLAY_ARTWORK_RULES = [
+  'Artwork only (mandatory):',
+  '- Do not render any words, letters, numbers, headlines, captions, buttons, or UI text. The headline, subline, and call to action are set afterwards with real fonts.',
+  '- Keep the text safe area calm and low-detail, such as soft gradients, texture, or negative space, so the overlaid copy stays readable.',
+  '- Place the focal subject and detailed illustration outside the text safe area.',
+].join('\n');
+
+const TEXT_OVERLAY_WORKFLOWS: CreatorPreset['workflow'][] = ['banner', 'post-image', 'og-image', 'og-package'];
+
+export function supportsTextOverlay(preset?: CreatorPreset | null): boolean {
+  return Boolean(preset && TEXT_OVERLAY_WORKFLOWS.includes(preset.workflow));
+}
+
+export function hasTextOverlay(overlay?: TextOverlay | null): overlay is TextOverlay {
+  return Boolean(overlay?.headline.trim());
+}
+
+// Fractions of the canvas for presets whose safe area is not a simple inset.
+const TEXT_BOX_BY_PRESET_ID: Record<string, TextSafeBox> = {
+  // The left half is reserved for LinkedIn's profile photo overlay.
+  'linkedin-profile-banner': { left: 0.52, top: 0.14, width: 0.42, height: 0.72 },
+};
+
+const DEFAULT_MARGIN_RATIO = 0.08;
+
+export function getTextSafeBox(width: number, height: number, preset?: CreatorPreset | null): TextSafeBox {
+  const fractionBox = preset ? TEXT_BOX_BY_PRESET_ID[preset.id] : undefined;
+  if (fractionBox) {
+    return {
+      left: Math.round(fractionBox.left * width),
+      top: Math.round(fractionBox.top * height),
+      width: Math.round(fractionBox.width * width),
+      height: Math.round(fractionBox.height * height),
+    };
+  }
+
+  const safeZone = preset ? getOgPreset(preset.id)?.safeZone : undefined;
+  if (!safeZone || !preset) {
+    const margin = Math.round(Math.min(width, height) * DEFAULT_MARGIN_RATIO);
+    return { left: margin, top: margin, width: width - margin * 2, height: height - margin * 2 };
+  }
+
+  // Safe zones are specified in the preset's own pixels.
+  const scale = width / preset.width;
+  const margin = Math.round(safeZone.marginPx * scale);
+  let top = 0;
+  let bottom = height;
+  if (safeZone.landscapeBand) {
+    const bandHeight = Math.min(height, Math.round((safeZone.landscapeBand.height / safeZone.landscapeBand.width) * width));
+    top = Math.round((height - bandHeight) / 2);
+    bottom = top + bandHeight;
+  }
+  top += margin;
+  bottom -= margin;
+  if (safeZone.avoidBottomPercent) {
+    bottom = Math.min(bottom, Math.round(height * (1 - safeZone.avoidBottomPercent / 100)));
+  }
+
+  return { left: margin, top, width: width - margin * 2, height: Math.max(1, bottom - top) };
+}
@@ -10,6 +10,11 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // Rendered OG images are embedded by other sites' og:image tags, which crawlers fetch without a cookie.
+  if (pathname === '/api/og/render') {
+    return NextResponse.next();
+  }
+
   const token = request.cookies.get(AUTH_COOKIE_NAME)?.value;
   const sitePassword = process.env.SITE_PASSWORD;
 
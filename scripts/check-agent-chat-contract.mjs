@@ -5,6 +5,7 @@ const files = {
   transcribeRoute: await readFile(new URL('../app/api/transcribe/route.ts', import.meta.url), 'utf8'),
   appShell: await readFile(new URL('../components/AppShell.tsx', import.meta.url), 'utf8'),
   chatPanel: await readFile(new URL('../components/ChatPanel.tsx', import.meta.url), 'utf8'),
+  chatStream: await readFile(new URL('../lib/chat/stream.ts', import.meta.url), 'utf8'),
   page: await readFile(new URL('../app/page.tsx', import.meta.url), 'utf8'),
 };
 
@@ -26,9 +27,23 @@ assertIncludes(files.chatRoute, "id: 'web'", 'OpenRouter web plugin');
 assertIncludes(files.chatRoute, "engine: 'exa'", 'OpenRouter Exa engine selection');
 assertIncludes(files.chatRoute, 'extractCitationSources', 'OpenRouter citation parsing');
 assertIncludes(files.chatRoute, "name: 'generate_image'", 'image generation tool');
-assertIncludes(files.chatRoute, 'generateWithOpenRouter(prompt, layout, model)', 'shared image generation helper');
+assertIncludes(files.chatRoute, 'generateWithProvider(prompt, layout, model, [], undefined, signal)', 'shared image generation helper, aborted with the chat');
+assertIncludes(files.chatRoute, "name: 'edit_image'", 'image edit tool');
+assertIncludes(files.chatRoute, '[{ imageData: source.imageData, role }]', 'attached image sent to the image model as a reference');
+assertIncludes(files.chatRoute, "{ type: 'image_url', image_url: { url: dataUrl } }", 'attachments forwarded as multimodal content');
 assertIncludes(files.chatRoute, 'profile overlay zone quiet and empty', 'LinkedIn banner empty-zone guard');
 
+assertIncludes(files.chatRoute, "'Content-Type': 'text/event-stream; charset=utf-8'", 'server-sent events response');
+assertIncludes(files.chatRoute, 'stream: true', 'streamed OpenRouter completions');
+assertIncludes(files.chatRoute, 'label: `Generating image (', 'image tool progress event');
+assertIncludes(files.chatRoute, 'abortController.abort()', 'cancellation when the client stops');
+assertIncludes(files.chatRoute, 'runStorybookWorkflow(storybookRequest, threadId, onProgress, signal)', 'workflow provider calls aborted with the chat');
+assertIncludes(files.chatRoute, 'stopped ? { stopped } : { error: message }', 'failed replies kept apart from stopped ones');
+if (files.chatRoute.includes('if (!abortController.signal.aborted) controller.close()')) {
+  throw new Error('The chat stream should be closed after a cancel too.');
+}
+assertIncludes(files.chatStream, 'event: ${event.type}', 'named SSE events');
+
 if (files.chatRoute.includes('EXA_API_KEY') || files.chatRoute.includes('https://api.exa.ai/search')) {
   throw new Error('Agent chat should use OpenRouter web plugin search, not a direct Exa API key.');
 }
@@ -41,6 +56,10 @@ assertIncludes(files.chatPanel, "event.key === 'Enter' && !event.shiftKey", 'Ent
 assertIncludes(files.chatPanel, 'navigator.mediaDevices?.getUserMedia', 'microphone capture');
 assertIncludes(files.chatPanel, "fetch('/api/transcribe'", 'speech-to-text client call');
 assertIncludes(files.chatPanel, "fetch('/api/chat'", 'agent chat client call');
+assertIncludes(files.chatPanel, 'readChatEventStream(response.body', 'incremental stream rendering');
+assertIncludes(files.chatPanel, 'signal: controller.signal', 'mid-stream cancellation');
+assertIncludes(files.chatPanel, 'onPaste={handlePaste}', 'pasted image attachments');
+assertIncludes(files.chatPanel, 'attachments: attachments.map((attachment) => attachment.url)', 'attachments sent with the message');
 assertIncludes(files.chatPanel, 'ArtifactList', 'generated image display');
 assertIncludes(files.chatPanel, 'SourceList', 'source display');
 
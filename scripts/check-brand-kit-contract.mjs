@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const brandKitStore = await readFile(new URL('../lib/brandKits/store.ts', import.meta.url), 'utf8');
+const brandKitPrompt = await readFile(new URL('../lib/brandKits/prompt.ts', import.meta.url), 'utf8');
+const creatorContent = await readFile(new URL('../lib/creatorContent.ts', import.meta.url), 'utf8');
+const ogPrompts = await readFile(new URL('../lib/og/prompts.ts', import.meta.url), 'utf8');
+const studioControls = await readFile(new URL('../components/StudioControls.tsx', import.meta.url), 'utf8');
+const imageStudio = await readFile(new URL('../components/ImageStudio.tsx', import.meta.url), 'utf8');
+
+assert.match(brandKitStore, /process\.env\.BRAND_KITS_DIR/, 'Brand kits should be stored in a configurable server-side directory');
+assert.match(brandKitStore, /HEX_COLOR_PATTERN\.test/, 'Brand kit palettes should be validated as hex colors');
+
+for (const field of ['palette', 'fonts', 'tone', 'dos', 'donts']) {
+  assert.match(brandKitPrompt, new RegExp(`kit\\.${field}`), `Brand kit prompts should include ${field}`);
+}
+
+assert.match(creatorContent, /export function buildCreatorPrompt\([^)]*brandKit\?: BrandKit \| null/, 'buildCreatorPrompt should accept a brand kit');
+assert.match(creatorContent, /export function buildStorybookPagePrompts\([^)]*brandKit\?: BrandKit \| null/, 'buildStorybookPagePrompts should accept a brand kit');
+assert.match(ogPrompts, /export function buildOgPrompt\([^)]*brandKit\?: BrandKit \| null/, 'buildOgPrompt should accept a brand kit');
+assert.match(ogPrompts, /buildBrandKitPrompt\(brandKit\)/, 'OG prompts should inject the brand kit block');
+
+assert.match(studioControls, /<BrandKitSelector/, 'StudioControls should offer a brand kit selector');
+assert.match(imageStudio, /role: 'logo'/, 'The brand kit logo should be attached as a logo reference');
+assert.match(imageStudio, /buildCreatorPrompt\(prompt, selectedCreatorPreset, brandKit\b/, 'Studio prompts should use the active brand kit');
+
+console.log('Brand kit contract passed.');
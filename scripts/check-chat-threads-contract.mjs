@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const chatStore = await readFile(new URL('../lib/chat/store.ts', import.meta.url), 'utf8');
+const chatSummary = await readFile(new URL('../lib/chat/summary.ts', import.meta.url), 'utf8');
+const chatRoute = await readFile(new URL('../app/api/chat/route.ts', import.meta.url), 'utf8');
+const threadsRoute = await readFile(new URL('../app/api/chat/threads/route.ts', import.meta.url), 'utf8');
+const threadRoute = await readFile(new URL('../app/api/chat/threads/[id]/route.ts', import.meta.url), 'utf8');
+const artifactRoute = await readFile(new URL('../app/api/chat/threads/[id]/artifacts/[filename]/route.ts', import.meta.url), 'utf8');
+const chatPanel = await readFile(new URL('../components/ChatPanel.tsx', import.meta.url), 'utf8');
+
+assert.match(chatStore, /process\.env\.CHAT_THREADS_DIR/, 'Chat thread store should honor CHAT_THREADS_DIR');
+assert.match(chatStore, /ID_PATTERN\.test/, 'Thread ids should be validated before touching the filesystem');
+assert.match(chatStore, /ARTIFACT_FILENAME_PATTERN\.test\(filename\)/, 'Artifact filenames should be validated before reading');
+assert.match(chatStore, /const filename = `\$\{randomUUID\(\)\}\.\$\{extension\}`/, 'Concurrent artifact writes must not pick the same filename');
+assert.match(chatStore, /return queueThreadWrite\(id, async \(\) => \{/, 'Thread updates should be serialized per thread');
+assert.match(chatStore, /readImageBytes\(image\)/, 'Generated images should be stored with the thread, not as expiring URLs');
+
+assert.match(threadsRoute, /export async function GET/, 'Threads route should list threads');
+for (const method of ['GET', 'PATCH', 'DELETE']) {
+  assert.match(threadRoute, new RegExp(`export async function ${method}`), `Thread route should support ${method}`);
+}
+assert.match(artifactRoute, /readChatArtifact\(id, filename\)/, 'Artifact route should serve stored chat images');
+
+assert.doesNotMatch(chatRoute, /\.slice\(-16\)/, 'Long threads should be summarised, not truncated');
+assert.match(chatRoute, /getMessagesToSummarize\(thread\)/, 'The chat route should summarise older messages before replying');
+assert.match(chatRoute, /: thread\.summary\?\.messageCount \|\| 0;/, 'Messages after the summary should be sent verbatim');
+assert.match(chatRoute, /\? thread\.messages\.length - RECENT_MESSAGE_COUNT/, 'A failed summary should still cap the messages sent');
+assert.match(chatSummary, /RECENT_MESSAGE_COUNT = 16/, 'The newest messages should stay verbatim');
+assert.match(chatSummary, /isMockMode\(\)/, 'Thread summaries should short-circuit in mock mode');
+
+assert.match(chatPanel, /threadId: activeThreadId,\s+message: content,/, 'The chat client should send the thread id and only the new message');
+assert.match(chatPanel, /<ChatThreadList/, 'The chat should show the thread sidebar');
+assert.match(chatPanel, /ACTIVE_THREAD_STORAGE_KEY/, 'The open thread should be resumed after a reload');
+
+console.log('Chat threads contract passed.');
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const chatRoute = await readFile(new URL('../app/api/chat/route.ts', import.meta.url), 'utf8');
+const workflows = await readFile(new URL('../lib/chat/workflows.ts', import.meta.url), 'utf8');
+const chatStore = await readFile(new URL('../lib/chat/store.ts', import.meta.url), 'utf8');
+const chatPanel = await readFile(new URL('../components/ChatPanel.tsx', import.meta.url), 'utf8');
+const mock = await readFile(new URL('../lib/mock.ts', import.meta.url), 'utf8');
+const formatRoute = await readFile(new URL('../app/api/format/route.ts', import.meta.url), 'utf8');
+const exportPdfRoute = await readFile(new URL('../app/api/export-pdf/route.ts', import.meta.url), 'utf8');
+const exportBundleRoute = await readFile(new URL('../app/api/export-bundle/route.ts', import.meta.url), 'utf8');
+
+for (const name of ['create_storybook', 'generate_creator_asset', 'build_og_package', 'resize_image']) {
+  assert.match(chatRoute, new RegExp(`name: '${name}'`), `The agent should expose ${name}`);
+  assert.match(chatRoute, new RegExp(`case '${name}'`), `The agent should run ${name}`);
+}
+assert.match(chatRoute, /enum: CREATOR_ASSET_PRESETS\.map/, 'Creator assets should accept the studio presets');
+assert.match(chatRoute, /validateOgPackageMeta\(meta, getOgPackageImages\(\)\)/, 'Package metadata should be checked before generating');
+
+// The agent reuses the studio's pipelines rather than copies of them.
+assert.match(workflows, /buildStorybookPagePrompts\(brief, preset\)/, 'Storybooks should use the studio page plan');
+assert.match(workflows, /buildCreatorPrompt\(brief, preset, null, Boolean\(overlay\)\)/, 'Creator assets should use the studio prompts');
+assert.match(workflows, /createImagePdf\(pdfPages, preset\.width, preset\.height, title\)/, 'Storybooks should be delivered as a PDF');
+assert.match(workflows, /buildOgPackageBundle\(meta, assets\)/, 'OG packages should be delivered as the studio bundle');
+assert.match(workflows, /outpaintWithProvider\(/, 'OG package exports should extend the canvas like the studio');
+assert.match(workflows, /exportOgPackage\(masterImage, \{/, 'OG packages should run the studio\'s export loop');
+assert.match(chatRoute, /runResizeWorkflow\(resizeRequest, threadId, signal\)/, 'Resizes should stop with the chat');
+assert.match(workflows, /formatImage\(source\.bytes, options\)/, 'Resizes should use the /api/format pipeline');
+assert.match(formatRoute, /formatImage\(parseImageData\(image\)/, '/api/format should share the format pipeline');
+assert.match(exportPdfRoute, /createImagePdf\(/, '/api/export-pdf should share the PDF writer');
+assert.match(exportBundleRoute, /buildOgPackageBundle\(meta, assets\)/, '/api/export-bundle should share the bundle layout');
+
+assert.match(chatStore, /\(png\|jpg\|webp\|pdf\|zip\)/, 'PDFs and packages should be stored with the thread');
+assert.match(chatPanel, /download=\{artifact\.filename\}/, 'File artifacts should be downloadable from the chat');
+assert.match(mock, /'create_storybook'/, 'The mock agent should script the storybook workflow');
+assert.match(mock, /'build_og_package'/, 'The mock agent should script the OG package workflow');
+
+console.log('Chat workflows contract passed.');
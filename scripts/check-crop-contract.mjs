@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const crop = await readFile(new URL('../lib/crop.ts', import.meta.url), 'utf8');
+const serverImageFormat = await readFile(new URL('../lib/serverImageFormat.ts', import.meta.url), 'utf8');
+const imagePreview = await readFile(new URL('../components/ImagePreview.tsx', import.meta.url), 'utf8');
+const cropAdjuster = await readFile(new URL('../components/CropAdjuster.tsx', import.meta.url), 'utf8');
+const imageStudio = await readFile(new URL('../components/ImageStudio.tsx', import.meta.url), 'utf8');
+
+assert.match(crop, /DEFAULT_CROP_STRATEGY: CropStrategy = 'centre'/, 'Cover crops should stay centred unless a strategy is requested');
+assert.match(serverImageFormat, /attention: sharp\.strategy\.attention/, '/api/format should map attention to the sharp strategy');
+assert.match(serverImageFormat, /entropy: sharp\.strategy\.entropy/, '/api/format should map entropy to the sharp strategy');
+assert.doesNotMatch(serverImageFormat, /position: 'centre',\n\s+withoutEnlargement/, '/api/format should not always crop from the centre');
+assert.match(serverImageFormat, /getCropFrame\(sourceWidth, sourceHeight, width, height, crop\.focalPoint\)/, 'Focal points should use the shared frame maths');
+
+assert.match(cropAdjuster, /getCropFrame\(/, 'The adjuster should draw the same frame the server exports');
+assert.match(imagePreview, /<CropAdjuster/, 'ImagePreview should offer the crop adjuster');
+assert.match(imageStudio, /formatPresetImage\(cropSourceImage, selectedCreatorPreset, activeTextOverlay, crop\)/, 'Re-crops should export from the uncropped generation');
+
+console.log('Smart crop contract passed.');
@@ -0,0 +1,18 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const editRoute = await readFile(new URL('../app/api/edit/route.ts', import.meta.url), 'utf8');
+const serverEditing = await readFile(new URL('../lib/serverImageEditing.ts', import.meta.url), 'utf8');
+const providerTypes = await readFile(new URL('../lib/providers/types.ts', import.meta.url), 'utf8');
+const imagePreview = await readFile(new URL('../components/ImagePreview.tsx', import.meta.url), 'utf8');
+const imageStudio = await readFile(new URL('../components/ImageStudio.tsx', import.meta.url), 'utf8');
+
+assert.match(editRoute, /export async function POST/, 'Edit route should accept POST requests');
+assert.match(editRoute, /supportsMaskedEdits/, 'Edit route should reject models without masked edit support');
+assert.match(providerTypes, /edit\?\(request: ImageEditRequest\)/, 'Providers should opt into masked edits');
+assert.match(serverEditing, /composite\(\[\{ input: patch \}\]\)/, 'Edits should be composited through the mask onto the original');
+assert.match(serverEditing, /The mask is empty/, 'Empty masks should be rejected before calling a provider');
+assert.match(imagePreview, /<MaskPainter/, 'ImagePreview should offer the mask painter');
+assert.ok(imageStudio.includes("kind: 'edit'"), 'Edits should be recorded in history');
+
+console.log('Masked edit contract passed.');
@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const route = await readFile(new URL('../app/api/export-bundle/route.ts', import.meta.url), 'utf8');
+const bundle = await readFile(new URL('../lib/og/bundle.ts', import.meta.url), 'utf8');
+const zip = await readFile(new URL('../lib/serverZip.ts', import.meta.url), 'utf8');
+const ogPackagePreview = await readFile(new URL('../components/OgPackagePreview.tsx', import.meta.url), 'utf8');
+
+for (const name of ['manifest.json', 'README.md']) {
+  assert.match(bundle, new RegExp(`name: '${name.replace('.', '\\.')}'`), `The bundle should include ${name}`);
+}
+assert.match(bundle, /renderOgMetaExport\(target\.id, metaInput\)/, 'The bundle should include meta.html and every framework export');
+for (const field of ['presetId', 'platform', 'width', 'height', 'bytes', 'format']) {
+  assert.match(bundle, new RegExp(`${field}: asset\\.`), `The manifest should list ${field}`);
+}
+assert.match(route, /validateOgPackageMeta\(meta, assets\)/, 'Bundles should reject invalid metadata');
+assert.match(route, /'Content-Type': 'application\/zip'/, 'The route should return a ZIP archive');
+assert.match(zip, /export function createZipArchive\(/, 'ZIP writing should live in a server helper');
+assert.match(zip, /store \? 0 : 8/, 'Images should be stored and text deflated');
+assert.match(ogPackagePreview, /fetch\('\/api\/export-bundle'/, 'The OG package preview should download the bundle');
+
+console.log('Export bundle contract passed.');
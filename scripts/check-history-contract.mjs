@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const historyStore = await readFile(new URL('../lib/history/store.ts', import.meta.url), 'utf8');
+const historyRoute = await readFile(new URL('../app/api/history/route.ts', import.meta.url), 'utf8');
+const historyEntryRoute = await readFile(new URL('../app/api/history/[id]/route.ts', import.meta.url), 'utf8');
+const historyOutputRoute = await readFile(new URL('../app/api/history/[id]/outputs/[index]/route.ts', import.meta.url), 'utf8');
+const imageStudio = await readFile(new URL('../components/ImageStudio.tsx', import.meta.url), 'utf8');
+const gitignore = await readFile(new URL('../.gitignore', import.meta.url), 'utf8');
+
+assert.match(historyStore, /process\.env\.HISTORY_DIR/, 'History store should honor HISTORY_DIR');
+assert.match(historyStore, /ID_PATTERN\.test/, 'History ids should be validated before touching the filesystem');
+assert.match(historyStore, /rm\(entryDir, \{ recursive: true, force: true \}\)/, 'Failed saves should not leave partial entries');
+assert.match(historyStore, /sharp\(bytes\)\.metadata\(\)/, 'Stored outputs should be typed by their bytes, not the declared header');
+assert.doesNotMatch(historyStore, /fetch\(/, 'The history store should never fetch remote URLs');
+
+assert.match(historyRoute, /export async function GET/, 'History route should list entries');
+assert.match(historyRoute, /export async function POST/, 'History route should save entries');
+assert.match(historyEntryRoute, /export async function GET/, 'History entry route should return one entry');
+assert.match(historyEntryRoute, /export async function DELETE/, 'History entry route should delete entries');
+assert.match(historyRoute, /parseImageData\(output\.image\)/, 'Unsupported output images should be rejected with a 400');
+assert.match(historyOutputRoute, /'X-Content-Type-Options': 'nosniff'/, 'Outputs should not be content-sniffed');
+
+for (const field of ['resolvedPrompt: promptToSend', "kind: 'storybook'", "kind: 'og-package'", 'hashReferenceImages(referenceImages)']) {
+  assert.ok(imageStudio.includes(field), `ImageStudio should record history with: ${field}`);
+}
+
+assert.match(gitignore, /^\/\.data\/$/m, 'The local history store should be git-ignored');
+
+console.log('Generation history contract passed.');
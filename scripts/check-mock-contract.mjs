@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const mock = await readFile(new URL('../lib/mock.ts', import.meta.url), 'utf8');
+const mockProvider = await readFile(new URL('../lib/providers/mock.ts', import.meta.url), 'utf8');
+const providers = await readFile(new URL('../lib/providers/index.ts', import.meta.url), 'utf8');
+
+assert.match(mock, /process\.env\.MOCK_PROVIDERS/, 'Mock mode should be selected by MOCK_PROVIDERS');
+assert.match(mockProvider, /from 'sharp'/, 'Mock images should be rendered locally with sharp');
+assert.match(mockProvider, /createHash\('sha256'\)/, 'Mock images should be deterministic per prompt');
+assert.match(providers, /if \(isMockMode\(\)\) return mockProvider;/, 'Mock mode should override every image provider');
+
+for (const route of ['chat', 'creator-chat', 'og-chat', 'complete', 'transcribe']) {
+  const source = await readFile(new URL(`../app/api/${route}/route.ts`, import.meta.url), 'utf8');
+  assert.match(source, /isMockMode\(\)/, `/api/${route} should short-circuit in mock mode`);
+}
+
+assert.match(mock, /name: 'generate_image'/, 'The mock agent should script generate_image tool calls');
+
+console.log('Mock provider contract passed.');
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const audit = await readFile(new URL('../lib/og/audit.ts', import.meta.url), 'utf8');
+const route = await readFile(new URL('../app/api/og-audit/route.ts', import.meta.url), 'utf8');
+const panel = await readFile(new URL('../components/OgAuditPanel.tsx', import.meta.url), 'utf8');
+const imageStudio = await readFile(new URL('../components/ImageStudio.tsx', import.meta.url), 'utf8');
+
+assert.match(audit, /SLACK_HEAD_LIMIT_BYTES = 32 \* 1024/, 'The audit should apply Slack\'s 32 KB rule');
+assert.match(audit, /Buffer\.byteLength\(/, 'The 32 KB rule counts bytes, not characters');
+assert.match(audit, /preset\.maxFileSizeKb \* 1024/, 'Image file sizes should be checked against the preset budgets');
+assert.match(audit, /OG_PRESETS\.filter\(\(preset\) => preset\.metaTagTarget === tag\)/, 'Image dimensions should be matched against OG_PRESETS');
+assert.match(audit, /SVG is not supported/, 'SVG images should be flagged');
+assert.match(audit, /SINGLE_VALUE_TAGS/, 'Duplicate tags should be reported');
+assert.match(audit, /missing:\$\{required\.key\}/, 'Missing tags should be reported');
+assert.match(audit, /reader\.cancel\(\)/, 'Oversized bodies should be abandoned while streaming, not after buffering');
+assert.match(audit, /redirect: 'manual'/, 'Redirects should be followed by hand so each hop is checked');
+assert.match(audit, /lookup\(hostname, \{ all: true \}\)/, 'Hosts should be checked after DNS resolution');
+assert.match(audit, /const dispatcher = createPinnedAgent\(await resolvePublicHost\(/, 'Each hop should connect to the address that was checked');
+assert.match(audit, /connect: \{\n\s+lookup:/, 'The pinned agent should answer DNS lookups with the checked address');
+assert.match(route, /fetchPageHtml\(/, 'The route should audit a live URL');
+assert.match(route, /html\?\.trim\(\)/, 'The route should audit pasted HTML');
+assert.match(panel, /onGenerateFix\(report\)/, 'The panel should offer a fixing package');
+assert.match(imageStudio, /getCreatorPreset\('website-og-package'\)/, 'A fix should switch to the OG package workflow');
+
+// Runs the real decoder on entities outside Unicode, which String.fromCodePoint rejects.
+const decodeSource = audit.match(/function decodeCodePoint\(entity: string, codePoint: number\): string \{[\s\S]*?\n\}\n\nexport function decodeHtmlEntities\(value: string\): string \{[\s\S]*?\n\}/)?.[0];
+assert.ok(decodeSource, 'decodeHtmlEntities should exist');
+const decodeHtmlEntities = new Function(
+  `${decodeSource
+    .replace('export ', '')
+    .replace('(entity: string, codePoint: number): string', '(entity, codePoint)')
+    .replace('(value: string): string', '(value)')
+    .replace(/: string\)/g, ')')}\nreturn decodeHtmlEntities;`,
+)();
+assert.equal(decodeHtmlEntities('&#99999999; &#x110000; &#xD800;'), '&#99999999; &#x110000; &#xD800;', 'Out-of-range entities should be left as written');
+assert.equal(decodeHtmlEntities('Caf&#233; &#x1F600; &amp;'), 'Caf\u00e9 \u{1F600} &', 'Valid entities should still decode');
+
+console.log('OG audit contract passed.');
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const bulk = await readFile(new URL('../lib/og/bulk.ts', import.meta.url), 'utf8');
+const route = await readFile(new URL('../app/api/og-bulk/route.ts', import.meta.url), 'utf8');
+const bundleRoute = await readFile(new URL('../app/api/og-bulk/bundle/route.ts', import.meta.url), 'utf8');
+const zip = await readFile(new URL('../lib/serverZip.ts', import.meta.url), 'utf8');
+const panel = await readFile(new URL('../components/OgBulkPanel.tsx', import.meta.url), 'utf8');
+const imageStudio = await readFile(new URL('../components/ImageStudio.tsx', import.meta.url), 'utf8');
+
+assert.match(bulk, /parseSitemapXml\(/, 'Sitemaps should be a bulk source');
+assert.match(bulk, /<sitemapindex\\b/, 'Sitemap indexes should be followed');
+assert.match(bulk, /parseCsvEntries\(/, 'CSV should be a bulk source');
+assert.match(bulk, /parseMarkdownEntries\(/, 'Markdown folders should be a bulk source');
+assert.match(bulk, /parseFrontMatter\(/, 'Markdown titles and descriptions come from front matter');
+assert.match(bulk, /dedupeSlugs\(/, 'Bundle folders must not collide');
+assert.match(route, /extractOgBulkEntries\(input\)/, '/api/og-bulk should extract page entries');
+assert.match(bundleRoute, /renderOgMetaHtml\(buildOgPackageMetaInput\(meta, images\)\)/, 'Each page should get a meta snippet built from buildOgMetaTags');
+assert.match(bundleRoute, /name: `\$\{page\.slug\}\/\$\{image\.filename\}`/, 'Bundles should be keyed by slug');
+assert.match(bundleRoute, /SLUG_PATTERN\.test/, 'Slugs become archive paths and must be validated');
+assert.match(bundleRoute, /createZipStream\(/, 'Bulk bundles should stream instead of buffering every image');
+assert.match(zip, /export function createZipStream/, 'The ZIP writer should support streaming');
+assert.match(panel, /runPages\(\[row\]\)/, 'Failed pages should be retryable one at a time');
+assert.match(panel, /stopRequestedRef/, 'Runs should be stoppable');
+assert.match(imageStudio, /getCreatorPreset\(options\.mode === 'package' \? 'website-og-package' : OG_MASTER_PRESET_ID\)/, 'Bulk runs should use the universal preset or the full package');
+assert.match(imageStudio, /renderOgPackageExports\(masterImage, brief, overlay, onProgress\)/, 'Bulk packages should share the studio export loop');
+assert.match(imageStudio, /kind: preset\.workflow === 'og-package' \? 'og-package' : 'image'/, 'Single-image bulk pages should be saved as images');
+
+// Runs the real slugifier on a title that crosses the length limit exactly at a word break.
+const slugifySource = bulk.match(/function slugifySegment\(value: string\): string \{[\s\S]*?\n\}/)?.[0];
+assert.ok(slugifySource, 'slugifySegment should exist');
+const maxSlugLength = Number(bulk.match(/MAX_SLUG_SEGMENT_LENGTH = (\d+)/)?.[1]);
+const slugPattern = new RegExp(bundleRoute.match(/const SLUG_PATTERN = \/(.+)\/;/)?.[1]);
+const slugifySegment = new Function(
+  'MAX_SLUG_SEGMENT_LENGTH',
+  `${slugifySource.replace('(value: string): string', '(value)')}\nreturn slugifySegment;`,
+)(maxSlugLength);
+const longTitleSlug = slugifySegment(`${'a'.repeat(maxSlugLength - 1)} ${'b'.repeat(20)}`);
+assert.ok(longTitleSlug.length <= maxSlugLength, 'Slug segments should respect the length limit');
+assert.match(longTitleSlug, slugPattern, 'A title longer than the limit should still produce a slug the bundle route accepts');
+
+console.log('OG bulk contract passed.');
@@ -6,6 +6,9 @@ const modelConfig = await readFile(new URL('../lib/modelConfig.ts', import.meta.
 const ogPresets = await readFile(new URL('../lib/og/presets.ts', import.meta.url), 'utf8');
 const ogMeta = await readFile(new URL('../lib/og/meta.ts', import.meta.url), 'utf8');
 const ogChatRoute = await readFile(new URL('../app/api/og-chat/route.ts', import.meta.url), 'utf8');
+const outpaintRoute = await readFile(new URL('../app/api/outpaint/route.ts', import.meta.url), 'utf8');
+const imageEditing = await readFile(new URL('../lib/serverImageEditing.ts', import.meta.url), 'utf8');
+const imageStudio = await readFile(new URL('../components/ImageStudio.tsx', import.meta.url), 'utf8');
 
 assert.match(modelConfig, /DEFAULT_MODEL: Model = 'gpt-image-2'/, 'GPT Image 2 should be the default model');
 
@@ -19,10 +22,22 @@ for (const phrase of [
   'og-pinterest-pin',
   'og-whatsapp-optimized',
   'og-retina-landscape',
+  'og-facebook-feed',
+  'og-linkedin-share',
+  'og-slack-unfurl',
+  'og-discord-large',
+  'og-discord-thumbnail',
 ]) {
   assert.match(ogPresets, new RegExp(phrase), `OG presets should include ${phrase}`);
 }
 
+const packagePresetIds = ogPresets.match(/OG_PACKAGE_PRESET_IDS = \[([\s\S]*?)\]/)?.[1] || '';
+for (const platform of ['facebook', 'linkedin', 'slack', 'discord']) {
+  assert.match(ogPresets, new RegExp(`platform: '${platform}'`), `OG presets should have a dedicated ${platform} preset`);
+  assert.match(packagePresetIds, new RegExp(`'og-${platform}-`), `The OG package should export the ${platform} preset`);
+}
+assert.match(ogPresets, /width: 1200,\s*height: 627/, 'The LinkedIn share preset should be 1200x627');
+
 assert.match(ogPresets, /width: 1200,\s*height: 630/, 'Universal OG preset should be 1200x630');
 assert.match(ogPresets, /maxFileSizeKb: 300/, 'WhatsApp-safe file size guidance should exist');
 assert.match(ogMeta, /twitter:card/, 'Meta builder should include twitter:card');
@@ -52,5 +67,12 @@ for (const phrase of [
 }
 
 assert.match(ogPresets, /OG_MASTER_PRESET_ID = 'og-universal-landscape'/, 'Package master should be landscape OG');
+assert.doesNotMatch(ogPresets, /exportFit: 'contain'/, 'Package derivatives should not be letterboxed');
+assert.equal(ogPresets.match(/exportFit: 'extend'/g)?.length, 2, 'The square and Pinterest derivatives should extend the master canvas');
+assert.match(imageEditing, /export async function outpaintWithProvider/, 'Extended canvases should be outpainted by the image model');
+assert.match(outpaintRoute, /resolveSourceImage\(imageData, request\.nextUrl\.origin\)/, 'Outpaint should only take data URIs or this studio\'s history outputs');
+assert.doesNotMatch(imageEditing, /fetch\(/, 'Image editing should never fetch a caller-supplied URL');
+assert.match(imageStudio, /outpaintImage\(image, exportPreset\.width, exportPreset\.height/, 'The OG package should outpaint extend derivatives');
+assert.match(imageStudio, /exportOgPackage\(masterImage, \{/, 'The studio should run the shared package export loop');
 
 console.log('Open Graph workflow contract passed.');
\ No newline at end of file
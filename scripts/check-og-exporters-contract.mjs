@@ -0,0 +1,18 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const exporters = await readFile(new URL('../lib/og/exporters.ts', import.meta.url), 'utf8');
+const ogPackagePreview = await readFile(new URL('../components/OgPackagePreview.tsx', import.meta.url), 'utf8');
+
+for (const target of ['html', 'nextjs', 'astro', 'hugo', 'jekyll', 'yoast', 'json-ld']) {
+  assert.match(exporters, new RegExp(`id: '${target}'`), `Metadata should export to ${target}`);
+}
+assert.match(exporters, /filename: 'meta\.html'/, 'The HTML export should keep the bundle\'s meta.html name');
+assert.match(exporters, /export async function generateMetadata\(\): Promise<Metadata>/, 'The Next.js export should be a generateMetadata snippet');
+assert.match(exporters, /export const viewport: Viewport/, 'Next.js theme-color belongs in the viewport export');
+assert.match(exporters, /'@type': 'WebPage'/, 'JSON-LD should describe a WebPage');
+assert.match(exporters, /replace\(\/<\/g, '\\\\u003c'\)/, 'JSON-LD should not be able to close its script tag');
+assert.match(exporters, /_yoast_wpseo_opengraph-image/, 'Yoast fields should include the Open Graph image');
+assert.match(ogPackagePreview, /OG_META_EXPORT_TARGETS\.map/, 'The OG package preview should let the user pick the target');
+
+console.log('OG metadata exporters contract passed.');
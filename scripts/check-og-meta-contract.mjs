@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const meta = await readFile(new URL('../lib/og/meta.ts', import.meta.url), 'utf8');
+const ogMetaForm = await readFile(new URL('../components/OgMetaForm.tsx', import.meta.url), 'utf8');
+const ogPackagePreview = await readFile(new URL('../components/OgPackagePreview.tsx', import.meta.url), 'utf8');
+const imageStudio = await readFile(new URL('../components/ImageStudio.tsx', import.meta.url), 'utf8');
+
+assert.match(meta, /export function validateOgPackageMeta\(/, 'Package metadata should be validated');
+assert.match(meta, /UNFURL_PLATFORMS/, 'Length checks should use the per-platform unfurl limits');
+assert.match(meta, /export function resolveOgAssetUrl\(/, 'Image URLs should resolve against the configured location');
+for (const field of ['url', 'assetBaseUrl', 'title', 'description', 'siteName', 'themeColor', 'imageAlts']) {
+  assert.match(ogMetaForm, new RegExp(`issuesFor\\('${field}'`), `The metadata form should edit ${field}`);
+}
+assert.match(ogPackagePreview, /renderOgMetaExport\(exportTarget, buildOgPackageMetaInput\(metaInput, assets\)\)/, 'Meta tags should come from the edited metadata');
+assert.match(ogPackagePreview, /<OgMetaForm /, 'The OG package preview should render the metadata form');
+assert.match(ogPackagePreview, /disabled=\{metaErrorCount > 0\}/, 'Copying should be blocked while the metadata has errors');
+assert.match(imageStudio, /metaInput=\{ogMeta\}/, 'ImageStudio should pass the editable metadata');
+for (const [name, source] of [['OgPackagePreview', ogPackagePreview], ['ImageStudio', imageStudio]]) {
+  assert.doesNotMatch(source, /your-domain\.com|'Your Site'/, `${name} should not hardcode placeholder metadata`);
+}
+
+console.log('OG metadata contract passed.');
@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const route = await readFile(new URL('../app/api/og/render/route.ts', import.meta.url), 'utf8');
+const middleware = await readFile(new URL('../middleware.ts', import.meta.url), 'utf8');
+const serverImageFormat = await readFile(new URL('../lib/serverImageFormat.ts', import.meta.url), 'utf8');
+
+assert.match(route, /export async function GET/, 'og:image URLs are fetched with GET');
+assert.match(route, /readHistoryOutput\(query\.templateId/, 'Templates should be saved history outputs');
+assert.match(route, /resize\(preset\.width, preset\.height/, 'Renders should match the preset dimensions');
+assert.match(route, /compositeTextOverlay\(/, 'Title and subtitle should be composited with real fonts');
+assert.match(route, /compressToMaxSize\(sharp\(composited\), 'jpeg', preset\.quality, preset\.maxFileSizeKb\)/, 'Renders should be JPEG within the preset budget');
+assert.match(route, /'Cache-Control': CACHE_CONTROL/, 'Renders should be cacheable');
+assert.match(route, /CACHE_CONTROL = 'public, /, 'Renders should be cacheable by shared caches');
+assert.match(route, /CACHE_CONTROL = 'public, max-age=86400, s-maxage=86400'/, 'Shared caches should not outlive an unpublished template');
+assert.match(route, /entry\?\.ogTemplate/, 'Only entries published as OG templates should be rendered publicly');
+assert.match(middleware, /pathname === '\/api\/og\/render'/, 'Crawlers fetch og:image without the auth cookie');
+assert.match(serverImageFormat, /from '@\/lib\/serverImageCompress'/, '/api/format and the render route should share one compressor');
+
+console.log('OG render contract passed.');
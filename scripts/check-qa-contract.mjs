@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const analysis = await readFile(new URL('../lib/qa/analysis.ts', import.meta.url), 'utf8');
+const vision = await readFile(new URL('../lib/qa/vision.ts', import.meta.url), 'utf8');
+const qaClient = await readFile(new URL('../lib/qa/client.ts', import.meta.url), 'utf8');
+const qaRoute = await readFile(new URL('../app/api/qa/route.ts', import.meta.url), 'utf8');
+const imageStudio = await readFile(new URL('../components/ImageStudio.tsx', import.meta.url), 'utf8');
+const ogPackagePreview = await readFile(new URL('../components/OgPackagePreview.tsx', import.meta.url), 'utf8');
+
+assert.match(analysis, /'edge-clipping'/, 'QA should flag detail running into the image edges');
+assert.match(analysis, /avoidBottomPercent/, 'QA should check the platform-covered bottom band');
+assert.match(analysis, /BANNER_RESERVED_ZONE/, 'QA should check the LinkedIn profile-photo zone');
+assert.match(vision, /isMockMode\(\)/, 'The vision check should stay offline in mock mode');
+assert.match(qaRoute, /if \(vision === true\)/, 'The vision check should be opt-in per request');
+assert.match(qaClient, /Fix these problems found in the previous attempt \(mandatory\)/, 'Warnings should be fed back as mandatory fixes');
+
+assert.match(imageStudio, /checkImageQa\(generatedImage, selectedCreatorPreset\?\.id\)/, 'Every finished image should be checked');
+assert.match(imageStudio, /withQaFeedback\(buildCreatorPrompt\(/, 'Regenerating should append the QA feedback to the prompt');
+assert.match(imageStudio, /<QaReportPanel/, 'The report should be shown next to the image preview');
+assert.match(ogPackagePreview, /<QaReportPanel/, 'The report should be shown next to the OG package preview');
+
+console.log('QA contract passed.');
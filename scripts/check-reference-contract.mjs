@@ -0,0 +1,21 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const referenceImages = await readFile(new URL('../lib/referenceImages.ts', import.meta.url), 'utf8');
+const serverImageGeneration = await readFile(new URL('../lib/serverImageGeneration.ts', import.meta.url), 'utf8');
+const openRouterProvider = await readFile(new URL('../lib/providers/openRouter.ts', import.meta.url), 'utf8');
+const generateRoute = await readFile(new URL('../app/api/generate/route.ts', import.meta.url), 'utf8');
+const imageStudio = await readFile(new URL('../components/ImageStudio.tsx', import.meta.url), 'utf8');
+
+for (const role of ['subject', 'style', 'logo', 'composition']) {
+  assert.match(referenceImages, new RegExp(`value: '${role}'`), `Reference roles should include ${role}`);
+}
+
+assert.match(referenceImages, /Reference image \$\{index \+ 1\}/, 'Role instructions should be numbered in attachment order');
+assert.match(serverImageGeneration, /buildReferenceInstructions\(references\)/, 'Image prompts should describe each reference role');
+assert.match(openRouterProvider, /references\.map\(\(reference\) => \(\{ type: 'image_url'/, 'OpenRouter should receive one image_url part per reference');
+assert.match(generateRoute, /capabilities\.maxReferenceImages/, 'The generate route should enforce per-model reference limits');
+assert.match(generateRoute, /role: 'subject'/, 'A bare imageData should still be accepted as a subject reference');
+assert.match(imageStudio, /useState<UploadedReference\[\]>/, 'ImageStudio should hold several reference images');
+
+console.log('Reference images contract passed.');
@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const safeZones = await readFile(new URL('../lib/safeZones.ts', import.meta.url), 'utf8');
+const qaAnalysis = await readFile(new URL('../lib/qa/analysis.ts', import.meta.url), 'utf8');
+const imagePreview = await readFile(new URL('../components/ImagePreview.tsx', import.meta.url), 'utf8');
+const ogPackagePreview = await readFile(new URL('../components/OgPackagePreview.tsx', import.meta.url), 'utf8');
+
+assert.doesNotMatch(safeZones, /from 'sharp'/, 'Safe zone guides must stay client-safe');
+assert.match(safeZones, /avoidBottomPercent/, 'Guides should show the platform-covered bottom band');
+assert.match(safeZones, /landscapeBand/, 'Guides should show the centered landscape band on square exports');
+assert.match(safeZones, /'avatar-desktop'/, 'Guides should show the LinkedIn desktop profile photo');
+assert.match(safeZones, /'avatar-mobile'/, 'Guides should show the LinkedIn mobile profile photo');
+assert.match(safeZones, /platform === 'twitter'/, "Guides should show X's rounded card corners");
+assert.match(qaAnalysis, /import \{ BANNER_RESERVED_ZONE \} from '\.\.\/safeZones'/, 'QA and the overlay should share one reserved zone');
+
+assert.match(imagePreview, /<SafeZoneOverlay/, 'ImagePreview should draw the safe zone overlay');
+assert.match(ogPackagePreview, /getSafeZoneGuides\(activeAsset\.presetId, activeAsset\.width, activeAsset\.height\)/, 'Each package export should get its own guides');
+
+console.log('Safe zone overlay contract passed.');
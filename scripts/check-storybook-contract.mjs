@@ -6,7 +6,7 @@ const imageStudio = await readFile(new URL('../components/ImageStudio.tsx', impo
 const storybookPreview = await readFile(new URL('../components/StorybookPreview.tsx', import.meta.url), 'utf8');
 const loadingOverlay = await readFile(new URL('../components/LoadingOverlay.tsx', import.meta.url), 'utf8');
 const modelConfig = await readFile(new URL('../lib/modelConfig.ts', import.meta.url), 'utf8');
-const exportPdfRoute = await readFile(new URL('../app/api/export-pdf/route.ts', import.meta.url), 'utf8');
+const serverPdf = await readFile(new URL('../lib/serverPdf.ts', import.meta.url), 'utf8');
 
 const storybookPresetMatch = creatorContent.match(
   /id: 'linkedin-storybook-page',[\s\S]*?\n  },\n  {\n    id: 'linkedin-image-enhance'/
@@ -49,7 +49,7 @@ assert.match(storybookPreview, /Export PDF/, 'Storybook preview should expose PD
 assert.match(storybookPreview, /Page \{activePage\.pageNumber\} of \{pages\.length\}/, 'Storybook preview should support page navigation');
 assert.match(loadingOverlay, /Building PDF Pages/, 'Loading overlay should use plural PDF Pages copy');
 assert.match(modelConfig, /portrait: '4:5'/, 'Model config should include 4:5 portrait generation');
-assert.match(exportPdfRoute, /PDFDocument\.create/, 'PDF export route should create a real PDF');
-assert.match(exportPdfRoute, /pdf\.addPage\(\[width, height\]\)/, 'PDF export should preserve requested page dimensions');
+assert.match(serverPdf, /PDFDocument\.create/, 'PDF export route should create a real PDF');
+assert.match(serverPdf, /pdf\.addPage\(\[width, height\]\)/, 'PDF export should preserve requested page dimensions');
 
 console.log('LinkedIn storybook contract passed.');
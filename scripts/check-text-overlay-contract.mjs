@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const textOverlay = await readFile(new URL('../lib/textOverlay.ts', import.meta.url), 'utf8');
+const serverTextOverlay = await readFile(new URL('../lib/serverTextOverlay.ts', import.meta.url), 'utf8');
+const serverImageFormat = await readFile(new URL('../lib/serverImageFormat.ts', import.meta.url), 'utf8');
+const formatRoute = await readFile(new URL('../app/api/format/route.ts', import.meta.url), 'utf8');
+const ogPrompts = await readFile(new URL('../lib/og/prompts.ts', import.meta.url), 'utf8');
+const imageStudio = await readFile(new URL('../components/ImageStudio.tsx', import.meta.url), 'utf8');
+
+assert.match(textOverlay, /getOgPreset\(preset\.id\)\?\.safeZone/, 'The text box should follow the OG preset safe zone');
+assert.match(textOverlay, /avoidBottomPercent/, 'The text box should stay out of the platform-covered bottom band');
+assert.match(textOverlay, /landscapeBand/, 'Square exports should keep copy inside the landscape band');
+assert.match(textOverlay, /'linkedin-profile-banner'/, 'The banner overlay should avoid the profile photo zone');
+
+assert.match(serverTextOverlay, /fontfile: process\.env\.OVERLAY_FONT_FILE/, 'Copy should be rendered with a configurable real font');
+assert.match(serverTextOverlay, /height: block\.maxHeight/, 'Copy that would overflow should be shrunk to fit its slot');
+assert.match(serverImageFormat, /compositeTextOverlay\(/, '/api/format should composite the overlay');
+assert.match(serverImageFormat, /getTextSafeBox\(width, height, options\.preset\)/, '/api/format should lay out copy from the preset');
+assert.match(formatRoute, /HEX_COLOR_PATTERN\.test\(color\)/, 'Overlay colors should be validated before reaching SVG or Pango markup');
+
+assert.match(ogPrompts, /artworkOnly \? TEXT_OVERLAY_ARTWORK_RULES : OG_TYPOGRAPHY_SAFETY_RULES/, 'OG prompts should ask for artwork only when copy is overlaid');
+assert.match(imageStudio, /formatPresetImage\(sourceImage, exportPreset, overlay\)/, 'Every OG package export should get the overlay');
+assert.match(imageStudio, /renderOgPackageExports\(\s*masterImage,\s*prompt,\s*activeTextOverlay,/, 'The studio package should pass its overlay to every export');
+
+console.log('Text overlay contract passed.');
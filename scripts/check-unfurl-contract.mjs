@@ -0,0 +1,17 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+
+const unfurl = await readFile(new URL('../lib/og/unfurl.ts', import.meta.url), 'utf8');
+const unfurlMockups = await readFile(new URL('../components/UnfurlMockups.tsx', import.meta.url), 'utf8');
+const ogPackagePreview = await readFile(new URL('../components/OgPackagePreview.tsx', import.meta.url), 'utf8');
+
+for (const platform of ['slack', 'discord', 'x', 'linkedin', 'whatsapp', 'imessage']) {
+  assert.match(unfurl, new RegExp(`id: '${platform}'`), `Unfurl mockups should cover ${platform}`);
+}
+assert.match(unfurl, /presetIds: \['og-twitter-large'/, 'The X card should use the 2:1 export');
+assert.match(unfurlMockups, /truncateForUnfurl\(metaInput\.title, platform\.titleMaxLength\)/, 'Titles should truncate per platform');
+assert.match(unfurlMockups, /truncateForUnfurl\(metaInput\.description, platform\.descriptionMaxLength\)/, 'Descriptions should truncate per platform');
+assert.match(unfurlMockups, /borderLeftColor: themeColor/, 'The Discord embed should use theme-color');
+assert.match(ogPackagePreview, /<UnfurlMockups assets=\{assets\} metaInput=\{metaInput\} \/>/, 'The OG package preview should show the mockups');
+
+console.log('Unfurl mockup contract passed.');